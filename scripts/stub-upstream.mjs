@@ -0,0 +1,41 @@
+// Servidor local que imita la API tRPC de precios de WarEra para pruebas
+// Uso: node scripts/stub-upstream.mjs [puerto]
+// y luego: WARERA_API_URL=http://localhost:4010/trpc/itemTrading.getPrices npm run dev
+//
+// STUB_MODE=error responde siempre 500, STUB_MODE=flaky falla la primera petición de cada dos.
+
+import http from 'node:http';
+
+const port = Number(process.argv[2] || process.env.PORT || 4010);
+const mode = process.env.STUB_MODE || 'ok';
+
+const BASE_PRICES = {
+  ammo: 0.35, bread: 1.2, coca: 0.9, cocain: 6.4, concrete: 1.1, cookedfish: 1.9,
+  fish: 0.8, grain: 0.3, heavyammo: 1.3, iron: 0.6, lead: 0.5, limestone: 0.2,
+  livestock: 0.9, steak: 2.05, steel: 2.3
+};
+
+let requests = 0;
+
+const server = http.createServer((req, res) => {
+  requests++;
+  console.log(`${new Date().toISOString()} ${req.method} ${req.url}`);
+
+  if (mode === 'error' || (mode === 'flaky' && requests % 2 === 1)) {
+    res.writeHead(500, { 'Content-Type': 'application/json' });
+    res.end(JSON.stringify({ error: { message: 'Stub: error simulado', code: -32603 } }));
+    return;
+  }
+
+  // Variación aleatoria de ±2% para simular movimiento del mercado
+  const data = Object.fromEntries(
+    Object.entries(BASE_PRICES).map(([item, price]) => [item, price * (1 + (Math.random() - 0.5) * 0.04)])
+  );
+
+  res.writeHead(200, { 'Content-Type': 'application/json' });
+  res.end(JSON.stringify({ result: { data } }));
+});
+
+server.listen(port, () => {
+  console.log(`Stub de la API de precios escuchando en http://localhost:${port} (modo: ${mode})`);
+});
@@ -0,0 +1,37 @@
+// Receptor HTTP local para probar las notificaciones por webhook
+// Uso: WEBHOOK_SECRET=secreto node scripts/webhook-receiver.mjs [puerto]
+// y luego: WEBHOOK_URLS=http://localhost:4020/hook WEBHOOK_SECRET=secreto npm run dev
+//
+// RECEIVER_MODE=error responde siempre 500 para probar los reintentos.
+
+import crypto from 'node:crypto';
+import http from 'node:http';
+
+const port = Number(process.argv[2] || process.env.PORT || 4020);
+const secret = process.env.WEBHOOK_SECRET || '';
+const mode = process.env.RECEIVER_MODE || 'ok';
+
+const server = http.createServer((req, res) => {
+  let body = '';
+  req.on('data', chunk => { body += chunk; });
+  req.on('end', () => {
+    const timestamp = req.headers['x-webhook-timestamp'];
+    const signature = req.headers['x-webhook-signature'];
+
+    let verified = 'sin secreto';
+    if (secret) {
+      const expected = `sha256=${crypto.createHmac('sha256', secret).update(`${timestamp}.${body}`).digest('hex')}`;
+      verified = signature === expected ? 'firma válida' : 'FIRMA INVÁLIDA';
+    }
+
+    console.log(`${new Date().toISOString()} ${req.method} ${req.url} intento=${req.headers['x-webhook-attempt']} (${verified})`);
+    console.log(body);
+
+    res.writeHead(mode === 'error' ? 500 : 200, { 'Content-Type': 'application/json' });
+    res.end(JSON.stringify({ received: mode !== 'error' }));
+  });
+});
+
+server.listen(port, () => {
+  console.log(`Receptor de webhooks escuchando en http://localhost:${port} (modo: ${mode})`);
+});
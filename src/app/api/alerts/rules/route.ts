@@ -0,0 +1,48 @@
+import { NextResponse } from 'next/server';
+import { isValidAlertRule } from '@/lib/alerts';
+import { readServerRules, replaceServerRules } from '@/lib/webhooks';
+
+export const dynamic = 'force-dynamic';
+
+// Devuelve las reglas que el servidor evalúa para notificar por webhook
+export async function GET() {
+  try {
+    return NextResponse.json(await readServerRules());
+  } catch (error) {
+    console.error('Error al leer las reglas de alerta:', error);
+    return NextResponse.json(
+      { error: 'Error al leer las reglas de alerta' },
+      { status: 500 }
+    );
+  }
+}
+
+// Reemplaza las reglas del servidor conservando su último disparo conocido
+export async function PUT(request: Request) {
+  let body: unknown;
+  try {
+    body = await request.json();
+  } catch {
+    return NextResponse.json(
+      { error: 'Cuerpo inválido', details: 'Se esperaba JSON' },
+      { status: 400 }
+    );
+  }
+
+  if (!Array.isArray(body) || !body.every(isValidAlertRule)) {
+    return NextResponse.json(
+      { error: 'Cuerpo inválido', details: 'Se esperaba una lista de reglas de alerta válidas' },
+      { status: 400 }
+    );
+  }
+
+  try {
+    return NextResponse.json(await replaceServerRules(body));
+  } catch (error) {
+    console.error('Error al guardar las reglas de alerta:', error);
+    return NextResponse.json(
+      { error: 'Error al guardar las reglas de alerta' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,22 @@
+import { NextResponse } from 'next/server';
+import { collectOnce } from '@/lib/collector';
+import { UpstreamError } from '@/lib/upstream';
+
+export const dynamic = 'force-dynamic';
+
+// Ejecuta una recolección manual (útil para cron externos como Vercel Cron)
+export async function POST() {
+  try {
+    const result = await collectOnce();
+    return NextResponse.json(result);
+  } catch (error) {
+    console.error('Error al recolectar precios:', error);
+    return NextResponse.json(
+      {
+        error: 'Error al recolectar precios',
+        details: error instanceof Error ? error.message : 'Error desconocido'
+      },
+      { status: error instanceof UpstreamError ? 502 : 500 }
+    );
+  }
+}
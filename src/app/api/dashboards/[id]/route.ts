@@ -0,0 +1,68 @@
+import { NextResponse } from 'next/server';
+import { parseDashboardInput } from '@/lib/dashboards';
+import { deleteDashboard, updateDashboard } from '@/lib/dashboardStore';
+
+export const dynamic = 'force-dynamic';
+
+interface RouteContext {
+  params: Promise<{ id: string }>;
+}
+
+// PUT /api/dashboards/:id con { name, panels }: reemplaza el nombre y los paneles
+export async function PUT(request: Request, { params }: RouteContext) {
+  const { id } = await params;
+  let body: unknown;
+  try {
+    body = await request.json();
+  } catch {
+    return NextResponse.json(
+      { error: 'Cuerpo inválido', details: 'Se esperaba JSON' },
+      { status: 400 }
+    );
+  }
+
+  const input = parseDashboardInput(body);
+  if (typeof input === 'string') {
+    return NextResponse.json(
+      { error: 'Cuerpo inválido', details: input },
+      { status: 400 }
+    );
+  }
+
+  try {
+    const dashboard = await updateDashboard(id, input);
+    if (!dashboard) {
+      return NextResponse.json(
+        { error: 'Dashboard no encontrado', details: id },
+        { status: 404 }
+      );
+    }
+    return NextResponse.json(dashboard);
+  } catch (error) {
+    console.error('Error al guardar el dashboard:', error);
+    return NextResponse.json(
+      { error: 'Error al guardar el dashboard' },
+      { status: 500 }
+    );
+  }
+}
+
+// DELETE /api/dashboards/:id
+export async function DELETE(_request: Request, { params }: RouteContext) {
+  const { id } = await params;
+  try {
+    if (!await deleteDashboard(id)) {
+      return NextResponse.json(
+        { error: 'Dashboard no encontrado', details: id },
+        { status: 404 }
+      );
+    }
+    return new NextResponse(null, { status: 204 });
+  } catch (error) {
+    console.error('Error al eliminar el dashboard:', error);
+    return NextResponse.json(
+      { error: 'Error al eliminar el dashboard' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,49 @@
+import { NextResponse } from 'next/server';
+import { parseDashboardInput } from '@/lib/dashboards';
+import { createDashboard, readDashboards } from '@/lib/dashboardStore';
+
+export const dynamic = 'force-dynamic';
+
+// Devuelve los dashboards guardados por el equipo
+export async function GET() {
+  try {
+    return NextResponse.json(await readDashboards());
+  } catch (error) {
+    console.error('Error al leer los dashboards:', error);
+    return NextResponse.json(
+      { error: 'Error al leer los dashboards' },
+      { status: 500 }
+    );
+  }
+}
+
+// POST /api/dashboards con { name, panels }: crea un dashboard nuevo
+export async function POST(request: Request) {
+  let body: unknown;
+  try {
+    body = await request.json();
+  } catch {
+    return NextResponse.json(
+      { error: 'Cuerpo inválido', details: 'Se esperaba JSON' },
+      { status: 400 }
+    );
+  }
+
+  const input = parseDashboardInput(body);
+  if (typeof input === 'string') {
+    return NextResponse.json(
+      { error: 'Cuerpo inválido', details: input },
+      { status: 400 }
+    );
+  }
+
+  try {
+    return NextResponse.json(await createDashboard(input), { status: 201 });
+  } catch (error) {
+    console.error('Error al guardar el dashboard:', error);
+    return NextResponse.json(
+      { error: 'Error al guardar el dashboard' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,45 @@
+import { NextResponse } from 'next/server';
+import { EXPORT_FORMATS, exportData, isExportFormat } from '@/lib/exporters';
+import { parseHistoryParams, queryHistory } from '@/lib/history';
+
+export const dynamic = 'force-dynamic';
+
+// GET /api/export?format=csv|ndjson|wide&items=steak,bread&from=...&to=...&hours=8-20&tz=Europe/Madrid
+export async function GET(request: Request) {
+  const params = new URL(request.url).searchParams;
+  const format = params.get('format') || 'csv';
+
+  if (!isExportFormat(format)) {
+    return NextResponse.json(
+      { error: 'Parámetros inválidos', details: `format debe ser uno de: ${Object.keys(EXPORT_FORMATS).join(', ')}` },
+      { status: 400 }
+    );
+  }
+
+  const parsed = parseHistoryParams(params);
+  if ('error' in parsed) {
+    return NextResponse.json(
+      { error: 'Parámetros inválidos', details: parsed.error },
+      { status: 400 }
+    );
+  }
+
+  try {
+    const data = await queryHistory(parsed.query);
+    const { extension, contentType } = EXPORT_FORMATS[format];
+    const filename = `prices_export_${new Date().toISOString().slice(0, 10)}${format === 'wide' ? '_wide' : ''}.${extension}`;
+
+    return new NextResponse(exportData(data, format), {
+      headers: {
+        'Content-Type': contentType,
+        'Content-Disposition': `attachment; filename="${filename}"`
+      }
+    });
+  } catch (error) {
+    console.error('Error al exportar datos:', error);
+    return NextResponse.json(
+      { error: 'Error al exportar datos' },
+      { status: 500 }
+    );
+  }
+}
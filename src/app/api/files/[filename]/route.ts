@@ -0,0 +1,31 @@
+import { NextResponse } from 'next/server';
+import { getPriceStore } from '@/lib/priceStore';
+import { isPriceFileName } from '@/lib/weekFiles';
+
+export const dynamic = 'force-dynamic';
+
+interface RouteContext {
+  params: Promise<{ filename: string }>;
+}
+
+// Devuelve los registros de una semana en el formato de los archivos semanales
+export async function GET(_request: Request, { params }: RouteContext) {
+  const { filename } = await params;
+  if (!isPriceFileName(filename)) {
+    return NextResponse.json(
+      { error: 'Archivo inválido', details: 'Se esperaba un nombre como prices_YYYY-WW.json' },
+      { status: 400 }
+    );
+  }
+
+  try {
+    const store = await getPriceStore();
+    return NextResponse.json(await store.readWeek(filename));
+  } catch (error) {
+    console.error(`Error al leer ${filename}:`, error);
+    return NextResponse.json(
+      { error: 'Error al leer el archivo', details: filename },
+      { status: 500 }
+    );
+  }
+}
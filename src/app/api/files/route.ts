@@ -1,22 +1,18 @@
 import { NextResponse } from 'next/server';
-import fs from 'fs';
-import path from 'path';
+import { getPriceStore } from '@/lib/priceStore';
 
-export async function GET() {
+export async function GET(request: Request) {
   try {
-    const dataDir = path.join(process.cwd(), 'public', 'data');
+    const withDetails = new URL(request.url).searchParams.has('details');
     
-    // Verificar si el directorio existe
-    if (!fs.existsSync(dataDir)) {
-      return NextResponse.json([], { status: 200 });
-    }
-    
-    // Leer archivos del directorio
-    const files = fs.readdirSync(dataDir)
-      .filter(file => file.endsWith('.json'))
-      .sort((a, b) => b.localeCompare(a)); // Ordenar por nombre, más reciente primero
+    // Semanas con datos, más reciente primero
+    const store = await getPriceStore();
     
-    return NextResponse.json(files);
+    if (withDetails) {
+      return NextResponse.json(await store.summarizeWeeks());
+    }
+
+    return NextResponse.json(await store.listWeeks());
   } catch (error) {
     console.error('Error al listar archivos:', error);
     return NextResponse.json(
@@ -24,4 +20,4 @@ export async function GET() {
       { status: 500 }
     );
   }
-} 
\ No newline at end of file
+}
@@ -0,0 +1,26 @@
+import { NextResponse } from 'next/server';
+import { parseHistoryParams, queryHistory } from '@/lib/history';
+
+export const dynamic = 'force-dynamic';
+
+// GET /api/history?items=steak,bread&from=2025-06-05&to=2025-06-07T12:00:00Z&resolution=1h
+export async function GET(request: Request) {
+  const parsed = parseHistoryParams(new URL(request.url).searchParams);
+  if ('error' in parsed) {
+    return NextResponse.json(
+      { error: 'Parámetros inválidos', details: parsed.error },
+      { status: 400 }
+    );
+  }
+
+  try {
+    const data = await queryHistory(parsed.query);
+    return NextResponse.json(data);
+  } catch (error) {
+    console.error('Error al consultar el historial:', error);
+    return NextResponse.json(
+      { error: 'Error al consultar el historial' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,85 @@
+import { NextResponse } from 'next/server';
+import { commitImport, diffImport, getKnownItems, type ImportPreview } from '@/lib/importer';
+import { detectImportFormat, validateImport, type ImportFormat } from '@/lib/importValidation';
+
+export const dynamic = 'force-dynamic';
+
+// Tamaño máximo del contenido importado (en caracteres)
+const MAX_IMPORT_SIZE = 20 * 1024 * 1024;
+
+interface ImportRequest {
+  content: string;
+  filename?: string;
+  format?: ImportFormat;
+  dryRun?: boolean;
+  allowUnknownItems?: boolean;
+}
+
+// Función para validar el cuerpo de la petición
+const isImportRequest = (body: unknown): body is ImportRequest => {
+  const request = body as ImportRequest | null;
+  return typeof request?.content === 'string'
+    && (request.filename === undefined || typeof request.filename === 'string')
+    && (request.format === undefined || request.format === 'json' || request.format === 'csv');
+};
+
+// POST /api/import con { content, filename?, format?, dryRun?, allowUnknownItems? }
+// Con dryRun devuelve la vista previa sin escribir; sin él fusiona los registros válidos.
+export async function POST(request: Request) {
+  let body: unknown;
+  try {
+    body = await request.json();
+  } catch {
+    return NextResponse.json(
+      { error: 'Cuerpo inválido', details: 'Se esperaba JSON' },
+      { status: 400 }
+    );
+  }
+
+  if (!isImportRequest(body)) {
+    return NextResponse.json(
+      { error: 'Cuerpo inválido', details: 'Se esperaba { content, filename?, format?: json|csv, dryRun? }' },
+      { status: 400 }
+    );
+  }
+  if (body.content.length > MAX_IMPORT_SIZE) {
+    return NextResponse.json(
+      { error: 'Archivo demasiado grande', details: `El máximo es ${MAX_IMPORT_SIZE / 1024 / 1024} MB` },
+      { status: 413 }
+    );
+  }
+
+  try {
+    const format = body.format ?? detectImportFormat(body.content, body.filename);
+    const { data, issues, totalRecords } = validateImport(body.content, format, await getKnownItems(), body.allowUnknownItems);
+    const validRecords = Object.values(data.items).reduce((total, records) => total + records.length, 0);
+
+    const preview: ImportPreview = {
+      totalRecords,
+      validRecords,
+      items: Object.keys(data.items).sort(),
+      issues,
+      files: await diffImport(data)
+    };
+
+    if (body.dryRun) {
+      return NextResponse.json(preview);
+    }
+
+    if (validRecords === 0) {
+      return NextResponse.json(
+        { error: 'Nada que importar', details: issues[0]?.message ?? 'El archivo no contiene registros válidos' },
+        { status: 400 }
+      );
+    }
+
+    const written = await commitImport(data);
+    return NextResponse.json({ ...preview, written });
+  } catch (error) {
+    console.error('Error al importar datos:', error);
+    return NextResponse.json(
+      { error: 'Error al importar datos' },
+      { status: 500 }
+    );
+  }
+}
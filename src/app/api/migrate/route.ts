@@ -0,0 +1,29 @@
+import { NextResponse } from 'next/server';
+import { migrateJsonToStore } from '@/lib/priceMigration';
+import { getPriceStore } from '@/lib/priceStore';
+
+export const dynamic = 'force-dynamic';
+
+// Importa todos los prices_*.json de public/data en el almacenamiento configurado
+// Se puede repetir: los registros ya migrados se omiten.
+export async function POST() {
+  try {
+    const store = await getPriceStore();
+    if (store.backend === 'json') {
+      return NextResponse.json(
+        { error: 'Migración no disponible', details: 'El almacenamiento activo ya son los archivos JSON' },
+        { status: 409 }
+      );
+    }
+    return NextResponse.json(await migrateJsonToStore(store));
+  } catch (error) {
+    console.error('Error al migrar los archivos JSON:', error);
+    return NextResponse.json(
+      {
+        error: 'Error al migrar los archivos JSON',
+        details: error instanceof Error ? error.message : 'Error desconocido'
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,26 @@
+import { NextResponse } from 'next/server';
+import { fetchUpstreamPrices, UpstreamError } from '@/lib/upstream';
+
+// Los precios en vivo nunca deben cachearse
+export const dynamic = 'force-dynamic';
+
+// Solo consulta la API de origen: guardar las muestras y evaluar las reglas con webhook
+// le corresponde al recolector, para no registrar dos veces la misma instantánea.
+export async function GET() {
+  try {
+    const data = await fetchUpstreamPrices();
+    return NextResponse.json(data);
+  } catch (error) {
+    console.error('Error al obtener precios de la API de origen:', error);
+    const upstreamError = error instanceof UpstreamError ? error : null;
+    return NextResponse.json(
+      {
+        error: 'Error al obtener precios de la API de origen',
+        details: error instanceof Error ? error.message : 'Error desconocido',
+        upstreamStatus: upstreamError?.status ?? null,
+        attempts: upstreamError?.attempts ?? null
+      },
+      { status: 502 }
+    );
+  }
+}
@@ -0,0 +1,113 @@
+import { STREAM_CONFIG } from '@/config/stream.config';
+import { retainCollector } from '@/lib/collector';
+import { getPriceStore } from '@/lib/priceStore';
+import { subscribePrices } from '@/lib/priceStream';
+import type { RawData } from '@/lib/types';
+
+export const dynamic = 'force-dynamic';
+export const runtime = 'nodejs';
+
+// Función para leer el timestamp (ms) desde el que reanudar
+// Last-Event-ID (reconexión automática del navegador) tiene prioridad sobre ?since=.
+const getResumePoint = (request: Request): number | null => {
+  const candidates = [request.headers.get('last-event-id'), new URL(request.url).searchParams.get('since')];
+  for (const candidate of candidates) {
+    if (!candidate) continue;
+    const time = /^\d+$/.test(candidate) ? Number(candidate) : new Date(candidate).getTime();
+    if (!isNaN(time)) return time;
+  }
+  return null;
+};
+
+// GET /api/stream?since=<ms o ISO>
+// Server-Sent Events: cada evento "prices" lleva solo los registros nuevos de cada item
+// y su id es el timestamp (ms) del registro más reciente enviado.
+export async function GET(request: Request) {
+  const since = getResumePoint(request);
+  const encoder = new TextEncoder();
+  const lastSent = new Map<string, number>(); // Último timestamp enviado de cada item
+  let cleanup = () => {};
+
+  const stream = new ReadableStream<Uint8Array>({
+    async start(controller) {
+      let closed = false;
+      let ready = false;
+      const pending: RawData[] = [];
+
+      const write = (chunk: string) => {
+        if (closed) return;
+        try {
+          controller.enqueue(encoder.encode(chunk));
+        } catch {
+          cleanup();
+        }
+      };
+
+      // Función para enviar los registros que el cliente aún no tiene
+      const send = (data: RawData) => {
+        const fresh: RawData = { items: {} };
+        let latest = -Infinity;
+        for (const [item, records] of Object.entries(data.items)) {
+          const last = lastSent.get(item) ?? since ?? -Infinity;
+          const newer = records.filter(record => new Date(record.timestamp).getTime() > last);
+          if (newer.length === 0) continue;
+          fresh.items[item] = newer;
+          const itemLatest = newer.reduce((max, record) => Math.max(max, new Date(record.timestamp).getTime()), -Infinity);
+          lastSent.set(item, itemLatest);
+          latest = Math.max(latest, itemLatest);
+        }
+        if (latest === -Infinity) return;
+        write(`event: prices\nid: ${latest}\ndata: ${JSON.stringify(fresh)}\n\n`);
+      };
+
+      // Suscribirse antes de leer el historial para no perder lo que llegue entretanto
+      const unsubscribe = subscribePrices(data => {
+        if (ready) send(data);
+        else pending.push(data);
+      });
+      const release = retainCollector();
+      const heartbeat = setInterval(() => write(': ping\n\n'), STREAM_CONFIG.heartbeatInterval);
+
+      cleanup = () => {
+        if (closed) return;
+        closed = true;
+        unsubscribe();
+        release();
+        clearInterval(heartbeat);
+        try {
+          controller.close();
+        } catch {
+          // Ya cerrado por el cliente
+        }
+      };
+      request.signal.addEventListener('abort', () => cleanup());
+
+      write(`retry: ${STREAM_CONFIG.retryDelay}\n\n`);
+
+      // Registros perdidos desde el punto de reanudación, limitados a STREAM_CONFIG.maxBacklog
+      if (since !== null) {
+        try {
+          const from = Math.max(since + 1, Date.now() - STREAM_CONFIG.maxBacklog);
+          send(await (await getPriceStore()).query(null, new Date(from), null));
+        } catch (error) {
+          console.error('Error al leer el historial para el flujo de precios:', error);
+        }
+      }
+
+      ready = true;
+      pending.splice(0).forEach(send);
+    },
+    cancel() {
+      cleanup();
+    }
+  });
+
+  return new Response(stream, {
+    headers: {
+      'Content-Type': 'text/event-stream; charset=utf-8',
+      'Cache-Control': 'no-cache, no-transform',
+      Connection: 'keep-alive',
+      'X-Accel-Buffering': 'no'
+    }
+  });
+}
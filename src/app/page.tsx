@@ -2,641 +2,948 @@
 
 "use client"; // ¡Importante! Esto le dice a Next.js que es un componente de cliente
 
-import { useState, useEffect, useMemo } from 'react';
-import dynamic from 'next/dynamic';
-import { fetchPricesFromAPI, loadWeeklyPrices } from '@/lib/api';
-import { API_CONFIG } from '@/config/api.config';
-
-// Interfaces y tipos
-interface PriceRecord {
-  timestamp: string;
-  price: number;
-}
-
-interface FlatDataItem {
-  item: string;
-  timestamp: Date;
-  price: number;
-  hour: number;
-  day: string;
-}
-
-interface RawData {
-  items: {
-    [key: string]: PriceRecord[];
-  };
-}
-
-// Agregar tipos para las estadísticas diarias
-interface DailyStats {
-  day: string;
-  avg: number;
-  min: number;
-  max: number;
-  std: number;
-  count: number;
-}
-
-// Agregar tipos para el rango de precios
-interface PriceRange {
-  min: number;
-  max: number;
-  avg: number;
-}
-
-// Agregar tipos para los datos del mapa de calor
-interface HeatmapData {
-  x: number[];
-  y: string[];
-  z: (number | null)[][];
-  text: string[][];
-}
-
-// Interfaces para Plot
-interface PlotData {
-  x: any[];
-  y?: any[];
-  z?: (number | null)[][];
-  type: string;
-  mode?: string;
-  name?: string;
-  colorscale?: string;
-  reversescale?: boolean;
-  open?: number[];
-  high?: number[];
-  low?: number[];
-  close?: number[];
-  increasing?: {line: {color: string}};
-  decreasing?: {line: {color: string}};
-  fill?: string;
-  fillcolor?: string;
-  line?: {color: string; width?: number};
-  marker?: {size?: number; color?: string; opacity?: number};
-  showlegend?: boolean;
-  text?: (string | number)[][] | (string | number)[];
-  texttemplate?: string;
-  textfont?: {size: number};
-  hovertemplate?: string;
-  yaxis?: string;
-}
-
-interface PlotProps {
-  data: PlotData[];
-  layout: {
-    title: string | { text: string; font?: { color: string; size: number } };
-    xaxis: { 
-      title: string | { text: string; font?: { color: string } };
-      type?: string;
-      gridcolor?: string;
-      tickfont?: { color: string };
-    };
-    yaxis?: { 
-      title: string | { text: string; font?: { color: string } };
-      gridcolor?: string;
-      tickfont?: { color: string };
-    };
-    yaxis2?: { 
-      title: string | { text: string; font?: { color: string } };
-      overlaying: string;
-      side: string;
-      gridcolor?: string;
-      tickfont?: { color: string };
-    };
-    height: number;
-    autosize: boolean;
-    showlegend?: boolean;
-    hovermode?: string;
-    plot_bgcolor?: string;
-    paper_bgcolor?: string;
-    font?: { color: string };
-    legend?: {
-      font?: { color: string };
-      bgcolor?: string;
-      bordercolor?: string;
-      borderwidth?: number;
-    };
-  };
-  useResizeHandler: boolean;
-  style: { width: string; height: string };
-  config?: any;
-}
-
-// Carga dinámica de Plotly para que no afecte la carga inicial de la página
-const Plot = dynamic(() => import('react-plotly.js'), { ssr: false }) as React.ComponentType<PlotProps>;
+import { useState, useEffect, useMemo, useRef } from 'react';
+import {
+  connectPriceStream,
+  fetchPricesFromAPI,
+  getAvailableFileDetails,
+  loadCachedWeeks,
+  syncCachedWeeks,
+  type StreamStatus
+} from '@/lib/api';
+import { cacheLiveRecords, readCacheMeta, updateCacheMeta } from '@/lib/offlineCache';
+import type { FlatDataItem, PriceRecord, RawData, WeekFileSummary } from '@/lib/types';
+import Plot, { CHART_COLORS, getPlotLayout, getSubplotLayout, type PlotData, type PlotShape } from '@/components/Plot';
+import AlertsPanel from '@/components/AlertsPanel';
+import AnomalyPanel from '@/components/AnomalyPanel';
+import CraftingAnalyzer from '@/components/CraftingAnalyzer';
+import CorrelationMatrix from '@/components/CorrelationMatrix';
+import DashboardBuilder from '@/components/DashboardBuilder';
+import PortfolioTracker from '@/components/PortfolioTracker';
+import ExportLinks from '@/components/ExportLinks';
+import ForecastBacktest from '@/components/ForecastBacktest';
+import HourRangeControl from '@/components/HourRangeControl';
+import SeasonalityView from '@/components/SeasonalityView';
+import IndicatorControls from '@/components/IndicatorControls';
+import WeekPicker from '@/components/WeekPicker';
+import ImportDialog from '@/components/ImportDialog';
+import CopyLinkButton from '@/components/CopyLinkButton';
+import LiveIndicator from '@/components/LiveIndicator';
+import OfflineNotice from '@/components/OfflineNotice';
+import TimeZoneSelect from '@/components/TimeZoneSelect';
+import type { PriceRange } from '@/lib/aggregations';
+import { createAggregationClient, useAggregation, type AggregationClient } from '@/lib/aggregationClient';
+import type { HourRange } from '@/lib/hourRange';
+import {
+  parseViewState,
+  resolveViewState,
+  serializeViewState,
+  type DashboardViewState
+} from '@/lib/urlState';
+import {
+  ANOMALY_LABELS,
+  DEFAULT_ANOMALY_SETTINGS,
+  loadExcludedPoints,
+  saveExcludedPoints,
+  type Anomaly,
+  type AnomalySettings
+} from '@/lib/anomalies';
+import {
+  FORECAST_HORIZONS,
+  FORECAST_MODEL_LABELS,
+  type ForecastModel,
+  type ForecastResult
+} from '@/lib/forecast';
+import {
+  appendLoadedPrices,
+  createLoadedPrices,
+  getAnalysisData,
+  rezoneLoadedPrices,
+  type LoadedPrices
+} from '@/lib/loadedPrices';
+import { DEFAULT_INDICATOR_SETTINGS, type IndicatorSettings } from '@/lib/indicators';
+import {
+  formatZonedDateTime,
+  getTimeZoneLabel,
+  getZonedDay,
+  getZonedDayBounds,
+  getZonedHour,
+  loadTimeZoneSetting,
+  resolveTimeZone,
+  saveTimeZoneSetting,
+  type TimeZoneSetting
+} from '@/lib/timezone';
+import { getWeekFileName } from '@/lib/weekFiles';
 
 // --- Funciones de Ayuda para el Procesamiento de Datos ---
 
-// Función para calcular la desviación estándar (nuestra medida de volatilidad)
-const getStandardDeviation = (array: number[]): number => {
-  if (!array || array.length === 0) return 0;
-  try {
-    const n = array.length;
-    const mean = array.reduce((a: number, b: number) => a + b) / n;
-    return Math.sqrt(array.map(x => Math.pow(x - mean, 2)).reduce((a: number, b: number) => a + b) / n);
-  } catch (error) {
-    console.error('Error al calcular la desviación estándar:', error);
-    return 0;
-  }
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Resultados vacíos mientras el worker no ha respondido
+const NO_ANOMALIES: Anomaly[] = [];
+const NO_FORECASTS: Record<string, ForecastResult | null> = {};
+
+// Función para convertir los tiempos (ms) que devuelve el worker en fechas para Plotly
+// Se pasan como texto en la zona elegida: Plotly mostraría las fechas en la del navegador.
+const toZonedLabels = (times: Float64Array, timeZone: string): string[] => {
+  return Array.from(times, time => formatZonedDateTime(time, timeZone));
 };
 
-// Función para calcular media móvil
-const getMovingAverage = (data: number[], windowSize: number): number[] => {
-  if (!data || data.length === 0 || windowSize <= 0) return [];
-  try {
-    const result = [];
-    for (let i = windowSize - 1; i < data.length; i++) {
-      const window = data.slice(i - windowSize + 1, i + 1);
-      const avg = window.reduce((a, b) => a + b) / windowSize;
-      result.push(avg);
-    }
-    return result;
-  } catch (error) {
-    console.error('Error al calcular la media móvil:', error);
-    return [];
-  }
+// Intervalos disponibles para las velas
+const CANDLE_INTERVALS: Record<string, number> = {
+  '1h': 60 * 60 * 1000,
+  '4h': 4 * 60 * 60 * 1000,
+  '1d': DAY_MS
 };
 
-// Función para obtener estadísticas por día
-const getDailyStats = (data: FlatDataItem[]): DailyStats[] => {
-  if (!data || data.length === 0) return [];
-  try {
-    const dailyGroups = data.reduce((acc, item) => {
-      if (!acc[item.day]) acc[item.day] = [];
-      acc[item.day].push(item.price);
-      return acc;
-    }, {} as Record<string, number[]>);
-
-    return Object.entries(dailyGroups).map(([day, prices]) => ({
-      day,
-      avg: prices.reduce((a, b) => a + b) / prices.length,
-      min: Math.min(...prices),
-      max: Math.max(...prices),
-      std: getStandardDeviation(prices),
-      count: prices.length
-    }));
-  } catch (error) {
-    console.error('Error al calcular estadísticas diarias:', error);
-    return [];
+// Función para convertir RawData en registros planos con hora y día en la zona indicada
+const flattenRawData = (data: RawData, timeZone: string): FlatDataItem[] => {
+  const flatData: FlatDataItem[] = [];
+  for (const [itemName, priceHistory] of Object.entries(data.items)) {
+    if (!Array.isArray(priceHistory)) {
+      console.warn(`Historial de precios inválido para ${itemName}`);
+      continue;
+    }
+    
+    priceHistory.forEach((record: PriceRecord) => {
+      try {
+        const date = new Date(record.timestamp);
+        if (isNaN(date.getTime())) {
+          throw new Error(`Timestamp inválido: ${record.timestamp}`);
+        }
+        
+        flatData.push({
+          item: itemName,
+          timestamp: date,
+          price: Number(record.price),
+          hour: getZonedHour(date.getTime(), timeZone),
+          day: getZonedDay(date.getTime(), timeZone)
+        });
+      } catch (error) {
+        console.error(`Error procesando registro para ${itemName}:`, error);
+      }
+    });
   }
+  return flatData;
 };
 
-// Función para normalizar datos (0-100)
-const normalizeData = (data: number[]): number[] => {
-  const min = Math.min(...data);
-  const max = Math.max(...data);
-  const range = max - min;
-  if (range === 0) return data.map(() => 50); // Si todos los valores son iguales
-  return data.map(value => ((value - min) / range) * 100);
-};
+// Número de semanas que se cargan al abrir el dashboard
+const DEFAULT_WEEKS_TO_LOAD = 4;
 
-// Función para calcular el rango de precios de un item
-const getPriceRange = (data: FlatDataItem[], item: string) => {
-  const prices = data.filter(d => d.item === item).map(d => d.price);
-  if (prices.length === 0) return { min: 0, max: 0, avg: 0 };
-  return {
-    min: Math.min(...prices),
-    max: Math.max(...prices),
-    avg: prices.reduce((a, b) => a + b) / prices.length
-  };
+// Función para elegir las semanas a cargar: las pedidas que existen o, si no hay, las más recientes
+const getWeeksToLoad = (files: WeekFileSummary[], requested: string[] = []): string[] => {
+  const existing = requested.filter(filename => files.some(f => f.filename === filename));
+  return existing.length > 0 ? existing : files.slice(0, DEFAULT_WEEKS_TO_LOAD).map(f => f.filename);
 };
 
-// Colores para los gráficos
-const CHART_COLORS = [
-  '#00d4ff', '#6366f1', '#10b981', '#f59e0b', '#ef4444',
-  '#8b5cf6', '#06b6d4', '#84cc16', '#f97316', '#ec4899'
-];
+// Función para saber si las semanas elegidas llegan hasta ahora y deben recibir los precios en vivo
+// Vale la semana actual o la más reciente del servidor, porque una semana recién empezada no
+// aparece en la lista hasta la siguiente sincronización. Sin semanas solo hay precios actuales.
+const includesNow = (files: WeekFileSummary[], selected: string[]): boolean => {
+  if (selected.length === 0) return true;
+  return selected.includes(getWeekFileName(new Date())) || (files.length > 0 && selected.includes(files[0].filename));
+};
 
 export default function HomePage() {
   // --- Estados de la Aplicación ---
-  const [rawData, setRawData] = useState<FlatDataItem[] | null>(null);
+  const [loadedPrices, setLoadedPrices] = useState<LoadedPrices | null>(null);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
   const [selectedItem, setSelectedItem] = useState('cocain'); // Item por defecto
   const [selectedDay, setSelectedDay] = useState<string>('');
   const [selectedItem2, setSelectedItem2] = useState<string>('');
   const [selectedItemsForTrends, setSelectedItemsForTrends] = useState<string[]>([]);
-  const [timeRange, setTimeRange] = useState<[number, number]>([0, 23]);
+  const [timeRange, setTimeRange] = useState<HourRange>([0, 23]);
   const [dateRange, setDateRange] = useState<string>('single'); // 'single', 'range', 'all'
   const [startDate, setStartDate] = useState<string>('');
   const [endDate, setEndDate] = useState<string>('');
   const [trendAnalysisType, setTrendAnalysisType] = useState<string>('daily'); // 'daily', 'hourly'
-  const [yAxisMode, setYAxisMode] = useState<string>('linear'); // 'linear', 'log', 'dual', 'normalized'
+  const [indicatorSettings, setIndicatorSettings] = useState<IndicatorSettings>(DEFAULT_INDICATOR_SETTINGS);
+  const [anomalySettings, setAnomalySettings] = useState<AnomalySettings>(DEFAULT_ANOMALY_SETTINGS);
+  const [excludedPoints, setExcludedPoints] = useState<string[]>(() => loadExcludedPoints());
+  const [showAnomalies, setShowAnomalies] = useState(true);
+  const [forecastEnabled, setForecastEnabled] = useState(false);
+  const [forecastModel, setForecastModel] = useState<ForecastModel>('holt-winters');
+  const [forecastHorizon, setForecastHorizon] = useState<number>(24);
+  const [yAxisMode, setYAxisMode] = useState<string>('linear'); // 'linear', 'log', 'dual', 'normalized', 'candles'
+  const [candleInterval, setCandleInterval] = useState<string>('1h'); // '1h', '4h', '1d'
   const [currentPrices, setCurrentPrices] = useState<{[key: string]: number}>({});
+  const [availableFiles, setAvailableFiles] = useState<WeekFileSummary[]>([]);
+  const [selectedFiles, setSelectedFiles] = useState<string[]>([]);
+  const [filesLoading, setFilesLoading] = useState(false);
+  const [weeksError, setWeeksError] = useState<string | null>(null); // Error al cargar las semanas elegidas
+  const [aggregationClient, setAggregationClient] = useState<AggregationClient | null>(null);
+  const [aggregationVersion, setAggregationVersion] = useState(0); // Versión de los datos cargados en el worker
+  const [refreshKey, setRefreshKey] = useState(0); // Se incrementa con cada lote de precios en vivo
+  const [streamStatus, setStreamStatus] = useState<StreamStatus>('connecting');
+  const [lastLiveUpdate, setLastLiveUpdate] = useState<Date | null>(null);
+  const [offline, setOffline] = useState(false); // Sin conexión: se muestran los datos guardados
+  const [syncedAt, setSyncedAt] = useState<Date | null>(null); // Último dato recibido del servidor
+  const [retrying, setRetrying] = useState(false);
+  const [timeZoneSetting, setTimeZoneSetting] = useState<TimeZoneSetting>(() => loadTimeZoneSetting());
+  const timeZone = useMemo(() => resolveTimeZone(timeZoneSetting), [timeZoneSetting]);
+  const weeksRequestRef = useRef(0);
+  const timeZoneRef = useRef(timeZone); // Zona actual para las cargas asíncronas y el flujo en vivo
+  const streamSinceRef = useRef<number | null>(null); // Último timestamp recibido (ms), para reanudar el flujo
+  const followsLiveRef = useRef(true); // Si las semanas elegidas llegan hasta ahora
+  followsLiveRef.current = includesNow(availableFiles, selectedFiles);
 
-  // --- Carga de Datos ---
-  useEffect(() => {
-    const fetchData = async () => {
+  // Registros cargados ordenados por tiempo, para las vistas que los recorren todos
+  const rawData = loadedPrices ? loadedPrices.all : null;
+
+  useEffect(() => saveExcludedPoints(excludedPoints), [excludedPoints]);
+
+  // Función para aplicar un estado de vista completo (desde la URL o el historial del navegador)
+  const applyViewState = (view: DashboardViewState) => {
+    setSelectedItem(view.item);
+    setSelectedItem2(view.item2);
+    setDateRange(view.dateRange);
+    setSelectedDay(view.day);
+    setStartDate(view.start);
+    setEndDate(view.end);
+    setYAxisMode(view.yAxis);
+    setCandleInterval(view.candle);
+    setSelectedItemsForTrends(view.trendItems);
+    setTrendAnalysisType(view.trendType);
+    setTimeRange(view.hours);
+  };
+
+  // Función para reemplazar los datos cargados y reiniciar la selección de días
+  // Con `view` se aplica además el estado de la URL, validado contra los datos nuevos.
+  const applyData = (flatData: FlatDataItem[], view?: Partial<DashboardViewState>) => {
+    const prices = createLoadedPrices(flatData);
+    setLoadedPrices(prices);
+
+    const days = prices.days;
+    if (view) {
+      applyViewState(resolveViewState(view, {
+        items: [...prices.items.keys()],
+        days,
+        candleIntervals: Object.keys(CANDLE_INTERVALS)
+      }));
+    } else if (days.length > 0) {
+      setSelectedDay(days[0]);
+      setStartDate(days[0]);
+      setEndDate(days[days.length - 1]);
+    }
+  };
+
+  // --- Cambio de semanas seleccionadas ---
+  // `files` permite pasar la lista recién obtenida del servidor antes de que se actualice el estado
+  const handleWeeksChange = async (filenames: string[], view?: Partial<DashboardViewState>, files: WeekFileSummary[] = availableFiles) => {
+    setSelectedFiles(filenames);
+    setFilesLoading(true);
+    setWeeksError(null);
+    // Ignorar respuestas de selecciones anteriores que lleguen tarde
+    const requestId = ++weeksRequestRef.current;
+    try {
+      let data: RawData;
       try {
-        setLoading(true);
-        setError(null);
-        
-        // Obtener precios actuales
-        const currentData = await fetchPricesFromAPI();
-        if (currentData && currentData.items) {
-          const prices: {[key: string]: number} = {};
-          for (const [item, records] of Object.entries(currentData.items)) {
-            if (records.length > 0) {
-              prices[item] = records[0].price;
-            }
-          }
-          setCurrentPrices(prices);
-        }
-        
-        let data: RawData;
-        try {
-          data = await loadWeeklyPrices();
-        } catch (error) {
-          console.warn('No se encontraron datos semanales, obteniendo de la API:', error);
-          data = await fetchPricesFromAPI();
-        }
-        
-        if (!data || !data.items) {
-          throw new Error('Datos inválidos recibidos de la API');
-        }
-        
-        const flatData: FlatDataItem[] = [];
-        for (const [itemName, priceHistory] of Object.entries(data.items)) {
-          if (!Array.isArray(priceHistory)) {
-            console.warn(`Historial de precios inválido para ${itemName}`);
-            continue;
-          }
-          
-          priceHistory.forEach((record: PriceRecord) => {
-            try {
-              const date = new Date(record.timestamp);
-              if (isNaN(date.getTime())) {
-                throw new Error(`Timestamp inválido: ${record.timestamp}`);
-              }
-              
-              flatData.push({
-                item: itemName,
-                timestamp: date,
-                price: Number(record.price),
-                hour: date.getUTCHours(),
-                day: date.toISOString().split('T')[0]
-              });
-            } catch (error) {
-              console.error(`Error procesando registro para ${itemName}:`, error);
-            }
-          });
-        }
-        
-        if (flatData.length === 0) {
-          throw new Error('No se encontraron datos válidos para procesar');
-        }
-        
-        flatData.sort((a, b) => a.timestamp.getTime() - b.timestamp.getTime());
-        setRawData(flatData);
-        
-        const days = [...new Set(flatData.map(d => d.day))].sort();
-        if (days.length > 0) {
-          setSelectedDay(days[0]);
-          setStartDate(days[0]);
-          setEndDate(days[days.length - 1]);
+        data = await syncCachedWeeks(filenames, files);
+      } catch (error) {
+        // Sin conexión solo se pueden mostrar semanas guardadas
+        const cachedData = await loadCachedWeeks(filenames);
+        if (!cachedData) throw error;
+        setOffline(true);
+        data = cachedData;
+      }
+      if (requestId !== weeksRequestRef.current) return;
+      const flatData = flattenRawData(data, timeZoneRef.current);
+      if (flatData.length === 0) {
+        throw new Error('Las semanas seleccionadas no contienen datos válidos');
+      }
+      applyData(flatData, view);
+    } catch (error) {
+      console.error('Error al cargar las semanas seleccionadas:', error);
+      if (requestId === weeksRequestRef.current) {
+        setWeeksError(`No se pudieron cargar las semanas seleccionadas: ${error instanceof Error ? error.message : String(error)}`);
+      }
+    } finally {
+      if (requestId === weeksRequestRef.current) {
+        setFilesLoading(false);
+      }
+    }
+  };
+
+  // --- Recarga tras importar un historial ---
+  const handleImported = async () => {
+    try {
+      const files = await getAvailableFileDetails();
+      setAvailableFiles(files);
+      const selected = selectedFiles.filter(filename => files.some(f => f.filename === filename));
+      await handleWeeksChange(getWeeksToLoad(files, selected), undefined, files);
+    } catch (error) {
+      console.error('Error al recargar los archivos tras la importación:', error);
+    }
+  };
+
+  // --- Sincronización con el servidor ---
+  // Descarga los precios actuales, la lista de archivos y las semanas (completando las guardadas).
+  // Con `view` se aplica además el estado de la URL; sin él se mantiene la vista actual.
+  const syncWithServer = async (weeks: string[], view?: Partial<DashboardViewState>) => {
+    // Obtener precios actuales; si falla la API de origen se siguen cargando las semanas
+    let currentData: RawData | null = null;
+    const prices: {[key: string]: number} = {};
+    try {
+      currentData = await fetchPricesFromAPI();
+      for (const [item, records] of Object.entries(currentData.items)) {
+        if (records.length > 0) {
+          prices[item] = records[0].price;
         }
-      } catch (err: unknown) {
+      }
+      setCurrentPrices(current => ({ ...current, ...prices }));
+    } catch (error) {
+      console.warn('No se pudieron obtener los precios actuales:', error);
+    }
+
+    const files = await getAvailableFileDetails();
+    setAvailableFiles(files);
+    const filesToLoad = getWeeksToLoad(files, weeks);
+    setSelectedFiles(filesToLoad);
+
+    let data: RawData | null;
+    try {
+      if (filesToLoad.length === 0) {
+        throw new Error('No hay archivos de precios disponibles');
+      }
+      data = await syncCachedWeeks(filesToLoad, files);
+    } catch (error) {
+      console.warn('No se encontraron datos semanales, se usan los precios de la API:', error);
+      data = currentData;
+    }
+
+    if (!data || !data.items) {
+      throw new Error('Datos inválidos recibidos de la API');
+    }
+
+    const flatData = flattenRawData(data, timeZoneRef.current);
+
+    if (flatData.length === 0) {
+      throw new Error('No se encontraron datos válidos para procesar');
+    }
+
+    const lastTime = flatData.reduce((max, d) => Math.max(max, d.timestamp.getTime()), -Infinity);
+    if (view) {
+      applyData(flatData, view);
+    } else {
+      // Conservar los precios en vivo que hayan llegado durante la sincronización
+      const prices = createLoadedPrices(flatData);
+      setLoadedPrices(current => current
+        ? appendLoadedPrices(prices, current.all.filter(d => d.timestamp.getTime() > lastTime))
+        : prices);
+    }
+    // El flujo en vivo reanuda desde el último registro cargado
+    streamSinceRef.current = Math.max(streamSinceRef.current ?? -Infinity, lastTime);
+
+    const now = new Date();
+    setOffline(false);
+    setSyncedAt(now);
+    updateCacheMeta(meta => ({ files, currentPrices: { ...meta.currentPrices, ...prices }, syncedAt: now.toISOString() }));
+  };
+
+  // --- Carga de Datos ---
+  // Primero se muestran los datos guardados en este navegador y después se completan con el servidor
+  // Solo se ejecuta al montar; la referencia da acceso a las funciones del render actual.
+  const fetchDataRef = useRef<() => Promise<void>>(async () => {});
+  fetchDataRef.current = async () => {
+    setLoading(true);
+    setError(null);
+    // Semanas de la URL si existen; si no, las más recientes
+    const view = parseViewState(window.location.search);
+    applyViewTimeZone(view);
+
+    const cache = await readCacheMeta();
+    const cachedFiles = getWeeksToLoad(cache.files, view.weeks);
+    const cachedData = cachedFiles.length > 0 ? await loadCachedWeeks(cachedFiles) : null;
+    const cachedFlatData = cachedData ? flattenRawData(cachedData, timeZoneRef.current) : [];
+    const fromCache = cachedFlatData.length > 0;
+    if (fromCache) {
+      setAvailableFiles(cache.files);
+      setSelectedFiles(cachedFiles);
+      setCurrentPrices(cache.currentPrices);
+      setSyncedAt(cache.syncedAt ? new Date(cache.syncedAt) : null);
+      applyData(cachedFlatData, view);
+      streamSinceRef.current = cachedFlatData[cachedFlatData.length - 1].timestamp.getTime();
+      setLoading(false);
+    }
+
+    try {
+      await syncWithServer(view.weeks ?? [], fromCache ? undefined : view);
+    } catch (err: unknown) {
+      if (fromCache) {
+        console.warn('Sin conexión con el servidor, se muestran los datos guardados:', err);
+        setOffline(true);
+      } else {
         const errorMessage = err instanceof Error ? err.message : 'Error desconocido al cargar datos';
         setError(errorMessage);
         console.error('Error en fetchData:', err);
-      } finally {
-        setLoading(false);
       }
-    };
+    } finally {
+      setLoading(false);
+    }
+  };
 
-    fetchData();
+  useEffect(() => {
+    fetchDataRef.current();
+  }, []);
 
-    // Modificar el intervalo de actualización para incluir precios actuales
-    const updateInterval = setInterval(async () => {
-      try {
-        const newData = await fetchPricesFromAPI();
-        if (newData && newData.items) {
-          const prices: {[key: string]: number} = {};
-          for (const [item, records] of Object.entries(newData.items)) {
-            if (records.length > 0) {
-              prices[item] = records[0].price;
-            }
+  // --- Reconexión ---
+  const retrySync = async () => {
+    setRetrying(true);
+    try {
+      await syncWithServer(selectedFiles);
+    } catch (error) {
+      console.warn('El servidor sigue sin responder:', error);
+    } finally {
+      setRetrying(false);
+    }
+  };
+
+  // Al volver el flujo en vivo se sincroniza lo que falte
+  const retryOnReconnectRef = useRef<() => void>(() => {});
+  retryOnReconnectRef.current = () => {
+    if (!retrying) retrySync();
+  };
+
+  useEffect(() => {
+    if (offline && streamStatus === 'live') retryOnReconnectRef.current();
+  }, [offline, streamStatus]);
+
+  // --- Precios en vivo ---
+  // Se conecta tras la carga inicial y añade los registros nuevos a los datos cargados, salvo
+  // si se están viendo semanas pasadas; en ese caso solo se guardan en la caché local.
+  useEffect(() => {
+    if (loading || error) return;
+
+    return connectPriceStream({
+      getSince: () => streamSinceRef.current,
+      onStatus: setStreamStatus,
+      onPrices: (data) => {
+        const prices: {[key: string]: number} = {};
+        for (const [item, records] of Object.entries(data.items)) {
+          if (records.length > 0) {
+            prices[item] = records[records.length - 1].price;
           }
-          setCurrentPrices(prices);
-        }
-        
-        if (!newData || !newData.items) {
-          throw new Error('Datos inválidos recibidos de la API');
         }
+        setCurrentPrices(current => ({ ...current, ...prices }));
 
-        const flatData: FlatDataItem[] = [];
-        for (const [itemName, priceHistory] of Object.entries(newData.items)) {
-          if (!Array.isArray(priceHistory)) continue;
-          
-          priceHistory.forEach((record: PriceRecord) => {
-            try {
-              const date = new Date(record.timestamp);
-              if (isNaN(date.getTime())) return;
-              
-              flatData.push({
-                item: itemName,
-                timestamp: date,
-                price: Number(record.price),
-                hour: date.getUTCHours(),
-                day: date.toISOString().split('T')[0]
-              });
-            } catch (error) {
-              console.error(`Error procesando actualización para ${itemName}:`, error);
-            }
-          });
-        }
+        // Guardar los precios recibidos para la próxima visita o si se pierde la conexión
+        const now = new Date();
+        setSyncedAt(now);
+        cacheLiveRecords(data);
+        updateCacheMeta(meta => ({ ...meta, currentPrices: { ...meta.currentPrices, ...prices }, syncedAt: now.toISOString() }));
 
+        const flatData = flattenRawData(data, timeZoneRef.current);
         if (flatData.length > 0) {
-          flatData.sort((a, b) => a.timestamp.getTime() - b.timestamp.getTime());
-          setRawData(flatData);
+          if (followsLiveRef.current) {
+            setLoadedPrices(current => current ? appendLoadedPrices(current, flatData) : createLoadedPrices(flatData));
+          }
+          const latest = flatData.reduce((max, d) => Math.max(max, d.timestamp.getTime()), streamSinceRef.current ?? -Infinity);
+          streamSinceRef.current = latest;
         }
-      } catch (error) {
-        console.error('Error en la actualización automática:', error);
+        setLastLiveUpdate(new Date());
+        setRefreshKey(key => key + 1);
       }
-    }, API_CONFIG.updateInterval);
+    });
+  }, [loading, error]);
+
+  // --- Estado de la vista en la URL ---
+  const viewState = useMemo<DashboardViewState>(() => ({
+    item: selectedItem,
+    item2: selectedItem2,
+    dateRange: dateRange as DashboardViewState['dateRange'],
+    day: selectedDay,
+    start: startDate,
+    end: endDate,
+    yAxis: yAxisMode as DashboardViewState['yAxis'],
+    candle: candleInterval,
+    trendItems: selectedItemsForTrends,
+    trendType: trendAnalysisType as DashboardViewState['trendType'],
+    hours: timeRange,
+    weeks: selectedFiles,
+    timeZone
+  }), [selectedItem, selectedItem2, dateRange, selectedDay, startDate, endDate, yAxisMode, candleInterval,
+    selectedItemsForTrends, trendAnalysisType, timeRange, selectedFiles, timeZone]);
+  const urlInitializedRef = useRef(false);
 
-    return () => clearInterval(updateInterval);
+  // Escribir el estado en la URL; cada cambio crea una entrada en el historial del navegador.
+  // Mientras se cargan semanas no se escribe para no guardar estados intermedios.
+  useEffect(() => {
+    if (loading || filesLoading || error || !rawData) return;
+    const query = serializeViewState(viewState);
+    const search = query ? `?${query}` : '';
+    if (search === window.location.search) return;
+
+    const url = `${window.location.pathname}${search}${window.location.hash}`;
+    if (urlInitializedRef.current) {
+      window.history.pushState(null, '', url);
+    } else {
+      // La primera escritura solo normaliza la URL con la que se abrió la página
+      window.history.replaceState(null, '', url);
+    }
+    urlInitializedRef.current = true;
+  }, [viewState, loading, filesLoading, error, rawData]);
+
+  // Restaurar el estado al navegar con atrás/adelante
+  const handlePopStateRef = useRef<() => void>(() => {});
+  handlePopStateRef.current = () => {
+    if (!loadedPrices) return;
+    const view = parseViewState(window.location.search);
+    const previousZone = timeZoneRef.current;
+    const zone = applyViewTimeZone(view);
+    const weeks = getWeeksToLoad(availableFiles, view.weeks);
+    const sameWeeks = weeks.length === selectedFiles.length && weeks.every(filename => selectedFiles.includes(filename));
+    if (!sameWeeks && availableFiles.length > 0) {
+      handleWeeksChange(weeks, view);
+    } else if (zone !== previousZone) {
+      rezoneData(zone, view);
+    } else {
+      applyViewState(resolveViewState(view, {
+        items: [...loadedPrices.items.keys()],
+        days: loadedPrices.days,
+        candleIntervals: Object.keys(CANDLE_INTERVALS)
+      }));
+    }
+  };
+
+  useEffect(() => {
+    const handlePopState = () => handlePopStateRef.current();
+    window.addEventListener('popstate', handlePopState);
+    return () => window.removeEventListener('popstate', handlePopState);
   }, []);
 
-  // --- Función para filtrar datos por rango de fechas ---
-  const getFilteredDataByDateRange = useMemo(() => {
-    if (!rawData) return [];
-    
-    switch (dateRange) {
-      case 'single':
-        return rawData.filter(d => d.day === selectedDay);
-      case 'range':
-        return rawData.filter(d => d.day >= startDate && d.day <= endDate);
-      case 'all':
-        return rawData;
-      default:
-        return rawData.filter(d => d.day === selectedDay);
+  // --- Zona horaria ---
+  // Al cambiarla se recalculan el día y la hora de los datos cargados; los días elegidos que
+  // no existan en la nueva zona vuelven a los valores por defecto.
+  const rezoneData = (zone: string, view: Partial<DashboardViewState>) => {
+    timeZoneRef.current = zone;
+    if (!loadedPrices) return;
+
+    const prices = rezoneLoadedPrices(loadedPrices, zone);
+    // Si mientras tanto han llegado precios en vivo se recalculan también
+    setLoadedPrices(current => current === loadedPrices ? prices : current && rezoneLoadedPrices(current, zone));
+    applyViewState(resolveViewState(view, {
+      items: [...prices.items.keys()],
+      days: prices.days,
+      candleIntervals: Object.keys(CANDLE_INTERVALS)
+    }));
+  };
+
+  const handleTimeZoneChange = (setting: TimeZoneSetting) => {
+    setTimeZoneSetting(setting);
+    saveTimeZoneSetting(setting);
+    rezoneData(resolveTimeZone(setting), viewState);
+  };
+
+  // Función para pasar a la zona de un enlace o de una entrada del historial del navegador
+  // Se cambia antes de convertir los datos, para que los días y horas de la vista se validen en
+  // esa zona, y no se guarda como preferencia. Devuelve la zona que queda en uso.
+  const applyViewTimeZone = (view: Partial<DashboardViewState>): string => {
+    if (view.timeZone && view.timeZone !== timeZoneRef.current) {
+      setTimeZoneSetting(view.timeZone);
+      timeZoneRef.current = view.timeZone;
+    }
+    return timeZoneRef.current;
+  };
+
+  // --- Cálculos pesados en el worker de agregaciones ---
+  // Los gráficos mantienen el resultado anterior mientras llega el nuevo y las peticiones
+  // que quedan obsoletas se cancelan, así que la interfaz no se bloquea con muchos datos.
+  useEffect(() => {
+    const client = createAggregationClient();
+    setAggregationClient(client);
+    return () => client.terminate();
+  }, []);
+
+  // Al worker solo se envían los registros añadidos desde el último envío; si los datos se han
+  // sustituido (semanas, sincronización o un worker nuevo) se envían todos.
+  const sentPricesRef = useRef<{ client: AggregationClient; revision: number } | null>(null);
+  useEffect(() => {
+    if (!aggregationClient || !loadedPrices) return;
+    const sent = sentPricesRef.current?.client === aggregationClient ? sentPricesRef.current.revision : null;
+    if (sent === loadedPrices.revision) return;
+    if (sent !== null && loadedPrices.base === sent) {
+      if (loadedPrices.added.length > 0) setAggregationVersion(aggregationClient.append(loadedPrices.added));
+    } else {
+      setAggregationVersion(aggregationClient.load(loadedPrices.all));
     }
-  }, [rawData, dateRange, selectedDay, startDate, endDate]);
+    sentPricesRef.current = { client: aggregationClient, revision: loadedPrices.revision };
+  }, [aggregationClient, loadedPrices]);
+
+  // Las muestras confirmadas como erróneas no entran en ningún cálculo
+  useEffect(() => {
+    if (aggregationClient) setAggregationVersion(aggregationClient.exclude(excludedPoints));
+  }, [aggregationClient, excludedPoints]);
+
+  // Datos de las vistas que se calculan en el hilo principal, sin las muestras excluidas
+  const analysisData = useMemo(() => loadedPrices ? getAnalysisData(loadedPrices, excludedPoints) : null, [loadedPrices, excludedPoints]);
+
+  // --- Anomalías (sobre todos los precios) ---
+  const anomalyQuery = useMemo(() => ({ kind: 'anomalies' as const, settings: anomalySettings }), [anomalySettings]);
+  const anomalies = useAggregation(aggregationClient, aggregationVersion, anomalyQuery) ?? NO_ANOMALIES;
+
+  // --- Pronósticos de los items del gráfico de evolución ---
+  const forecastQuery = useMemo(() => forecastEnabled ? {
+    kind: 'forecast' as const,
+    items: [selectedItem, selectedItem2].filter(Boolean),
+    model: forecastModel,
+    horizonHours: forecastHorizon
+  } : null, [forecastEnabled, selectedItem, selectedItem2, forecastModel, forecastHorizon]);
+  const forecasts = useAggregation(aggregationClient, aggregationVersion, forecastQuery) ?? NO_FORECASTS;
+
+  // --- Consulta del gráfico de evolución según el rango de fechas ---
+  const evolutionQuery = useMemo(() => ({
+    kind: 'evolution' as const,
+    items: [selectedItem, selectedItem2].filter(Boolean),
+    bounds: dateRange === 'all'
+      ? { from: null, to: null }
+      : dateRange === 'range' ? getZonedDayBounds(startDate, endDate, timeZone) : getZonedDayBounds(selectedDay, selectedDay, timeZone),
+    normalize: yAxisMode === 'normalized',
+    candleIntervalMs: yAxisMode === 'candles' ? CANDLE_INTERVALS[candleInterval] : null,
+    timeZone
+  }), [selectedItem, selectedItem2, dateRange, selectedDay, startDate, endDate, yAxisMode, candleInterval, timeZone]);
+
+  const evolution = useAggregation(aggregationClient, aggregationVersion, evolutionQuery);
 
   // --- 1. Gráfico de Evolución de Precios Mejorado ---
   const priceEvolutionData = useMemo(() => {
-    const filteredData = getFilteredDataByDateRange;
-    if (filteredData.length === 0) return [];
-    
-    const data: PlotData[] = [];
-    
-    // Datos del primer item
-    const filteredData1 = filteredData.filter(d => d.item === selectedItem);
-    // Datos del segundo item si está seleccionado
-    const filteredData2 = selectedItem2 ? filteredData.filter(d => d.item === selectedItem2) : [];
-    
-    if (filteredData1.length === 0 && filteredData2.length === 0) return [];
+    if (!evolution || evolution.series.every(s => s.times.length === 0)) return [];
 
-    // Obtener rangos de precios para mostrar información
-    const range1 = getPriceRange(filteredData1, selectedItem);
-    const range2 = selectedItem2 ? getPriceRange(filteredData2, selectedItem2) : null;
+    const data: PlotData[] = [];
+    const [series1] = evolution.series;
 
-    if (yAxisMode === 'normalized') {
-      // Modo normalizado: convertir ambas series a escala 0-100
-      if (filteredData1.length > 0) {
-        const prices1 = filteredData1.map(d => d.price);
-        const normalizedPrices1 = normalizeData(prices1);
-        
+    // El modo se deduce del propio resultado para no mezclarlo con una consulta aún en curso
+    if (evolution.candles) {
+      // Modo velas: OHLC del item principal y número de muestras por vela
+      const candles = evolution.candles;
+      if (candles.times.length > 0) {
+        const times = toZonedLabels(candles.times, timeZone);
         data.push({
-          x: filteredData1.map(d => d.timestamp),
-          y: normalizedPrices1,
-          type: 'scatter',
-          mode: 'lines+markers',
-          name: `${selectedItem.charAt(0).toUpperCase() + selectedItem.slice(1)} (Normalizado)`,
-          line: { color: CHART_COLORS[0], width: 3 },
-          marker: { size: 5, color: CHART_COLORS[0] },
-          hovertemplate: `<b>%{fullData.name}</b><br>Fecha: %{x}<br>Valor Normalizado: %{y:.1f}%<br>Precio Real: ${range1.min.toFixed(4)} - ${range1.max.toFixed(4)}<extra></extra>`
+          x: times,
+          open: candles.open,
+          high: candles.high,
+          low: candles.low,
+          close: candles.close,
+          type: 'candlestick',
+          name: `${series1.item.charAt(0).toUpperCase() + series1.item.slice(1)} (${candleInterval})`,
+          increasing: { line: { color: '#10b981' } },
+          decreasing: { line: { color: '#ef4444' } },
+          yaxis: 'y'
         });
-      }
-
-      if (filteredData2.length > 0 && range2) {
-        const prices2 = filteredData2.map(d => d.price);
-        const normalizedPrices2 = normalizeData(prices2);
-        
         data.push({
-          x: filteredData2.map(d => d.timestamp),
-          y: normalizedPrices2,
-          type: 'scatter',
-          mode: 'lines+markers',
-          name: `${selectedItem2.charAt(0).toUpperCase() + selectedItem2.slice(1)} (Normalizado)`,
-          line: { color: CHART_COLORS[1], width: 3 },
-          marker: { size: 5, color: CHART_COLORS[1] },
-          hovertemplate: `<b>%{fullData.name}</b><br>Fecha: %{x}<br>Valor Normalizado: %{y:.1f}%<br>Precio Real: ${range2.min.toFixed(4)} - ${range2.max.toFixed(4)}<extra></extra>`
+          x: times,
+          y: candles.count,
+          type: 'bar',
+          name: 'Muestras',
+          marker: { color: CHART_COLORS[1], opacity: 0.5 },
+          hovertemplate: 'Fecha: %{x}<br>Muestras: %{y}<extra></extra>',
+          yaxis: 'y2'
         });
       }
-    } else if (yAxisMode === 'dual') {
-      // Modo dual: usar dos ejes Y diferentes
-      if (filteredData1.length > 0) {
-        data.push({
-          x: filteredData1.map(d => d.timestamp),
-          y: filteredData1.map(d => d.price),
+    } else {
+      evolution.series.forEach((series, index) => {
+        if (series.times.length === 0) return;
+        const name = series.item.charAt(0).toUpperCase() + series.item.slice(1);
+        const color = CHART_COLORS[index];
+        const trace: PlotData = {
+          x: toZonedLabels(series.times, timeZone),
+          y: series.prices,
           type: 'scatter',
           mode: 'lines+markers',
-          name: `${selectedItem.charAt(0).toUpperCase() + selectedItem.slice(1)} (Eje Izq.)`,
-          line: { color: CHART_COLORS[0], width: 3 },
-          marker: { size: 5, color: CHART_COLORS[0] },
-          hovertemplate: '<b>%{fullData.name}</b><br>Fecha: %{x}<br>Precio: $%{y}<extra></extra>',
-          yaxis: 'y'
-        });
-      }
+          name,
+          line: { color, width: 3 },
+          marker: { size: 5, color },
+          hovertemplate: '<b>%{fullData.name}</b><br>Fecha: %{x}<br>Precio: $%{y}<extra></extra>'
+        };
+
+        if (series.normalized) {
+          // Modo normalizado: ambas series en escala 0-100
+          trace.y = series.normalized;
+          trace.name = `${name} (Normalizado)`;
+          trace.hovertemplate = `<b>%{fullData.name}</b><br>Fecha: %{x}<br>Valor Normalizado: %{y:.1f}%<br>Precio Real: ${series.range.min.toFixed(4)} - ${series.range.max.toFixed(4)}<extra></extra>`;
+        } else if (yAxisMode === 'dual') {
+          // Modo dual: usar dos ejes Y diferentes
+          trace.name = `${name} (${index === 0 ? 'Eje Izq.' : 'Eje Der.'})`;
+          trace.yaxis = index === 0 ? 'y' : 'y2';
+        }
+        data.push(trace);
+      });
+    }
 
-      if (filteredData2.length > 0) {
+    // Pronóstico con su intervalo de confianza como banda sombreada
+    if (yAxisMode !== 'normalized') {
+      [selectedItem, selectedItem2].forEach((item, index) => {
+        const forecast = forecasts[item];
+        if (!item || !forecast || (yAxisMode === 'candles' && index > 0)) return;
+        const name = item.charAt(0).toUpperCase() + item.slice(1);
+        const color = CHART_COLORS[index];
+        const yaxis = yAxisMode === 'dual' && index === 1 ? 'y2' : 'y';
         data.push({
-          x: filteredData2.map(d => d.timestamp),
-          y: filteredData2.map(d => d.price),
+          x: forecast.points.map(p => formatZonedDateTime(p.time.getTime(), timeZone)),
+          y: forecast.points.map(p => p.upper),
           type: 'scatter',
-          mode: 'lines+markers',
-          name: `${selectedItem2.charAt(0).toUpperCase() + selectedItem2.slice(1)} (Eje Der.)`,
-          line: { color: CHART_COLORS[1], width: 3 },
-          marker: { size: 5, color: CHART_COLORS[1] },
-          hovertemplate: '<b>%{fullData.name}</b><br>Fecha: %{x}<br>Precio: $%{y}<extra></extra>',
-          yaxis: 'y2'
+          mode: 'lines',
+          name: `${name} (Límite superior)`,
+          line: { color, width: 0 },
+          showlegend: false,
+          hovertemplate: '<b>%{fullData.name}</b><br>Fecha: %{x}<br>Precio: $%{y:.4f}<extra></extra>',
+          yaxis
         });
-      }
-    } else {
-      // Modo lineal o logarítmico normal
-      if (filteredData1.length > 0) {
         data.push({
-          x: filteredData1.map(d => d.timestamp),
-          y: filteredData1.map(d => d.price),
+          x: forecast.points.map(p => formatZonedDateTime(p.time.getTime(), timeZone)),
+          y: forecast.points.map(p => p.lower),
           type: 'scatter',
-          mode: 'lines+markers',
-          name: selectedItem.charAt(0).toUpperCase() + selectedItem.slice(1),
-          line: { color: CHART_COLORS[0], width: 3 },
-          marker: { size: 5, color: CHART_COLORS[0] },
-          hovertemplate: '<b>%{fullData.name}</b><br>Fecha: %{x}<br>Precio: $%{y}<extra></extra>'
+          mode: 'lines',
+          name: `${name} (Intervalo 95%)`,
+          fill: 'tonexty',
+          fillcolor: index === 0 ? 'rgba(0, 212, 255, 0.15)' : 'rgba(99, 102, 241, 0.15)',
+          line: { color, width: 0 },
+          hovertemplate: '<b>%{fullData.name}</b><br>Fecha: %{x}<br>Precio: $%{y:.4f}<extra></extra>',
+          yaxis
         });
-      }
-
-      if (filteredData2.length > 0) {
         data.push({
-          x: filteredData2.map(d => d.timestamp),
-          y: filteredData2.map(d => d.price),
+          x: forecast.points.map(p => formatZonedDateTime(p.time.getTime(), timeZone)),
+          y: forecast.points.map(p => p.value),
           type: 'scatter',
-          mode: 'lines+markers',
-          name: selectedItem2.charAt(0).toUpperCase() + selectedItem2.slice(1),
-          line: { color: CHART_COLORS[1], width: 3 },
-          marker: { size: 5, color: CHART_COLORS[1] },
-          hovertemplate: '<b>%{fullData.name}</b><br>Fecha: %{x}<br>Precio: $%{y}<extra></extra>'
+          mode: 'lines',
+          name: `${name} (Pronóstico ${FORECAST_MODEL_LABELS[forecast.model]})`,
+          line: { color, width: 2, dash: 'dash' },
+          hovertemplate: '<b>%{fullData.name}</b><br>Fecha: %{x}<br>Precio: $%{y:.4f}<extra></extra>',
+          yaxis
         });
+      });
+    }
+
+    // Anomalías puntuales de los items mostrados, sobre el mismo eje que su serie
+    if (showAnomalies && evolution.fromTime !== null && evolution.toTime !== null) {
+      const fromTime = evolution.fromTime;
+      const toTime = evolution.toTime;
+      const ranges: Record<string, PriceRange> = Object.fromEntries(evolution.series.map(s => [s.item, s.range]));
+      const points = anomalies.filter(a =>
+        (a.kind === 'spike' || a.kind === 'changepoint')
+        && a.item !== null && a.item in ranges
+        && a.time.getTime() >= fromTime && a.time.getTime() <= toTime
+        && !(evolution.candles && a.item !== series1.item)
+      );
+
+      // En modo normalizado los marcadores se escalan igual que la serie
+      const getY = (a: Anomaly) => {
+        if (yAxisMode !== 'normalized') return a.price!;
+        const range = ranges[a.item!];
+        return range.max === range.min ? 50 : ((a.price! - range.min) / (range.max - range.min)) * 100;
+      };
+
+      for (const kind of ['spike', 'changepoint'] as const) {
+        for (const item of Object.keys(ranges)) {
+          const kindPoints = points.filter(a => a.kind === kind && a.item === item);
+          if (kindPoints.length === 0) continue;
+          data.push({
+            x: kindPoints.map(a => formatZonedDateTime(a.time.getTime(), timeZone)),
+            y: kindPoints.map(getY),
+            text: kindPoints.map(a => a.message),
+            type: 'scatter',
+            mode: 'markers',
+            name: `${ANOMALY_LABELS[kind]} (${item.charAt(0).toUpperCase() + item.slice(1)})`,
+            marker: { size: 12, color: kind === 'spike' ? '#ef4444' : '#f59e0b', symbol: kind === 'spike' ? 'x' : 'diamond' },
+            hovertemplate: '<b>%{fullData.name}</b><br>Fecha: %{x}<br>%{text}<extra></extra>',
+            yaxis: yAxisMode === 'dual' && item === selectedItem2 ? 'y2' : 'y'
+          });
+        }
       }
     }
 
     return data;
-  }, [getFilteredDataByDateRange, selectedItem, selectedItem2, yAxisMode]);
+  }, [evolution, selectedItem, selectedItem2, yAxisMode, candleInterval, anomalies, showAnomalies, forecasts, timeZone]);
+
+  // Huecos de recogida y tramos de precio plano como bandas sobre el gráfico de evolución
+  const anomalyShapes = useMemo((): PlotShape[] => {
+    if (!showAnomalies || !evolution || evolution.fromTime === null || evolution.toTime === null) return [];
+    const fromTime = evolution.fromTime;
+    const toTime = evolution.toTime;
+
+    return anomalies
+      .filter(a =>
+        (a.kind === 'gap' || (a.kind === 'flatline' && (a.item === selectedItem || a.item === selectedItem2)))
+        && a.endTime !== undefined && a.endTime.getTime() >= fromTime && a.time.getTime() <= toTime
+      )
+      .map(a => ({
+        type: 'rect',
+        xref: 'x',
+        yref: 'paper',
+        x0: formatZonedDateTime(a.time.getTime(), timeZone),
+        x1: formatZonedDateTime(a.endTime!.getTime(), timeZone),
+        y0: 0,
+        y1: 1,
+        fillcolor: a.kind === 'gap' ? 'rgba(239, 68, 68, 0.1)' : 'rgba(245, 158, 11, 0.1)',
+        line: { width: 0 },
+        layer: 'below'
+      }));
+  }, [evolution, selectedItem, selectedItem2, anomalies, showAnomalies, timeZone]);
 
   // --- 2. Análisis Histórico de Variación ---
+  const trendsQuery = useMemo(() => selectedItemsForTrends.length === 0 ? null : {
+    kind: 'trends' as const,
+    items: selectedItemsForTrends,
+    type: trendAnalysisType === 'hourly' ? 'hourly' as const : 'daily' as const,
+    indicators: indicatorSettings,
+    timeZone
+  }, [selectedItemsForTrends, trendAnalysisType, indicatorSettings, timeZone]);
+
+  const trends = useAggregation(aggregationClient, aggregationVersion, trendsQuery);
+
   const historicalAnalysisData = useMemo(() => {
-    if (!rawData || selectedItemsForTrends.length === 0) return [];
+    if (!trends) return [];
 
-    return selectedItemsForTrends.map((item, index) => {
-      const itemData = rawData.filter(d => d.item === item);
-      if (itemData.length === 0) return null;
+    return trends.flatMap((series, position) => {
+      const index = selectedItemsForTrends.includes(series.item) ? selectedItemsForTrends.indexOf(series.item) : position;
+      const name = series.item.charAt(0).toUpperCase() + series.item.slice(1);
+      const color = CHART_COLORS[index % CHART_COLORS.length];
 
-      if (trendAnalysisType === 'daily') {
+      if (series.type === 'daily') {
         // Análisis por día
-        const dailyStats = getDailyStats(itemData);
-        return {
-          x: dailyStats.map(d => d.day),
-          y: dailyStats.map(d => d.avg),
+        return [{
+          x: series.days,
+          y: series.avg,
           type: 'scatter',
           mode: 'lines+markers',
-          name: `${item.charAt(0).toUpperCase() + item.slice(1)} (Promedio Diario)`,
-          line: { color: CHART_COLORS[index % CHART_COLORS.length], width: 3 },
-          marker: { size: 6, color: CHART_COLORS[index % CHART_COLORS.length] },
+          name: `${name} (Promedio Diario)`,
+          line: { color, width: 3 },
+          marker: { size: 6, color },
           hovertemplate: '<b>%{fullData.name}</b><br>Fecha: %{x}<br>Precio Promedio: $%{y:.2f}<extra></extra>'
-        } as PlotData;
-      } else {
-        // Análisis por hora (datos completos)
-        const sortedData = itemData.sort((a, b) => a.timestamp.getTime() - b.timestamp.getTime());
-        const prices = sortedData.map(d => d.price);
-        const movingAvg = getMovingAverage(prices, 5);
-        
-        return [
-          // Datos originales
-          {
-            x: sortedData.map(d => d.timestamp),
-            y: prices,
-            type: 'scatter',
-            mode: 'markers',
-            name: `${item.charAt(0).toUpperCase() + item.slice(1)} (Datos)`,
-            marker: { size: 4, color: CHART_COLORS[index % CHART_COLORS.length], opacity: 0.6 },
-            hovertemplate: '<b>%{fullData.name}</b><br>Fecha: %{x}<br>Precio: $%{y}<extra></extra>'
-          } as PlotData,
-          // Media móvil
-          {
-            x: sortedData.slice(4).map(d => d.timestamp), // Ajustar por ventana de 5
-            y: movingAvg,
-            type: 'scatter',
-            mode: 'lines',
-            name: `${item.charAt(0).toUpperCase() + item.slice(1)} (Tendencia)`,
-            line: { color: CHART_COLORS[index % CHART_COLORS.length], width: 4 },
-            hovertemplate: '<b>%{fullData.name}</b><br>Fecha: %{x}<br>Media Móvil: $%{y:.2f}<extra></extra>'
-          } as PlotData
-        ];
+        } as PlotData];
       }
-    }).flat().filter((data): data is PlotData => data !== null);
-  }, [rawData, selectedItemsForTrends, trendAnalysisType]);
 
-  // --- 3. Mapa de Calor Mejorado ---
-  const heatmapData = useMemo(() => {
-    if (!rawData) return null;
-    
-    const filteredData = rawData.filter(d => 
-      d.hour >= timeRange[0] && d.hour <= timeRange[1]
-    );
-
-    const items = [...new Set(filteredData.map(d => d.item))].sort();
-    const hours = Array.from(
-      { length: timeRange[1] - timeRange[0] + 1 },
-      (_, i) => timeRange[0] + i
-    );
-    
-    const priceMap = new Map();
-    
-    filteredData.forEach(d => {
-      const key = `${d.item},${d.hour}`;
-      if (!priceMap.has(key)) {
-        priceMap.set(key, { total: 0, count: 0 });
+      // Análisis por hora: datos completos con los indicadores seleccionados
+      const traces: PlotData[] = [
+        // Datos originales
+        {
+          x: toZonedLabels(series.times, timeZone),
+          y: series.prices,
+          type: 'scatter',
+          mode: 'markers',
+          name: `${name} (Datos)`,
+          marker: { size: 4, color, opacity: 0.6 },
+          hovertemplate: '<b>%{fullData.name}</b><br>Fecha: %{x}<br>Precio: $%{y}<extra></extra>'
+        }
+      ];
+
+      const { sma, ema, bollinger, rsi, macd } = indicatorSettings;
+      if (series.sma) {
+        traces.push({
+          x: toZonedLabels(series.sma.times, timeZone),
+          y: series.sma.values,
+          type: 'scatter',
+          mode: 'lines',
+          name: `${name} (SMA ${sma.windowHours}h)`,
+          line: { color, width: 4 },
+          hovertemplate: '<b>%{fullData.name}</b><br>Fecha: %{x}<br>SMA: $%{y:.2f}<extra></extra>'
+        });
+      }
+      if (series.ema) {
+        traces.push({
+          x: toZonedLabels(series.ema.times, timeZone),
+          y: series.ema.values,
+          type: 'scatter',
+          mode: 'lines',
+          name: `${name} (EMA ${ema.windowHours}h)`,
+          line: { color, width: 2, dash: 'dot' },
+          hovertemplate: '<b>%{fullData.name}</b><br>Fecha: %{x}<br>EMA: $%{y:.2f}<extra></extra>'
+        });
+      }
+      if (series.bollinger) {
+        const times = toZonedLabels(series.bollinger.times, timeZone);
+        traces.push({
+          x: times,
+          y: series.bollinger.upper,
+          type: 'scatter',
+          mode: 'lines',
+          name: `${name} (Bollinger sup.)`,
+          line: { color, width: 1, dash: 'dash' },
+          showlegend: false,
+          hovertemplate: '<b>%{fullData.name}</b><br>Fecha: %{x}<br>Banda: $%{y:.2f}<extra></extra>'
+        });
+        traces.push({
+          x: times,
+          y: series.bollinger.lower,
+          type: 'scatter',
+          mode: 'lines',
+          name: `${name} (Bollinger ${bollinger.windowHours}h, ${bollinger.deviations}σ)`,
+          fill: 'tonexty',
+          fillcolor: 'rgba(148, 163, 184, 0.12)',
+          line: { color, width: 1, dash: 'dash' },
+          hovertemplate: '<b>%{fullData.name}</b><br>Fecha: %{x}<br>Banda: $%{y:.2f}<extra></extra>'
+        });
+      }
+      if (series.rsi) {
+        traces.push({
+          x: toZonedLabels(series.rsi.times, timeZone),
+          y: series.rsi.values,
+          type: 'scatter',
+          mode: 'lines',
+          name: `${name} (RSI ${rsi.windowHours}h)`,
+          line: { color, width: 2 },
+          hovertemplate: '<b>%{fullData.name}</b><br>Fecha: %{x}<br>RSI: %{y:.1f}<extra></extra>',
+          yaxis: 'y2'
+        });
+      }
+      if (series.macd) {
+        const times = toZonedLabels(series.macd.times, timeZone);
+        const macdAxis = series.rsi ? 'y3' : 'y2';
+        traces.push({
+          x: times,
+          y: series.macd.histogram,
+          type: 'bar',
+          name: `${name} (Histograma MACD)`,
+          marker: { color, opacity: 0.4 },
+          showlegend: false,
+          hovertemplate: '<b>%{fullData.name}</b><br>Fecha: %{x}<br>Histograma: %{y:.4f}<extra></extra>',
+          yaxis: macdAxis
+        });
+        traces.push({
+          x: times,
+          y: series.macd.macd,
+          type: 'scatter',
+          mode: 'lines',
+          name: `${name} (MACD ${macd.fastHours}/${macd.slowHours}/${macd.signalHours}h)`,
+          line: { color, width: 2 },
+          hovertemplate: '<b>%{fullData.name}</b><br>Fecha: %{x}<br>MACD: %{y:.4f}<extra></extra>',
+          yaxis: macdAxis
+        });
+        traces.push({
+          x: times,
+          y: series.macd.signal,
+          type: 'scatter',
+          mode: 'lines',
+          name: `${name} (Señal MACD)`,
+          line: { color, width: 1, dash: 'dot' },
+          showlegend: false,
+          hovertemplate: '<b>%{fullData.name}</b><br>Fecha: %{x}<br>Señal: %{y:.4f}<extra></extra>',
+          yaxis: macdAxis
+        });
       }
-      const entry = priceMap.get(key);
-      entry.total += d.price;
-      entry.count += 1;
+      return traces;
     });
-    
-    const z = items.map(item => 
-      hours.map(hour => {
-        const key = `${item},${hour}`;
-        const entry = priceMap.get(key);
-        return entry ? Math.round((entry.total / entry.count) * 100) / 100 : null;
-      })
-    );
-
-    // Crear texto para mostrar valores en el mapa
-    const text = items.map(item => 
-      hours.map(hour => {
-        const key = `${item},${hour}`;
-        const entry = priceMap.get(key);
-        return entry ? `$${Math.round((entry.total / entry.count) * 100) / 100}` : '';
-      })
-    );
+  }, [trends, selectedItemsForTrends, indicatorSettings, timeZone]);
+
+  // --- 3. Mapa de Calor Mejorado ---
+  const heatmapQuery = useMemo(() => ({ kind: 'heatmap' as const, hours: timeRange, timeZone }), [timeRange, timeZone]);
 
+  const heatmap = useAggregation(aggregationClient, aggregationVersion, heatmapQuery);
+
+  const heatmapData = useMemo(() => {
+    if (!heatmap) return null;
     return {
-      x: hours,
-      y: items.map(item => item.charAt(0).toUpperCase() + item.slice(1)),
-      z: z,
-      text: text
+      x: heatmap.hours.map(hour => `${hour}:00`),
+      y: heatmap.items.map(item => item.charAt(0).toUpperCase() + item.slice(1)),
+      z: heatmap.z,
+      // Texto para mostrar los valores en el mapa
+      text: heatmap.z.map(row => row.map(value => value === null ? '' : `$${value}`))
     };
-  }, [rawData, timeRange]);
-
-  // Función para obtener layout de Plotly con tema oscuro
-  const getPlotLayout = (title: string, xAxisTitle: string, yAxisTitle: string = 'Precio ($)', isDual: boolean = false) => {
-    const baseLayout = {
-      title: {
-        text: title,
-        font: { color: '#ffffff', size: 18 }
-      },
-      xaxis: { 
-        title: { text: xAxisTitle, font: { color: '#94a3b8' } },
-        type: 'date' as const,
-        gridcolor: '#334155',
-        tickfont: { color: '#94a3b8' }
-      },
-      yaxis: { 
-        title: { text: yAxisTitle, font: { color: '#94a3b8' } },
-        gridcolor: '#334155',
-        tickfont: { color: '#94a3b8' }
-      },
-      height: 500,
-      autosize: true,
-      hovermode: 'x unified' as const,
-      plot_bgcolor: 'rgba(0,0,0,0)',
-      paper_bgcolor: 'rgba(0,0,0,0)',
-      font: { color: '#ffffff' },
-      showlegend: true,
-      legend: {
-        font: { color: '#94a3b8' },
-        bgcolor: 'rgba(26, 31, 46, 0.8)',
-        bordercolor: '#334155',
-        borderwidth: 1
-      }
-    };
-
-    if (isDual) {
-      return {
-        ...baseLayout,
-        yaxis2: {
-          title: { text: 'Precio ($)', font: { color: '#94a3b8' } },
-          overlaying: 'y',
-          side: 'right',
-          gridcolor: '#334155',
-          tickfont: { color: '#94a3b8' }
-        }
-      };
-    }
+  }, [heatmap]);
 
-    return baseLayout;
-  };
+  // Días e items de los datos cargados para los selectores
+  const availableDays = useMemo(() => loadedPrices ? loadedPrices.days : [], [loadedPrices]);
+  const availableItems = useMemo(() => loadedPrices ? [...loadedPrices.items.keys()].sort() : [], [loadedPrices]);
 
   // --- Renderizado de la UI ---
   if (loading) return <article aria-busy="true">Cargando datos...</article>;
@@ -648,20 +955,34 @@ export default function HomePage() {
     </article>
   );
 
-  const availableDays = rawData ? [...new Set(rawData.map(d => d.day))].sort() : [];
-  const availableItems = rawData ? [...new Set(rawData.map(d => d.item))].sort() : [];
+  const heatmapLayout = getPlotLayout('Mapa de Calor de Precios Promedio por Hora', `Hora del Día (${getTimeZoneLabel(timeZone)})`, 'Items');
+
+  // Periodo cargado y periodo seleccionado para las exportaciones
+  const loadedFrom = rawData && rawData.length > 0 ? rawData[0].timestamp : undefined;
+  const loadedTo = rawData && rawData.length > 0 ? rawData[rawData.length - 1].timestamp : undefined;
+  const selectedBounds = dateRange === 'single'
+    ? getZonedDayBounds(selectedDay, selectedDay, timeZone)
+    : dateRange === 'range' ? getZonedDayBounds(startDate, endDate, timeZone) : null;
+  const selectedPeriod = selectedBounds
+    ? { from: new Date(selectedBounds.from), to: new Date(selectedBounds.to - 1) }
+    : { from: loadedFrom, to: loadedTo };
 
   return (
     <>
       <header>
         <h1>Dashboard de Precios del Juego</h1>
         <p>Análisis interactivo de la economía del juego con visualizaciones avanzadas</p>
+        <CopyLinkButton />
+        <TimeZoneSelect value={timeZoneSetting} onChange={handleTimeZoneChange} />
       </header>
 
+      {offline && <OfflineNotice syncedAt={syncedAt} retrying={retrying} onRetry={retrySync} />}
+
       {/* Nuevo banner de precios actuales */}
       <article className="current-prices-banner">
         <header>
           <h2>Precios Actuales del Mercado</h2>
+          <LiveIndicator status={streamStatus} lastUpdate={lastLiveUpdate} />
         </header>
         <div className="prices-grid">
           {Object.entries(currentPrices).map(([item, price]) => (
@@ -674,6 +995,24 @@ export default function HomePage() {
       </article>
 
       <main>
+        {/* --- Selección de semanas --- */}
+        <article>
+          <header>
+            <h2>Datos Históricos</h2>
+          </header>
+          <div className="section-toolbar">
+            <span />
+            <ImportDialog onImported={handleImported} disabled={offline} />
+          </div>
+          <WeekPicker
+            files={availableFiles}
+            selected={selectedFiles}
+            loading={filesLoading}
+            onChange={handleWeeksChange}
+          />
+          {weeksError && <p className="import-error" role="alert">{weeksError}</p>}
+        </article>
+
         {/* --- Gráfico 1: Evolución de Precio Mejorado --- */}
         <article className="glow">
           <header>
@@ -798,19 +1137,106 @@ export default function HomePage() {
                   />
                   <label htmlFor="normalized">Normalizado</label>
                 </div>
+                <div className="radio-item">
+                  <input
+                    type="radio"
+                    id="candles"
+                    value="candles"
+                    checked={yAxisMode === 'candles'}
+                    onChange={(e) => setYAxisMode(e.target.value)}
+                  />
+                  <label htmlFor="candles">Velas</label>
+                </div>
+              </div>
+            </div>
+
+            {yAxisMode === 'candles' && (
+              <div className="control-group">
+                <label htmlFor="candle-interval-select">Intervalo de vela</label>
+                <select
+                  id="candle-interval-select"
+                  value={candleInterval}
+                  onChange={(e) => setCandleInterval(e.target.value)}
+                >
+                  {Object.keys(CANDLE_INTERVALS).map(interval => (
+                    <option key={interval} value={interval}>{interval}</option>
+                  ))}
+                </select>
+              </div>
+            )}
+
+            <div className="control-group">
+              <label>Anotaciones</label>
+              <div className="checkbox-item">
+                <input
+                  type="checkbox"
+                  id="show-anomalies"
+                  checked={showAnomalies}
+                  onChange={(e) => setShowAnomalies(e.target.checked)}
+                />
+                <label htmlFor="show-anomalies">Mostrar anomalías</label>
               </div>
             </div>
+
+            <div className="control-group">
+              <label>Pronóstico</label>
+              <div className="checkbox-item">
+                <input
+                  type="checkbox"
+                  id="show-forecast"
+                  checked={forecastEnabled}
+                  disabled={yAxisMode === 'normalized'}
+                  onChange={(e) => setForecastEnabled(e.target.checked)}
+                />
+                <label htmlFor="show-forecast">Mostrar pronóstico</label>
+              </div>
+            </div>
+
+            {forecastEnabled && yAxisMode !== 'normalized' && (
+              <>
+                <div className="control-group">
+                  <label htmlFor="forecast-model-select">Modelo</label>
+                  <select
+                    id="forecast-model-select"
+                    value={forecastModel}
+                    onChange={(e) => setForecastModel(e.target.value as ForecastModel)}
+                  >
+                    {Object.entries(FORECAST_MODEL_LABELS).map(([model, label]) => (
+                      <option key={model} value={model}>{label}</option>
+                    ))}
+                  </select>
+                </div>
+                <div className="control-group">
+                  <label htmlFor="forecast-horizon-select">Horizonte</label>
+                  <select
+                    id="forecast-horizon-select"
+                    value={forecastHorizon}
+                    onChange={(e) => setForecastHorizon(parseInt(e.target.value))}
+                  >
+                    {FORECAST_HORIZONS.map(hours => (
+                      <option key={hours} value={hours}>{hours} h</option>
+                    ))}
+                  </select>
+                </div>
+              </>
+            )}
           </div>
 
+          <ExportLinks params={{ items: [selectedItem, selectedItem2].filter(Boolean), ...selectedPeriod }} />
+
           <div className="plot-container">
             <Plot
               data={priceEvolutionData}
-              layout={getPlotLayout(
-                `Evolución de Precios - ${dateRange === 'single' ? selectedDay : dateRange === 'range' ? `${startDate} a ${endDate}` : 'Todos los días'}`,
-                'Fecha y Hora',
-                yAxisMode === 'normalized' ? 'Valor Normalizado (%)' : 'Precio ($)',
-                yAxisMode === 'dual'
-              )}
+              layout={{
+                ...getPlotLayout(
+                  `Evolución de Precios - ${dateRange === 'single' ? selectedDay : dateRange === 'range' ? `${startDate} a ${endDate}` : 'Todos los días'}`,
+                  'Fecha y Hora',
+                  yAxisMode === 'normalized' ? 'Valor Normalizado (%)' : 'Precio ($)',
+                  yAxisMode === 'dual',
+                  yAxisMode === 'candles'
+                ),
+                shapes: anomalyShapes
+              }}
               useResizeHandler={true}
               style={{ width: '100%', height: '100%' }}
               config={{ displayModeBar: false }}
@@ -846,7 +1272,7 @@ export default function HomePage() {
                     checked={trendAnalysisType === 'hourly'}
                     onChange={(e) => setTrendAnalysisType(e.target.value)}
                   />
-                  <label htmlFor="hourly">Datos por Hora + Tendencia</label>
+                  <label htmlFor="hourly">Datos por Hora + Indicadores</label>
                 </div>
               </div>
             </div>
@@ -875,13 +1301,25 @@ export default function HomePage() {
             </div>
           </div>
 
+          {trendAnalysisType === 'hourly' && (
+            <IndicatorControls settings={indicatorSettings} onChange={setIndicatorSettings} />
+          )}
+
+          <ExportLinks params={{ items: selectedItemsForTrends, from: loadedFrom, to: loadedTo }} />
+
           <div className="plot-container">
             <Plot
               data={historicalAnalysisData}
-              layout={getPlotLayout(
-                `Análisis de Tendencias - ${trendAnalysisType === 'daily' ? 'Promedio Diario' : 'Datos Horarios con Tendencia'}`,
-                trendAnalysisType === 'daily' ? 'Fecha' : 'Fecha y Hora'
-              )}
+              layout={trendAnalysisType === 'daily'
+                ? getPlotLayout('Análisis de Tendencias - Promedio Diario', 'Fecha')
+                : getSubplotLayout(
+                    'Análisis de Tendencias - Datos Horarios con Indicadores',
+                    'Fecha y Hora',
+                    [
+                      ...(indicatorSettings.rsi.enabled ? ['RSI'] : []),
+                      ...(indicatorSettings.macd.enabled ? ['MACD'] : [])
+                    ]
+                  )}
               useResizeHandler={true}
               style={{ width: '100%', height: '100%' }}
               config={{ displayModeBar: false }}
@@ -897,28 +1335,11 @@ export default function HomePage() {
             </header>
             
             <div className="controls-grid">
-              <div className="control-group">
-                <label>Rango de horas</label>
-                <div className="range-controls">
-                  <input
-                    type="number"
-                    min="0"
-                    max="23"
-                    value={timeRange[0]}
-                    onChange={(e) => setTimeRange([parseInt(e.target.value), timeRange[1]])}
-                  />
-                  <span>a</span>
-                  <input
-                    type="number"
-                    min="0"
-                    max="23"
-                    value={timeRange[1]}
-                    onChange={(e) => setTimeRange([timeRange[0], parseInt(e.target.value)])}
-                  />
-                </div>
-              </div>
+              <HourRangeControl id="heatmap-hours" value={timeRange} onChange={setTimeRange} timeZone={timeZone} />
             </div>
 
+            <ExportLinks params={{ from: loadedFrom, to: loadedTo, hours: timeRange, timeZone }} />
+
             <div className="plot-container">
               <Plot
                 data={[{
@@ -931,10 +1352,11 @@ export default function HomePage() {
                   type: 'heatmap',
                   colorscale: 'Viridis',
                   reversescale: true,
-                  hovertemplate: '<b>%{y}</b><br>Hora: %{x}:00<br>Precio Promedio: $%{z}<extra></extra>'
+                  hovertemplate: '<b>%{y}</b><br>Hora: %{x}<br>Precio Promedio: $%{z}<extra></extra>'
                 }]}
                 layout={{
-                  ...getPlotLayout('Mapa de Calor de Precios Promedio por Hora', 'Hora del Día (UTC)', 'Items'),
+                  ...heatmapLayout,
+                  xaxis: { ...heatmapLayout.xaxis, type: 'category' },
                   height: 600
                 }}
                 useResizeHandler={true}
@@ -944,6 +1366,92 @@ export default function HomePage() {
             </div>
           </article>
         )}
+
+        {/* --- Estacionalidad por Hora y Día --- */}
+        {analysisData && (
+          <article className="glow">
+            <header>
+              <h2>Estacionalidad por Hora y Día de la Semana</h2>
+            </header>
+            <SeasonalityView data={analysisData} timeZone={timeZone} />
+          </article>
+        )}
+
+        {/* --- Gráfico 4: Márgenes de Fabricación --- */}
+        {rawData && (
+          <article className="glow">
+            <header>
+              <h2>Márgenes de Fabricación</h2>
+            </header>
+            <CraftingAnalyzer data={analysisData!} />
+          </article>
+        )}
+
+        {/* --- Gráfico 5: Correlación entre Items --- */}
+        {rawData && (
+          <article className="glow">
+            <header>
+              <h2>Correlación entre Items</h2>
+            </header>
+            <CorrelationMatrix data={analysisData!} />
+          </article>
+        )}
+
+        {/* --- Backtest de Pronósticos --- */}
+        {rawData && (
+          <article className="glow">
+            <header>
+              <h2>Backtest de Pronósticos</h2>
+            </header>
+            <ForecastBacktest items={availableItems} />
+          </article>
+        )}
+
+        {/* --- Anomalías Detectadas --- */}
+        {rawData && (
+          <article className="glow">
+            <header>
+              <h2>Anomalías Detectadas</h2>
+            </header>
+            <AnomalyPanel
+              anomalies={anomalies}
+              settings={anomalySettings}
+              onSettingsChange={setAnomalySettings}
+              excluded={excludedPoints}
+              onExcludedChange={setExcludedPoints}
+            />
+          </article>
+        )}
+
+        {/* --- Cartera --- */}
+        {rawData && (
+          <article>
+            <header>
+              <h2>Cartera</h2>
+            </header>
+            <PortfolioTracker data={rawData} items={availableItems} currentPrices={currentPrices} />
+          </article>
+        )}
+
+        {/* --- Dashboards guardados --- */}
+        {analysisData && (
+          <article>
+            <header>
+              <h2>Dashboards Guardados</h2>
+            </header>
+            <DashboardBuilder data={analysisData} items={availableItems} timeZone={timeZone} />
+          </article>
+        )}
+
+        {/* --- Alertas de Precio --- */}
+        {rawData && (
+          <article className="glow">
+            <header>
+              <h2>Alertas de Precio</h2>
+            </header>
+            <AlertsPanel data={rawData} items={availableItems} refreshKey={refreshKey} />
+          </article>
+        )}
       </main>
     </>
   );
@@ -0,0 +1,254 @@
+"use client";
+
+import { useEffect, useRef, useState } from 'react';
+import {
+  ALERT_RULE_LABELS,
+  createId,
+  evaluateRules,
+  loadAlertHistory,
+  loadAlertRules,
+  saveAlertHistory,
+  saveAlertRules,
+  type AlertEvent,
+  type AlertRule,
+  type AlertRuleType
+} from '@/lib/alerts';
+import { syncWebhookRules } from '@/lib/api';
+import type { FlatDataItem } from '@/lib/types';
+
+interface AlertsPanelProps {
+  data: FlatDataItem[];
+  items: string[];
+  refreshKey: number; // Cambia con cada lote de precios recibido en vivo
+}
+
+// Tiempo que se muestra cada notificación antes de ocultarse
+const NOTIFICATION_TIMEOUT = 15000;
+
+export default function AlertsPanel({ data, items, refreshKey }: AlertsPanelProps) {
+  const [rules, setRules] = useState<AlertRule[]>(() => loadAlertRules());
+  const [history, setHistory] = useState<AlertEvent[]>(() => loadAlertHistory());
+  const [notifications, setNotifications] = useState<AlertEvent[]>([]);
+
+  // Estado del formulario de nueva regla
+  const [newItem, setNewItem] = useState<string>(items[0] ?? '');
+  const [newType, setNewType] = useState<AlertRuleType>('above');
+  const [newThreshold, setNewThreshold] = useState<number>(1);
+  const [newWindow, setNewWindow] = useState<number>(60);
+
+  useEffect(() => saveAlertRules(rules), [rules]);
+  useEffect(() => saveAlertHistory(history), [history]);
+
+  // Evaluar las reglas en cada actualización de precios
+  // Se evalúa con los datos y reglas del último render, pero solo cuando cambia refreshKey:
+  // los cambios en las reglas no deben disparar alertas por muestras ya evaluadas.
+  const evaluateRef = useRef<() => void>(() => {});
+  evaluateRef.current = () => {
+    const { events, rules: updatedRules } = evaluateRules(rules, data);
+    if (events.length === 0) return;
+    setRules(updatedRules);
+    setHistory(current => [...events, ...current]);
+    setNotifications(current => [...events, ...current]);
+  };
+
+  useEffect(() => {
+    if (refreshKey > 0) evaluateRef.current();
+  }, [refreshKey]);
+
+  // Ocultar notificaciones automáticamente
+  useEffect(() => {
+    if (notifications.length === 0) return;
+    const timeout = setTimeout(() => setNotifications(current => current.slice(0, -1)), NOTIFICATION_TIMEOUT);
+    return () => clearTimeout(timeout);
+  }, [notifications]);
+
+  // Cambios hechos por el usuario: se sincronizan con el servidor si afectan a webhooks
+  const updateRules = (next: AlertRule[]) => {
+    const hadWebhooks = rules.some(rule => rule.webhook);
+    setRules(next);
+    if (hadWebhooks || next.some(rule => rule.webhook)) {
+      syncWebhookRules(next);
+    }
+  };
+
+  const addRule = () => {
+    if (!newItem || !Number.isFinite(newThreshold)) return;
+    updateRules([
+      ...rules,
+      {
+        id: createId(),
+        item: newItem,
+        type: newType,
+        threshold: newThreshold,
+        windowMinutes: Math.max(1, newWindow),
+        enabled: true
+      }
+    ]);
+  };
+
+  const thresholdLabel = newType === 'change' ? 'Umbral (%)' : newType === 'zscore' ? 'Umbral (σ)' : 'Precio ($)';
+
+  return (
+    <>
+      {notifications.length > 0 && (
+        <div className="alert-notifications" role="status" aria-live="polite">
+          {notifications.map(event => (
+            <div key={event.id} className="alert-notification">
+              <span>{event.message}</span>
+              <button
+                type="button"
+                className="button-icon"
+                aria-label="Cerrar notificación"
+                onClick={() => setNotifications(notifications.filter(n => n.id !== event.id))}
+              >
+                ×
+              </button>
+            </div>
+          ))}
+        </div>
+      )}
+
+      <div className="controls-grid">
+        <div className="control-group">
+          <label htmlFor="alert-item">Item</label>
+          <select id="alert-item" value={newItem} onChange={(e) => setNewItem(e.target.value)}>
+            {items.map(item => (
+              <option key={item} value={item}>{item.charAt(0).toUpperCase() + item.slice(1)}</option>
+            ))}
+          </select>
+        </div>
+        <div className="control-group">
+          <label htmlFor="alert-type">Condición</label>
+          <select id="alert-type" value={newType} onChange={(e) => setNewType(e.target.value as AlertRuleType)}>
+            {Object.entries(ALERT_RULE_LABELS).map(([type, label]) => (
+              <option key={type} value={type}>{label}</option>
+            ))}
+          </select>
+        </div>
+        <div className="control-group">
+          <label htmlFor="alert-threshold">{thresholdLabel}</label>
+          <input
+            type="number"
+            id="alert-threshold"
+            step="any"
+            value={newThreshold}
+            onChange={(e) => setNewThreshold(parseFloat(e.target.value))}
+          />
+        </div>
+        {(newType === 'change' || newType === 'zscore') && (
+          <div className="control-group">
+            <label htmlFor="alert-window">Ventana (min)</label>
+            <input
+              type="number"
+              id="alert-window"
+              min="1"
+              value={newWindow}
+              onChange={(e) => setNewWindow(parseInt(e.target.value))}
+            />
+          </div>
+        )}
+        <div className="control-group">
+          <label>&nbsp;</label>
+          <button type="button" className="button" onClick={addRule}>Añadir regla</button>
+        </div>
+      </div>
+
+      <div className="table-container">
+        <table className="data-table">
+          <thead>
+            <tr>
+              <th>Activa</th>
+              <th>Item</th>
+              <th>Condición</th>
+              <th>Umbral</th>
+              <th>Webhook</th>
+              <th>Último disparo</th>
+              <th></th>
+            </tr>
+          </thead>
+          <tbody>
+            {rules.length === 0 && (
+              <tr>
+                <td colSpan={7} className="muted">No hay reglas definidas</td>
+              </tr>
+            )}
+            {rules.map(rule => (
+              <tr key={rule.id}>
+                <td>
+                  <input
+                    type="checkbox"
+                    checked={rule.enabled}
+                    aria-label="Regla activa"
+                    onChange={(e) => updateRules(rules.map(r => r.id === rule.id ? { ...r, enabled: e.target.checked } : r))}
+                  />
+                </td>
+                <td>{rule.item.charAt(0).toUpperCase() + rule.item.slice(1)}</td>
+                <td>{ALERT_RULE_LABELS[rule.type]}</td>
+                <td>
+                  {rule.type === 'change' ? `${rule.threshold}% / ${rule.windowMinutes} min`
+                    : rule.type === 'zscore' ? `${rule.threshold}σ / ${rule.windowMinutes} min`
+                    : `$${rule.threshold}`}
+                </td>
+                <td>
+                  <input
+                    type="checkbox"
+                    checked={rule.webhook ?? false}
+                    aria-label="Notificar por webhook"
+                    onChange={(e) => updateRules(rules.map(r => r.id === rule.id ? { ...r, webhook: e.target.checked } : r))}
+                  />
+                </td>
+                <td>{rule.lastTriggeredAt ? new Date(rule.lastTriggeredAt).toLocaleString() : '—'}</td>
+                <td>
+                  <button
+                    type="button"
+                    className="button-icon"
+                    aria-label="Eliminar regla"
+                    onClick={() => updateRules(rules.filter(r => r.id !== rule.id))}
+                  >
+                    ×
+                  </button>
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+
+      <div className="section-toolbar">
+        <h3>Historial de alertas</h3>
+        {history.length > 0 && (
+          <button type="button" className="button button-secondary" onClick={() => setHistory([])}>Limpiar historial</button>
+        )}
+      </div>
+      <div className="table-container">
+        <table className="data-table">
+          <thead>
+            <tr>
+              <th>Fecha</th>
+              <th>Item</th>
+              <th>Alerta</th>
+              <th>Precio</th>
+              <th>Precio anterior</th>
+            </tr>
+          </thead>
+          <tbody>
+            {history.length === 0 && (
+              <tr>
+                <td colSpan={5} className="muted">Todavía no se ha disparado ninguna alerta</td>
+              </tr>
+            )}
+            {history.map(event => (
+              <tr key={event.id}>
+                <td>{new Date(event.triggeredAt).toLocaleString()}</td>
+                <td>{event.item.charAt(0).toUpperCase() + event.item.slice(1)}</td>
+                <td>{event.message}</td>
+                <td>${event.price.toFixed(4)}</td>
+                <td>{event.previousPrice !== null ? `$${event.previousPrice.toFixed(4)}` : '—'}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+    </>
+  );
+}
@@ -0,0 +1,148 @@
+"use client";
+
+import { useState } from 'react';
+import {
+  ANOMALY_LABELS,
+  getPointKey,
+  isExcludable,
+  type Anomaly,
+  type AnomalyKind,
+  type AnomalySettings
+} from '@/lib/anomalies';
+
+interface AnomalyPanelProps {
+  anomalies: Anomaly[];
+  settings: AnomalySettings;
+  onSettingsChange: (settings: AnomalySettings) => void;
+  excluded: string[]; // Claves item|timestamp de las muestras excluidas de las estadísticas
+  onExcludedChange: (excluded: string[]) => void;
+}
+
+// Máximo de filas de la tabla para no bloquear el navegador con series muy ruidosas
+const MAX_ROWS = 200;
+
+// Parámetros del detector que se pueden ajustar
+const SETTING_FIELDS: { key: keyof AnomalySettings; label: string; step: string }[] = [
+  { key: 'windowHours', label: 'Ventana (h)', step: '1' },
+  { key: 'spikeThreshold', label: 'Umbral de pico (σ)', step: '0.5' },
+  { key: 'changeThreshold', label: 'Umbral de cambio (σ)', step: '0.5' },
+  { key: 'flatlineHours', label: 'Precio plano (h)', step: '1' },
+  { key: 'gapHours', label: 'Hueco (h)', step: '1' }
+];
+
+export default function AnomalyPanel({ anomalies, settings, onSettingsChange, excluded, onExcludedChange }: AnomalyPanelProps) {
+  const [kindFilter, setKindFilter] = useState<AnomalyKind | 'all'>('all');
+  const [itemFilter, setItemFilter] = useState<string>('all');
+
+  const items = [...new Set(anomalies.map(a => a.item).filter((item): item is string => item !== null))].sort();
+  const filtered = anomalies.filter(a =>
+    (kindFilter === 'all' || a.kind === kindFilter)
+    && (itemFilter === 'all' || a.item === itemFilter || a.item === null)
+  );
+
+  const toggleExcluded = (anomaly: Anomaly, checked: boolean) => {
+    const key = getPointKey(anomaly.item!, anomaly.time);
+    onExcludedChange(checked ? [...excluded, key] : excluded.filter(k => k !== key));
+  };
+
+  return (
+    <>
+      <div className="controls-grid">
+        {SETTING_FIELDS.map(field => (
+          <div key={field.key} className="control-group">
+            <label htmlFor={`anomaly-${field.key}`}>{field.label}</label>
+            <input
+              type="number"
+              id={`anomaly-${field.key}`}
+              min={field.step}
+              step={field.step}
+              value={settings[field.key]}
+              onChange={(e) => {
+                const value = parseFloat(e.target.value);
+                if (Number.isFinite(value) && value > 0) onSettingsChange({ ...settings, [field.key]: value });
+              }}
+            />
+          </div>
+        ))}
+        <div className="control-group">
+          <label htmlFor="anomaly-kind">Tipo</label>
+          <select id="anomaly-kind" value={kindFilter} onChange={(e) => setKindFilter(e.target.value as AnomalyKind | 'all')}>
+            <option value="all">Todos</option>
+            {Object.entries(ANOMALY_LABELS).map(([kind, label]) => (
+              <option key={kind} value={kind}>{label}</option>
+            ))}
+          </select>
+        </div>
+        <div className="control-group">
+          <label htmlFor="anomaly-item">Item</label>
+          <select id="anomaly-item" value={itemFilter} onChange={(e) => setItemFilter(e.target.value)}>
+            <option value="all">Todos</option>
+            {items.map(item => (
+              <option key={item} value={item}>{item.charAt(0).toUpperCase() + item.slice(1)}</option>
+            ))}
+          </select>
+        </div>
+      </div>
+
+      <div className="section-toolbar">
+        <h3>
+          {filtered.length} anomalías
+          {filtered.length > MAX_ROWS && ` (se muestran las ${MAX_ROWS} más recientes)`}
+        </h3>
+        {excluded.length > 0 && (
+          <button type="button" className="button button-secondary" onClick={() => onExcludedChange([])}>
+            Restaurar {excluded.length} muestras excluidas
+          </button>
+        )}
+      </div>
+
+      <div className="table-container">
+        <table className="data-table">
+          <thead>
+            <tr>
+              <th>Fecha</th>
+              <th>Item</th>
+              <th>Tipo</th>
+              <th>Detalle</th>
+              <th>Intensidad</th>
+              <th>Excluir</th>
+            </tr>
+          </thead>
+          <tbody>
+            {filtered.length === 0 && (
+              <tr>
+                <td colSpan={6} className="muted">No se han detectado anomalías</td>
+              </tr>
+            )}
+            {filtered.slice(0, MAX_ROWS).map(anomaly => (
+              <tr key={anomaly.id}>
+                <td>
+                  {anomaly.time.toLocaleString()}
+                  {anomaly.endTime && ` → ${anomaly.endTime.toLocaleString()}`}
+                </td>
+                <td>{anomaly.item ? anomaly.item.charAt(0).toUpperCase() + anomaly.item.slice(1) : 'Todos'}</td>
+                <td>
+                  <span className={`badge ${anomaly.kind === 'spike' || anomaly.kind === 'gap' ? 'badge-error' : 'badge-warning'}`}>
+                    {ANOMALY_LABELS[anomaly.kind]}
+                  </span>
+                </td>
+                <td>{anomaly.message}</td>
+                <td>{anomaly.kind === 'flatline' || anomaly.kind === 'gap' ? `${anomaly.score.toFixed(1)} h` : `${anomaly.score.toFixed(1)}σ`}</td>
+                <td>
+                  {isExcludable(anomaly) ? (
+                    <input
+                      type="checkbox"
+                      aria-label="Excluir muestra de las estadísticas"
+                      checked={excluded.includes(getPointKey(anomaly.item!, anomaly.time))}
+                      onChange={(e) => toggleExcluded(anomaly, e.target.checked)}
+                    />
+                  ) : '—'}
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+    </>
+  );
+}
@@ -0,0 +1,33 @@
+"use client";
+
+import { useEffect, useState } from 'react';
+
+// Tiempo que se muestra la confirmación tras copiar
+const FEEDBACK_MS = 2000;
+
+export default function CopyLinkButton() {
+  const [status, setStatus] = useState<'idle' | 'copied' | 'error'>('idle');
+
+  useEffect(() => {
+    if (status === 'idle') return;
+    const timeout = setTimeout(() => setStatus('idle'), FEEDBACK_MS);
+    return () => clearTimeout(timeout);
+  }, [status]);
+
+  // Función para copiar la URL actual, que ya contiene el estado de la vista
+  const handleCopy = async () => {
+    try {
+      await navigator.clipboard.writeText(window.location.href);
+      setStatus('copied');
+    } catch (error) {
+      console.error('Error al copiar el enlace:', error);
+      setStatus('error');
+    }
+  };
+
+  return (
+    <button type="button" className="button button-secondary copy-link-button" onClick={handleCopy}>
+      {status === 'copied' ? 'Enlace copiado' : status === 'error' ? 'No se pudo copiar' : 'Copiar enlace'}
+    </button>
+  );
+}
@@ -0,0 +1,158 @@
+"use client";
+
+import { useMemo, useState } from 'react';
+import {
+  computeCorrelationMatrix,
+  computeRollingCorrelation,
+  type CorrelationBasis,
+  type CorrelationMethod
+} from '@/lib/correlation';
+import { alignItems } from '@/lib/resample';
+import type { FlatDataItem } from '@/lib/types';
+import Plot, { CHART_COLORS, getPlotLayout, type PlotData, type PlotValue } from '@/components/Plot';
+
+interface CorrelationMatrixProps {
+  data: FlatDataItem[];
+  id?: string; // Prefijo de los ids de los controles, para poder mostrar varias matrices
+}
+
+// Intervalos de remuestreo disponibles
+const INTERVALS: Record<string, number> = {
+  '15m': 15 * 60 * 1000,
+  '1h': 60 * 60 * 1000,
+  '4h': 4 * 60 * 60 * 1000,
+  '1d': 24 * 60 * 60 * 1000
+};
+
+// Escala divergente: rojo para correlación negativa, azul para positiva
+const CORRELATION_COLORSCALE = 'RdBu';
+
+const capitalize = (item: string) => item.charAt(0).toUpperCase() + item.slice(1);
+
+export default function CorrelationMatrix({ data, id = 'correlation' }: CorrelationMatrixProps) {
+  const [method, setMethod] = useState<CorrelationMethod>('pearson');
+  const [basis, setBasis] = useState<CorrelationBasis>('returns');
+  const [intervalKey, setIntervalKey] = useState<string>('1h');
+  const [rollingWindow, setRollingWindow] = useState<number>(24);
+  const [selectedPair, setSelectedPair] = useState<[string, string] | null>(null);
+
+  // Todos los items cargados, igual que availableItems en la página
+  const items = useMemo(() => [...new Set(data.map(d => d.item))].sort(), [data]);
+
+  const aligned = useMemo(() => alignItems(data, items, { intervalMs: INTERVALS[intervalKey], fill: 'ffill', aggregation: 'last' }), [data, items, intervalKey]);
+
+  const matrix = useMemo(() => computeCorrelationMatrix(aligned, method, basis), [aligned, method, basis]);
+
+  const rolling = useMemo(() => {
+    if (!selectedPair) return [];
+    return computeRollingCorrelation(aligned, selectedPair[0], selectedPair[1], Math.max(2, rollingWindow), method, basis);
+  }, [aligned, selectedPair, rollingWindow, method, basis]);
+
+  const labels = matrix.items.map(capitalize);
+
+  const heatmap: PlotData = {
+    x: labels,
+    y: labels,
+    z: matrix.values,
+    text: matrix.values.map(row => row.map(value => value === null ? '' : value.toFixed(2))),
+    texttemplate: '%{text}',
+    textfont: { size: 10 },
+    type: 'heatmap',
+    colorscale: CORRELATION_COLORSCALE,
+    zmin: -1,
+    zmax: 1,
+    hovertemplate: '<b>%{y} / %{x}</b><br>Correlación: %{z:.3f}<extra></extra>'
+  };
+
+  const handleCellClick = (event: { points: { x: PlotValue; y: PlotValue }[] }) => {
+    const point = event.points[0];
+    if (!point) return;
+    const itemA = matrix.items[labels.indexOf(String(point.y))];
+    const itemB = matrix.items[labels.indexOf(String(point.x))];
+    if (itemA && itemB && itemA !== itemB) setSelectedPair([itemA, itemB]);
+  };
+
+  const methodLabel = method === 'pearson' ? 'Pearson' : 'Spearman';
+  const heatmapLayout = getPlotLayout(`Matriz de Correlación (${methodLabel})`, 'Item', 'Item');
+
+  return (
+    <>
+      <div className="controls-grid">
+        <div className="control-group">
+          <label htmlFor={`${id}-method`}>Método</label>
+          <select id={`${id}-method`} value={method} onChange={(e) => setMethod(e.target.value as CorrelationMethod)}>
+            <option value="pearson">Pearson</option>
+            <option value="spearman">Spearman</option>
+          </select>
+        </div>
+        <div className="control-group">
+          <label htmlFor={`${id}-basis`}>Serie</label>
+          <select id={`${id}-basis`} value={basis} onChange={(e) => setBasis(e.target.value as CorrelationBasis)}>
+            <option value="returns">Variación por intervalo</option>
+            <option value="price">Precio</option>
+          </select>
+        </div>
+        <div className="control-group">
+          <label htmlFor={`${id}-interval`}>Intervalo</label>
+          <select id={`${id}-interval`} value={intervalKey} onChange={(e) => setIntervalKey(e.target.value)}>
+            {Object.keys(INTERVALS).map(key => (
+              <option key={key} value={key}>{key}</option>
+            ))}
+          </select>
+        </div>
+        <div className="control-group">
+          <label htmlFor={`${id}-window`}>Ventana móvil (intervalos)</label>
+          <input
+            type="number"
+            id={`${id}-window`}
+            min="2"
+            value={rollingWindow}
+            onChange={(e) => setRollingWindow(parseInt(e.target.value) || 2)}
+          />
+        </div>
+      </div>
+
+      <div className="plot-container">
+        <Plot
+          data={[heatmap]}
+          layout={{
+            ...heatmapLayout,
+            xaxis: { ...heatmapLayout.xaxis, type: 'category' },
+            hovermode: 'closest',
+            height: 600
+          }}
+          useResizeHandler={true}
+          style={{ width: '100%', height: '100%' }}
+          config={{ displayModeBar: false }}
+          onClick={handleCellClick}
+        />
+      </div>
+
+      {selectedPair ? (
+        <div className="plot-container">
+          <Plot
+            data={[{
+              x: rolling.map(p => p.time),
+              y: rolling.map(p => p.value),
+              type: 'scatter',
+              mode: 'lines',
+              name: `${capitalize(selectedPair[0])} / ${capitalize(selectedPair[1])}`,
+              line: { color: CHART_COLORS[0], width: 2 },
+              hovertemplate: '<b>%{fullData.name}</b><br>Fecha: %{x}<br>Correlación: %{y:.3f}<extra></extra>'
+            }]}
+            layout={getPlotLayout(
+              `Correlación Móvil (${rollingWindow} × ${intervalKey}) - ${capitalize(selectedPair[0])} vs ${capitalize(selectedPair[1])}`,
+              'Fecha y Hora',
+              'Correlación'
+            )}
+            useResizeHandler={true}
+            style={{ width: '100%', height: '100%' }}
+            config={{ displayModeBar: false }}
+          />
+        </div>
+      ) : (
+        <p className="time-range-help">Haz clic en una celda para ver la correlación móvil de ese par.</p>
+      )}
+    </>
+  );
+}
@@ -0,0 +1,134 @@
+"use client";
+
+import { useMemo, useState } from 'react';
+import { RECIPES } from '@/config/recipes.config';
+import { computeRecipeMargins, getRecipeItems } from '@/lib/crafting';
+import type { FlatDataItem } from '@/lib/types';
+import ExportLinks from '@/components/ExportLinks';
+import Plot, { CHART_COLORS, getPlotLayout, type PlotData } from '@/components/Plot';
+
+interface CraftingAnalyzerProps {
+  data: FlatDataItem[];
+}
+
+export default function CraftingAnalyzer({ data }: CraftingAnalyzerProps) {
+  const [selectedOutput, setSelectedOutput] = useState<string>(RECIPES[0]?.output ?? '');
+
+  // Márgenes de todas las recetas sobre la misma línea temporal
+  const margins = useMemo(() => RECIPES.map(recipe => computeRecipeMargins(recipe, data)), [data]);
+
+  const selectedMargin = margins.find(m => m.recipe.output === selectedOutput) ?? null;
+
+  const chartData = useMemo(() => {
+    if (!selectedMargin || selectedMargin.points.length === 0) return [];
+    const points = selectedMargin.points;
+    const name = selectedOutput.charAt(0).toUpperCase() + selectedOutput.slice(1);
+    return [
+      {
+        x: points.map(p => p.time),
+        y: points.map(p => p.outputPrice),
+        type: 'scatter',
+        mode: 'lines',
+        name: `${name} (Precio)`,
+        line: { color: CHART_COLORS[0], width: 3 },
+        hovertemplate: '<b>%{fullData.name}</b><br>Fecha: %{x}<br>Precio: $%{y:.4f}<extra></extra>'
+      },
+      {
+        x: points.map(p => p.time),
+        y: points.map(p => p.inputCost),
+        type: 'scatter',
+        mode: 'lines',
+        name: 'Coste de insumos',
+        line: { color: CHART_COLORS[3], width: 3 },
+        hovertemplate: '<b>%{fullData.name}</b><br>Fecha: %{x}<br>Coste: $%{y:.4f}<extra></extra>'
+      },
+      {
+        x: points.map(p => p.time),
+        y: points.map(p => p.spread),
+        type: 'scatter',
+        mode: 'lines',
+        name: 'Margen (Eje Der.)',
+        fill: 'tozeroy',
+        fillcolor: 'rgba(16, 185, 129, 0.15)',
+        line: { color: CHART_COLORS[2], width: 2 },
+        hovertemplate: '<b>%{fullData.name}</b><br>Fecha: %{x}<br>Margen: $%{y:.4f}<extra></extra>',
+        yaxis: 'y2'
+      }
+    ] as PlotData[];
+  }, [selectedMargin, selectedOutput]);
+
+  return (
+    <>
+      <div className="table-container">
+        <table className="data-table">
+          <thead>
+            <tr>
+              <th>Producto</th>
+              <th>Receta</th>
+              <th>Precio</th>
+              <th>Coste insumos</th>
+              <th>Margen</th>
+              <th>Margen %</th>
+              <th>Estado</th>
+            </tr>
+          </thead>
+          <tbody>
+            {margins.map(({ recipe, latest, missingItems }) => (
+              <tr
+                key={recipe.output}
+                className={recipe.output === selectedOutput ? 'selected' : undefined}
+                onClick={() => setSelectedOutput(recipe.output)}
+              >
+                <td>{recipe.output.charAt(0).toUpperCase() + recipe.output.slice(1)}</td>
+                <td>
+                  {recipe.inputs.map(input => `${input.quantity} ${input.item}`).join(' + ')}
+                  {recipe.outputQuantity !== 1 && ` → ${recipe.outputQuantity}`}
+                </td>
+                {latest ? (
+                  <>
+                    <td>${latest.outputPrice.toFixed(4)}</td>
+                    <td>${latest.inputCost.toFixed(4)}</td>
+                    <td>${latest.spread.toFixed(4)}</td>
+                    <td>{latest.marginPct.toFixed(1)}%</td>
+                    <td>
+                      <span className={`badge ${latest.spread > 0 ? 'badge-success' : 'badge-error'}`}>
+                        {latest.spread > 0 ? 'Rentable' : 'No rentable'}
+                      </span>
+                    </td>
+                  </>
+                ) : (
+                  <td colSpan={5} className="muted">Sin datos de {missingItems.join(', ')}</td>
+                )}
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+
+      {selectedMargin && (
+        <ExportLinks
+          params={{
+            items: getRecipeItems(selectedMargin.recipe),
+            from: data.length > 0 ? data[0].timestamp : undefined,
+            to: data.length > 0 ? data[data.length - 1].timestamp : undefined
+          }}
+        />
+      )}
+
+      <div className="plot-container">
+        <Plot
+          data={chartData}
+          layout={getPlotLayout(
+            `Margen de Fabricación - ${selectedOutput.charAt(0).toUpperCase() + selectedOutput.slice(1)}`,
+            'Fecha y Hora',
+            'Precio ($)',
+            true
+          )}
+          useResizeHandler={true}
+          style={{ width: '100%', height: '100%' }}
+          config={{ displayModeBar: false }}
+        />
+      </div>
+    </>
+  );
+}
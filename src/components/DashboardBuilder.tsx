@@ -0,0 +1,235 @@
+"use client";
+
+import { useEffect, useState } from 'react';
+import { deleteDashboard, fetchDashboards, saveDashboard } from '@/lib/api';
+import {
+  PANEL_KINDS,
+  PANEL_PERIOD_LABELS,
+  createPanel,
+  type DashboardPanel,
+  type PanelKind,
+  type PanelPeriod,
+  type SavedDashboard
+} from '@/lib/dashboards';
+import type { FlatDataItem } from '@/lib/types';
+import DashboardPanelView from '@/components/DashboardPanelView';
+import HourRangeControl from '@/components/HourRangeControl';
+
+interface DashboardBuilderProps {
+  data: FlatDataItem[];
+  items: string[];
+  timeZone: string; // Zona con la que se calcularon el día y la hora de los datos
+}
+
+const capitalize = (item: string) => item.charAt(0).toUpperCase() + item.slice(1);
+
+export default function DashboardBuilder({ data, items, timeZone }: DashboardBuilderProps) {
+  const [dashboards, setDashboards] = useState<SavedDashboard[]>([]);
+  const [selectedId, setSelectedId] = useState<string>(''); // '' = dashboard sin guardar
+  const [name, setName] = useState('');
+  const [panels, setPanels] = useState<DashboardPanel[]>([]);
+  const [newKind, setNewKind] = useState<PanelKind>('evolution');
+  const [saving, setSaving] = useState(false);
+  const [message, setMessage] = useState<{ type: 'success' | 'error'; text: string } | null>(null);
+
+  useEffect(() => {
+    fetchDashboards()
+      .then(setDashboards)
+      .catch(error => setMessage({ type: 'error', text: error instanceof Error ? error.message : String(error) }));
+  }, []);
+
+  // Función para abrir un dashboard guardado o empezar uno vacío
+  const selectDashboard = (id: string) => {
+    const dashboard = dashboards.find(d => d.id === id);
+    setSelectedId(dashboard?.id ?? '');
+    setName(dashboard?.name ?? '');
+    setPanels(dashboard?.panels ?? []);
+    setMessage(null);
+  };
+
+  const updatePanel = (id: string, changes: Partial<DashboardPanel>) => {
+    setPanels(current => current.map(panel => panel.id === id ? { ...panel, ...changes } : panel));
+  };
+
+  // Función para mover un panel una posición arriba (-1) o abajo (+1)
+  const movePanel = (index: number, offset: -1 | 1) => {
+    const target = index + offset;
+    if (target < 0 || target >= panels.length) return;
+    const next = [...panels];
+    [next[index], next[target]] = [next[target], next[index]];
+    setPanels(next);
+  };
+
+  const togglePanelItem = (panel: DashboardPanel, item: string, checked: boolean) => {
+    updatePanel(panel.id, { items: checked ? [...panel.items, item] : panel.items.filter(i => i !== item) });
+  };
+
+  // Función para guardar en el servidor; `asNew` crea una copia aunque haya un dashboard abierto
+  const handleSave = async (asNew: boolean) => {
+    setSaving(true);
+    setMessage(null);
+    try {
+      const saved = await saveDashboard({ name, panels }, asNew ? undefined : selectedId || undefined);
+      setDashboards(current => current.some(d => d.id === saved.id)
+        ? current.map(d => d.id === saved.id ? saved : d)
+        : [...current, saved]);
+      setSelectedId(saved.id);
+      setName(saved.name);
+      setMessage({ type: 'success', text: `Dashboard "${saved.name}" guardado` });
+    } catch (error) {
+      setMessage({ type: 'error', text: error instanceof Error ? error.message : String(error) });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleDelete = async () => {
+    const dashboard = dashboards.find(d => d.id === selectedId);
+    if (!dashboard || !window.confirm(`¿Eliminar el dashboard "${dashboard.name}" para todo el equipo?`)) return;
+    setSaving(true);
+    setMessage(null);
+    try {
+      await deleteDashboard(dashboard.id);
+      setDashboards(current => current.filter(d => d.id !== dashboard.id));
+      setSelectedId('');
+      setMessage({ type: 'success', text: `Dashboard "${dashboard.name}" eliminado` });
+    } catch (error) {
+      setMessage({ type: 'error', text: error instanceof Error ? error.message : String(error) });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <>
+      <div className="controls-grid">
+        <div className="control-group">
+          <label htmlFor="dashboard-select">Dashboard</label>
+          <select id="dashboard-select" value={selectedId} onChange={(e) => selectDashboard(e.target.value)}>
+            <option value="">Nuevo dashboard</option>
+            {dashboards.map(dashboard => (
+              <option key={dashboard.id} value={dashboard.id}>{dashboard.name}</option>
+            ))}
+          </select>
+        </div>
+        <div className="control-group">
+          <label htmlFor="dashboard-name">Nombre</label>
+          <input id="dashboard-name" type="text" value={name} onChange={(e) => setName(e.target.value)} />
+        </div>
+        <div className="control-group">
+          <label>&nbsp;</label>
+          <div className="button-row">
+            <button type="button" className="button" disabled={saving || name.trim() === ''} onClick={() => handleSave(false)}>
+              Guardar
+            </button>
+            {selectedId && (
+              <>
+                <button type="button" className="button button-secondary" disabled={saving || name.trim() === ''} onClick={() => handleSave(true)}>
+                  Guardar como nuevo
+                </button>
+                <button type="button" className="button button-secondary" disabled={saving} onClick={handleDelete}>
+                  Eliminar
+                </button>
+              </>
+            )}
+          </div>
+        </div>
+      </div>
+
+      {message && <p className={message.type === 'error' ? 'import-error' : 'import-result'}>{message.text}</p>}
+
+      <div className="controls-grid">
+        <div className="control-group">
+          <label htmlFor="dashboard-new-panel">Tipo de panel</label>
+          <select id="dashboard-new-panel" value={newKind} onChange={(e) => setNewKind(e.target.value as PanelKind)}>
+            {Object.entries(PANEL_KINDS).map(([kind, { label }]) => (
+              <option key={kind} value={kind}>{label}</option>
+            ))}
+          </select>
+        </div>
+        <div className="control-group">
+          <label>&nbsp;</label>
+          <button type="button" className="button" onClick={() => setPanels([...panels, createPanel(newKind, items.slice(0, 1))])}>
+            Añadir panel
+          </button>
+        </div>
+      </div>
+
+      {panels.length === 0 && <p className="muted">Añade paneles para construir el dashboard.</p>}
+
+      {panels.map((panel, index) => {
+        const { label, maxItems } = PANEL_KINDS[panel.kind];
+        const prefix = `panel-${panel.id}`;
+        return (
+          <section key={panel.id} className="dashboard-panel">
+            <div className="section-toolbar">
+              <h3>{label}</h3>
+              <div className="button-row">
+                <button type="button" className="button-icon" aria-label="Subir panel" disabled={index === 0} onClick={() => movePanel(index, -1)}>↑</button>
+                <button type="button" className="button-icon" aria-label="Bajar panel" disabled={index === panels.length - 1} onClick={() => movePanel(index, 1)}>↓</button>
+                <button type="button" className="button-icon" aria-label="Eliminar panel" onClick={() => setPanels(panels.filter(p => p.id !== panel.id))}>×</button>
+              </div>
+            </div>
+
+            <div className="controls-grid">
+              {maxItems !== 0 && (
+                <div className="control-group">
+                  <label>{maxItems === null ? 'Items (ninguno = todos)' : `Items (máx. ${maxItems})`}</label>
+                  <div className="checkbox-group">
+                    {items.map(item => (
+                      <div key={item} className="checkbox-item">
+                        <input
+                          type="checkbox"
+                          id={`${prefix}-item-${item}`}
+                          checked={panel.items.includes(item)}
+                          disabled={!panel.items.includes(item) && maxItems !== null && panel.items.length >= maxItems}
+                          onChange={(e) => togglePanelItem(panel, item, e.target.checked)}
+                        />
+                        <label htmlFor={`${prefix}-item-${item}`}>{capitalize(item)}</label>
+                      </div>
+                    ))}
+                  </div>
+                </div>
+              )}
+              <div className="control-group">
+                <label htmlFor={`${prefix}-period`}>Periodo</label>
+                <select id={`${prefix}-period`} value={panel.period} onChange={(e) => updatePanel(panel.id, { period: e.target.value as PanelPeriod })}>
+                  {Object.entries(PANEL_PERIOD_LABELS).map(([period, periodLabel]) => (
+                    <option key={period} value={period}>{periodLabel}</option>
+                  ))}
+                </select>
+              </div>
+              {panel.period === 'last' && (
+                <div className="control-group">
+                  <label htmlFor={`${prefix}-days`}>Días</label>
+                  <input
+                    type="number"
+                    id={`${prefix}-days`}
+                    min="1"
+                    value={panel.lastDays}
+                    onChange={(e) => updatePanel(panel.id, { lastDays: Math.max(1, parseInt(e.target.value) || 1) })}
+                  />
+                </div>
+              )}
+              {panel.period === 'range' && (
+                <>
+                  <div className="control-group">
+                    <label htmlFor={`${prefix}-from`}>Desde</label>
+                    <input type="date" id={`${prefix}-from`} value={panel.from} onChange={(e) => updatePanel(panel.id, { from: e.target.value })} />
+                  </div>
+                  <div className="control-group">
+                    <label htmlFor={`${prefix}-to`}>Hasta</label>
+                    <input type="date" id={`${prefix}-to`} value={panel.to} onChange={(e) => updatePanel(panel.id, { to: e.target.value })} />
+                  </div>
+                </>
+              )}
+              <HourRangeControl id={`${prefix}-hours`} value={panel.hours} onChange={(hours) => updatePanel(panel.id, { hours })} timeZone={timeZone} />
+            </div>
+
+            <DashboardPanelView panel={panel} data={data} timeZone={timeZone} />
+          </section>
+        );
+      })}
+    </>
+  );
+}
@@ -0,0 +1,137 @@
+"use client";
+
+import { useMemo } from 'react';
+import { PANEL_KINDS, filterPanelData, type DashboardPanel } from '@/lib/dashboards';
+import { getHoursInRange } from '@/lib/hourRange';
+import { getItemSamples } from '@/lib/resample';
+import { formatZonedDateTime, getTimeZoneLabel } from '@/lib/timezone';
+import type { FlatDataItem } from '@/lib/types';
+import CorrelationMatrix from '@/components/CorrelationMatrix';
+import CraftingAnalyzer from '@/components/CraftingAnalyzer';
+import Plot, { CHART_COLORS, getPlotLayout, type PlotData } from '@/components/Plot';
+import SeasonalityView from '@/components/SeasonalityView';
+
+interface DashboardPanelViewProps {
+  panel: DashboardPanel;
+  data: FlatDataItem[]; // Todos los datos cargados; el panel aplica su propio filtro
+  timeZone: string;     // Zona con la que se calcularon el día y la hora de los datos
+}
+
+const capitalize = (item: string) => item.charAt(0).toUpperCase() + item.slice(1);
+
+// Función para obtener los items que muestra un panel: los elegidos o todos los que tienen datos
+const getPanelItems = (panel: DashboardPanel, data: FlatDataItem[]): string[] => {
+  return panel.items.length > 0 ? panel.items : [...new Set(data.map(d => d.item))].sort();
+};
+
+// Función para calcular el precio medio de un item en cada día con datos
+const getDailyAverages = (data: FlatDataItem[], item: string): { day: string; avg: number }[] => {
+  const totals = new Map<string, { total: number; count: number }>();
+  for (const d of data) {
+    if (d.item !== item) continue;
+    const entry = totals.get(d.day) ?? { total: 0, count: 0 };
+    entry.total += d.price;
+    entry.count += 1;
+    totals.set(d.day, entry);
+  }
+  return [...totals].sort(([a], [b]) => a.localeCompare(b)).map(([day, { total, count }]) => ({ day, avg: total / count }));
+};
+
+// Función para construir las trazas y el layout de los paneles con gráfico propio
+const getPanelChart = (panel: DashboardPanel, data: FlatDataItem[], timeZone: string) => {
+  const items = getPanelItems(panel, data);
+
+  if (panel.kind === 'evolution') {
+    const dual = items.length === 2;
+    const traces = items.map((item, index) => {
+      const samples = getItemSamples(data, item);
+      return {
+        x: samples.map(s => formatZonedDateTime(s.time, timeZone)),
+        y: samples.map(s => s.price),
+        type: 'scatter',
+        mode: 'lines',
+        name: dual ? `${capitalize(item)}${index === 1 ? ' (Eje Der.)' : ''}` : capitalize(item),
+        line: { color: CHART_COLORS[index % CHART_COLORS.length], width: 3 },
+        hovertemplate: '<b>%{fullData.name}</b><br>Fecha: %{x}<br>Precio: $%{y:.4f}<extra></extra>',
+        yaxis: index === 1 ? 'y2' : 'y'
+      } as PlotData;
+    });
+    return { traces, layout: getPlotLayout('Evolución de Precios', 'Fecha y Hora', 'Precio ($)', dual) };
+  }
+
+  if (panel.kind === 'trends') {
+    const traces = items.map((item, index) => {
+      const days = getDailyAverages(data, item);
+      const color = CHART_COLORS[index % CHART_COLORS.length];
+      return {
+        x: days.map(d => d.day),
+        y: days.map(d => d.avg),
+        type: 'scatter',
+        mode: 'lines+markers',
+        name: `${capitalize(item)} (Promedio Diario)`,
+        line: { color, width: 3 },
+        marker: { size: 6, color },
+        hovertemplate: '<b>%{fullData.name}</b><br>Fecha: %{x}<br>Precio Promedio: $%{y:.2f}<extra></extra>'
+      } as PlotData;
+    });
+    return { traces, layout: getPlotLayout('Tendencia de Precios (Promedio Diario)', 'Fecha', 'Precio ($)') };
+  }
+
+  // Mapa de calor: precio medio por item y hora, con las horas en orden desde la inicial
+  const hours = getHoursInRange(panel.hours);
+  const sums = new Map<string, { total: number; count: number }>();
+  for (const d of data) {
+    const key = `${d.item},${d.hour}`;
+    const entry = sums.get(key) ?? { total: 0, count: 0 };
+    entry.total += d.price;
+    entry.count += 1;
+    sums.set(key, entry);
+  }
+  const z = items.map(item => hours.map(hour => {
+    const entry = sums.get(`${item},${hour}`);
+    return entry ? Math.round((entry.total / entry.count) * 100) / 100 : null;
+  }));
+  const layout = getPlotLayout('Mapa de Calor de Precios Promedio por Hora', `Hora del Día (${getTimeZoneLabel(timeZone)})`, 'Items');
+  return {
+    traces: [{
+      x: hours.map(hour => `${hour}:00`),
+      y: items.map(capitalize),
+      z,
+      text: z.map(row => row.map(value => value === null ? '' : `$${value}`)),
+      texttemplate: '%{text}',
+      type: 'heatmap',
+      colorscale: 'Viridis',
+      hovertemplate: '<b>%{y}</b><br>Hora: %{x}<br>Precio Promedio: $%{z:.2f}<extra></extra>'
+    } as PlotData],
+    layout: { ...layout, xaxis: { ...layout.xaxis, type: 'category' } }
+  };
+};
+
+export default function DashboardPanelView({ panel, data, timeZone }: DashboardPanelViewProps) {
+  const panelData = useMemo(() => filterPanelData(data, panel), [data, panel]);
+
+  const chart = useMemo(() => {
+    if (panel.kind !== 'evolution' && panel.kind !== 'trends' && panel.kind !== 'heatmap') return null;
+    return getPanelChart(panel, panelData, timeZone);
+  }, [panel, panelData, timeZone]);
+
+  if (panelData.length === 0) {
+    return <p className="muted">No hay datos para la configuración de este panel.</p>;
+  }
+
+  if (panel.kind === 'seasonality') return <SeasonalityView id={`panel-${panel.id}-seasonality`} data={panelData} timeZone={timeZone} />;
+  if (panel.kind === 'correlation') return <CorrelationMatrix id={`panel-${panel.id}-correlation`} data={panelData} />;
+  if (panel.kind === 'crafting') return <CraftingAnalyzer data={panelData} />;
+
+  return (
+    <div className="plot-container">
+      <Plot
+        data={chart?.traces ?? []}
+        layout={chart?.layout ?? getPlotLayout(PANEL_KINDS[panel.kind].label, '', '')}
+        useResizeHandler={true}
+        style={{ width: '100%', height: '100%' }}
+        config={{ displayModeBar: false }}
+      />
+    </div>
+  );
+}
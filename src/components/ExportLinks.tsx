@@ -0,0 +1,26 @@
+"use client";
+
+import { getExportUrl, type HistoryParams } from '@/lib/api';
+import { EXPORT_FORMATS, type ExportFormat } from '@/lib/exporters';
+
+interface ExportLinksProps {
+  params: HistoryParams; // Selección actual del gráfico (items, fechas y horas)
+}
+
+export default function ExportLinks({ params }: ExportLinksProps) {
+  return (
+    <div className="export-links">
+      <span>Exportar:</span>
+      {(Object.keys(EXPORT_FORMATS) as ExportFormat[]).map(format => (
+        <a
+          key={format}
+          className="button button-secondary"
+          href={getExportUrl(params, format)}
+          download
+        >
+          {EXPORT_FORMATS[format].label}
+        </a>
+      ))}
+    </div>
+  );
+}
@@ -0,0 +1,139 @@
+"use client";
+
+import { useState } from 'react';
+import { fetchHistory } from '@/lib/api';
+import {
+  FORECAST_HORIZONS,
+  FORECAST_MODEL_LABELS,
+  backtestForecast,
+  type BacktestWeek,
+  type ForecastModel
+} from '@/lib/forecast';
+import { getWeekFileName } from '@/lib/weekFiles';
+
+interface ForecastBacktestProps {
+  items: string[];
+}
+
+export default function ForecastBacktest({ items }: ForecastBacktestProps) {
+  const [item, setItem] = useState<string>(items[0] ?? '');
+  const [model, setModel] = useState<ForecastModel>('holt-winters');
+  const [horizon, setHorizon] = useState<number>(24);
+  const [results, setResults] = useState<BacktestWeek[] | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // El backtest usa todo el historial guardado del item, no solo las semanas cargadas
+  const runBacktest = async () => {
+    if (!item) return;
+    setLoading(true);
+    setError(null);
+    try {
+      const history = await fetchHistory({ items: [item], resolution: '15m' });
+      const samples = (history.items[item] ?? [])
+        .map(record => ({ time: new Date(record.timestamp).getTime(), price: Number(record.price) }))
+        .sort((a, b) => a.time - b.time);
+      setResults(backtestForecast(samples, model, horizon));
+    } catch (err: unknown) {
+      setResults(null);
+      setError(err instanceof Error ? err.message : 'Error desconocido al ejecutar el backtest');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const total = results && results.length > 0 ? {
+    samples: results.reduce((sum, r) => sum + r.samples, 0),
+    weighted: (key: 'mae' | 'mape' | 'coverage') =>
+      results.reduce((sum, r) => sum + r[key] * r.samples, 0) / results.reduce((sum, r) => sum + r.samples, 0),
+    rmse: Math.sqrt(results.reduce((sum, r) => sum + r.rmse * r.rmse * r.samples, 0) / results.reduce((sum, r) => sum + r.samples, 0))
+  } : null;
+
+  return (
+    <>
+      <div className="controls-grid">
+        <div className="control-group">
+          <label htmlFor="backtest-item">Item</label>
+          <select id="backtest-item" value={item} onChange={(e) => setItem(e.target.value)}>
+            {items.map(i => (
+              <option key={i} value={i}>{i.charAt(0).toUpperCase() + i.slice(1)}</option>
+            ))}
+          </select>
+        </div>
+        <div className="control-group">
+          <label htmlFor="backtest-model">Modelo</label>
+          <select id="backtest-model" value={model} onChange={(e) => setModel(e.target.value as ForecastModel)}>
+            {Object.entries(FORECAST_MODEL_LABELS).map(([key, label]) => (
+              <option key={key} value={key}>{label}</option>
+            ))}
+          </select>
+        </div>
+        <div className="control-group">
+          <label htmlFor="backtest-horizon">Horizonte</label>
+          <select id="backtest-horizon" value={horizon} onChange={(e) => setHorizon(parseInt(e.target.value))}>
+            {FORECAST_HORIZONS.map(h => (
+              <option key={h} value={h}>{h} h</option>
+            ))}
+          </select>
+        </div>
+        <div className="control-group">
+          <label>&nbsp;</label>
+          <button type="button" className="button" disabled={loading || !item} onClick={runBacktest}>
+            {loading ? 'Calculando...' : 'Ejecutar backtest'}
+          </button>
+        </div>
+      </div>
+
+      <p className="time-range-help">
+        Cada día a las 00:00 UTC se entrena el modelo con el historial anterior y se compara el pronóstico con los precios reales.
+        La cobertura es el porcentaje de precios reales dentro del intervalo de confianza del 95%.
+      </p>
+
+      {error && <p className="import-error">{error}</p>}
+
+      {results && (
+        <div className="table-container">
+          <table className="data-table">
+            <thead>
+              <tr>
+                <th>Semana</th>
+                <th>Horas comparadas</th>
+                <th>MAE</th>
+                <th>MAPE</th>
+                <th>RMSE</th>
+                <th>Cobertura</th>
+              </tr>
+            </thead>
+            <tbody>
+              {results.length === 0 && (
+                <tr>
+                  <td colSpan={6} className="muted">No hay historial suficiente (se necesitan al menos dos días antes de cada pronóstico)</td>
+                </tr>
+              )}
+              {results.map(week => (
+                <tr key={week.weekStart.getTime()}>
+                  <td>{getWeekFileName(week.weekStart).replace(/^prices_|\.json$/g, '')} ({week.weekStart.toISOString().slice(0, 10)})</td>
+                  <td>{week.samples}</td>
+                  <td>${week.mae.toFixed(4)}</td>
+                  <td>{week.mape.toFixed(2)}%</td>
+                  <td>${week.rmse.toFixed(4)}</td>
+                  <td>{week.coverage.toFixed(0)}%</td>
+                </tr>
+              ))}
+              {total && results.length > 1 && (
+                <tr>
+                  <td><strong>Total</strong></td>
+                  <td>{total.samples}</td>
+                  <td>${total.weighted('mae').toFixed(4)}</td>
+                  <td>{total.weighted('mape').toFixed(2)}%</td>
+                  <td>${total.rmse.toFixed(4)}</td>
+                  <td>{total.weighted('coverage').toFixed(0)}%</td>
+                </tr>
+              )}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </>
+  );
+}
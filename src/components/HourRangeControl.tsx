@@ -0,0 +1,49 @@
+"use client";
+
+import { isValidHour, type HourRange } from '@/lib/hourRange';
+import { getTimeZoneLabel } from '@/lib/timezone';
+
+interface HourRangeControlProps {
+  id: string;
+  value: HourRange;
+  onChange: (value: HourRange) => void;
+  timeZone: string; // Zona en la que se interpretan las horas
+}
+
+// Selector de rango de horas en la zona horaria indicada; si la hora inicial es mayor que la final el rango cruza la medianoche
+export default function HourRangeControl({ id, value, onChange, timeZone }: HourRangeControlProps) {
+  const update = (index: 0 | 1, text: string) => {
+    const hour = parseInt(text);
+    if (!isValidHour(hour)) return;
+    onChange(index === 0 ? [hour, value[1]] : [value[0], hour]);
+  };
+
+  return (
+    <div className="control-group">
+      <label htmlFor={`${id}-start`}>Rango de horas ({getTimeZoneLabel(timeZone)})</label>
+      <div className="range-controls">
+        <input
+          type="number"
+          id={`${id}-start`}
+          min="0"
+          max="23"
+          value={value[0]}
+          onChange={(e) => update(0, e.target.value)}
+        />
+        <span>a</span>
+        <input
+          type="number"
+          id={`${id}-end`}
+          aria-label="Hora final"
+          min="0"
+          max="23"
+          value={value[1]}
+          onChange={(e) => update(1, e.target.value)}
+        />
+      </div>
+      {value[0] > value[1] && (
+        <span className="time-range-help">De {value[0]}:00 a {value[1]}:59 del día siguiente</span>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,209 @@
+"use client";
+
+import { useRef, useState } from 'react';
+import { importPriceFile } from '@/lib/api';
+import type { ImportPreview } from '@/lib/importer';
+
+interface ImportDialogProps {
+  onImported: () => void; // Se llama tras fusionar los registros para recargar los datos
+  disabled?: boolean;      // Sin conexión con el servidor no se puede importar
+}
+
+// Textos de cada tipo de incidencia de validación
+const ISSUE_LABELS = {
+  'invalid-format': 'Formato',
+  'unknown-item': 'Item desconocido',
+  'bad-timestamp': 'Timestamp',
+  'bad-price': 'Precio'
+} as const;
+
+export default function ImportDialog({ onImported, disabled = false }: ImportDialogProps) {
+  const dialogRef = useRef<HTMLDialogElement>(null);
+  const [file, setFile] = useState<{ name: string; content: string } | null>(null);
+  const [allowUnknownItems, setAllowUnknownItems] = useState(false);
+  const [preview, setPreview] = useState<ImportPreview | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [result, setResult] = useState<string | null>(null);
+
+  const reset = () => {
+    setFile(null);
+    setPreview(null);
+    setError(null);
+    setResult(null);
+  };
+
+  // Función para pedir la vista previa del archivo sin escribir nada
+  const requestPreview = async (name: string, content: string, allowUnknown: boolean) => {
+    setLoading(true);
+    setError(null);
+    setResult(null);
+    try {
+      setPreview(await importPriceFile(content, name, true, allowUnknown));
+    } catch (err: unknown) {
+      setPreview(null);
+      setError(err instanceof Error ? err.message : 'Error desconocido al validar el archivo');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleFileChange = async (selected: File | undefined) => {
+    reset();
+    if (!selected) return;
+    const content = await selected.text();
+    setFile({ name: selected.name, content });
+    await requestPreview(selected.name, content, allowUnknownItems);
+  };
+
+  const handleAllowUnknownChange = (checked: boolean) => {
+    setAllowUnknownItems(checked);
+    if (file) requestPreview(file.name, file.content, checked);
+  };
+
+  const confirmImport = async () => {
+    if (!file) return;
+    setLoading(true);
+    setError(null);
+    try {
+      const imported = await importPriceFile(file.content, file.name, false, allowUnknownItems);
+      const added = Object.values(imported.written ?? {}).reduce((total, count) => total + count, 0);
+      setPreview(null);
+      setResult(`Se añadieron ${added} registros en ${Object.keys(imported.written ?? {}).length} archivos semanales`);
+      onImported();
+    } catch (err: unknown) {
+      setError(err instanceof Error ? err.message : 'Error desconocido al importar el archivo');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const newRecords = preview?.files.reduce((total, f) => total + f.newRecords, 0) ?? 0;
+
+  return (
+    <>
+      <button
+        type="button"
+        className="button button-secondary"
+        disabled={disabled}
+        onClick={() => {
+          reset();
+          dialogRef.current?.showModal();
+        }}
+      >
+        Importar historial
+      </button>
+
+      <dialog ref={dialogRef} className="import-dialog" aria-labelledby="import-dialog-title">
+        <div className="section-toolbar">
+          <h3 id="import-dialog-title">Importar historial de precios</h3>
+          <button type="button" className="button-icon" aria-label="Cerrar" onClick={() => dialogRef.current?.close()}>×</button>
+        </div>
+
+        <p className="time-range-help">
+          Archivos JSON con el formato de los archivos semanales o CSV con las columnas timestamp,item,price.
+          Los registros con un timestamp ya existente no se sobrescriben.
+        </p>
+
+        <div className="controls-grid">
+          <div className="control-group">
+            <label htmlFor="import-file">Archivo</label>
+            <input
+              type="file"
+              id="import-file"
+              accept=".json,.csv,application/json,text/csv"
+              onChange={(e) => handleFileChange(e.target.files?.[0])}
+            />
+          </div>
+          <div className="control-group">
+            <label>&nbsp;</label>
+            <div className="checkbox-item">
+              <input
+                type="checkbox"
+                id="import-allow-unknown"
+                checked={allowUnknownItems}
+                onChange={(e) => handleAllowUnknownChange(e.target.checked)}
+              />
+              <label htmlFor="import-allow-unknown">Permitir items nuevos</label>
+            </div>
+          </div>
+        </div>
+
+        {loading && <p className="muted">Procesando...</p>}
+        {error && <p className="import-error">{error}</p>}
+        {result && <p className="import-result">{result}</p>}
+
+        {preview && (
+          <>
+            <p>
+              {preview.validRecords} de {preview.totalRecords} registros válidos
+              {preview.items.length > 0 && ` (${preview.items.join(', ')})`}
+            </p>
+
+            {preview.issues.length > 0 && (
+              <div className="table-container">
+                <table className="data-table">
+                  <thead>
+                    <tr>
+                      <th>Tipo</th>
+                      <th>Item</th>
+                      <th>Posición</th>
+                      <th>Detalle</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {preview.issues.map((issue, i) => (
+                      <tr key={i}>
+                        <td><span className="badge badge-error">{ISSUE_LABELS[issue.kind]}</span></td>
+                        <td>{issue.item ?? '—'}</td>
+                        <td>{issue.index ?? '—'}</td>
+                        <td>{issue.message}</td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            )}
+
+            {preview.files.length > 0 && (
+              <div className="table-container">
+                <table className="data-table">
+                  <thead>
+                    <tr>
+                      <th>Archivo</th>
+                      <th>Nuevos</th>
+                      <th>Ya existentes</th>
+                      <th>Con otro precio</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {preview.files.map(f => (
+                      <tr key={f.filename}>
+                        <td>
+                          {f.filename}
+                          {!f.exists && <> <span className="badge badge-success">Nuevo</span></>}
+                        </td>
+                        <td>{f.newRecords}</td>
+                        <td>{f.duplicateRecords}</td>
+                        <td>{f.conflictingRecords}</td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            )}
+
+            <div className="section-toolbar">
+              <span className="muted">
+                {newRecords > 0 ? `Se añadirán ${newRecords} registros nuevos` : 'No hay registros nuevos que importar'}
+              </span>
+              <button type="button" className="button" disabled={loading || newRecords === 0} onClick={confirmImport}>
+                Confirmar importación
+              </button>
+            </div>
+          </>
+        )}
+      </dialog>
+    </>
+  );
+}
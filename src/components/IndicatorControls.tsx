@@ -0,0 +1,72 @@
+"use client";
+
+import type { IndicatorSettings } from '@/lib/indicators';
+
+interface IndicatorControlsProps {
+  settings: IndicatorSettings;
+  onChange: (settings: IndicatorSettings) => void;
+}
+
+// Nombres de cada indicador y de sus parámetros en horas
+const INDICATORS: { key: keyof IndicatorSettings; label: string; params: { key: string; label: string; step?: string }[] }[] = [
+  { key: 'sma', label: 'SMA', params: [{ key: 'windowHours', label: 'Ventana (h)' }] },
+  { key: 'ema', label: 'EMA', params: [{ key: 'windowHours', label: 'Periodo (h)' }] },
+  {
+    key: 'bollinger',
+    label: 'Bandas de Bollinger',
+    params: [{ key: 'windowHours', label: 'Ventana (h)' }, { key: 'deviations', label: 'Desviaciones (σ)', step: '0.5' }]
+  },
+  { key: 'rsi', label: 'RSI', params: [{ key: 'windowHours', label: 'Ventana (h)' }] },
+  {
+    key: 'macd',
+    label: 'MACD',
+    params: [
+      { key: 'fastHours', label: 'Rápida (h)' },
+      { key: 'slowHours', label: 'Lenta (h)' },
+      { key: 'signalHours', label: 'Señal (h)' }
+    ]
+  }
+];
+
+export default function IndicatorControls({ settings, onChange }: IndicatorControlsProps) {
+  const update = (key: keyof IndicatorSettings, changes: Record<string, number | boolean>) => {
+    onChange({ ...settings, [key]: { ...settings[key], ...changes } });
+  };
+
+  return (
+    <div className="controls-grid">
+      {INDICATORS.map(indicator => {
+        const values = settings[indicator.key] as unknown as Record<string, number | boolean>;
+        return (
+          <div key={indicator.key} className="control-group">
+            <div className="checkbox-item">
+              <input
+                type="checkbox"
+                id={`indicator-${indicator.key}`}
+                checked={settings[indicator.key].enabled}
+                onChange={(e) => update(indicator.key, { enabled: e.target.checked })}
+              />
+              <label htmlFor={`indicator-${indicator.key}`}>{indicator.label}</label>
+            </div>
+            {settings[indicator.key].enabled && indicator.params.map(param => (
+              <div key={param.key} className="time-range-controls">
+                <label htmlFor={`indicator-${indicator.key}-${param.key}`}>{param.label}</label>
+                <input
+                  type="number"
+                  id={`indicator-${indicator.key}-${param.key}`}
+                  min={param.step ?? '1'}
+                  step={param.step ?? '1'}
+                  value={values[param.key] as number}
+                  onChange={(e) => {
+                    const value = parseFloat(e.target.value);
+                    if (Number.isFinite(value) && value > 0) update(indicator.key, { [param.key]: value });
+                  }}
+                />
+              </div>
+            ))}
+          </div>
+        );
+      })}
+    </div>
+  );
+}
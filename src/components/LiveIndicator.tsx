@@ -0,0 +1,24 @@
+"use client";
+
+import type { StreamStatus } from '@/lib/api';
+
+interface LiveIndicatorProps {
+  status: StreamStatus;
+  lastUpdate: Date | null;
+}
+
+const STATUS_LABELS: Record<StreamStatus, string> = {
+  connecting: 'Conectando…',
+  live: 'En vivo',
+  reconnecting: 'Reconectando…'
+};
+
+export default function LiveIndicator({ status, lastUpdate }: LiveIndicatorProps) {
+  return (
+    <span className={`live-indicator live-indicator-${status}`} role="status">
+      <span className="live-indicator-dot" aria-hidden="true" />
+      {STATUS_LABELS[status]}
+      {lastUpdate && ` · Última actualización ${lastUpdate.toLocaleTimeString()}`}
+    </span>
+  );
+}
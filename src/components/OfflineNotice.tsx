@@ -0,0 +1,25 @@
+"use client";
+
+interface OfflineNoticeProps {
+  syncedAt: Date | null; // Último dato recibido del servidor
+  retrying: boolean;
+  onRetry: () => void;
+}
+
+export default function OfflineNotice({ syncedAt, retrying, onRetry }: OfflineNoticeProps) {
+  return (
+    <article className="offline-notice" role="status">
+      <div>
+        <strong>Sin conexión con el servidor</strong>
+        <p>
+          Se muestran los datos guardados en este navegador
+          {syncedAt ? `, desactualizados desde el ${syncedAt.toLocaleString()}` : ''}.
+          El dashboard funciona en modo de solo lectura hasta que vuelva la conexión.
+        </p>
+      </div>
+      <button type="button" className="button button-secondary" disabled={retrying} onClick={onRetry}>
+        {retrying ? 'Reintentando…' : 'Reintentar'}
+      </button>
+    </article>
+  );
+}
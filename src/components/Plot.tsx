@@ -0,0 +1,209 @@
+"use client";
+
+import dynamic from 'next/dynamic';
+
+// Valores de un eje: fechas, textos (categorías o fechas con zona) o números
+export type PlotValue = string | number | Date | null;
+
+// Interfaces para Plot
+export interface PlotData {
+  x: PlotValue[];
+  y?: PlotValue[] | Float64Array; // Los resultados del worker de agregaciones llegan como Float64Array
+  z?: (number | null)[][];
+  type: string;
+  mode?: string;
+  name?: string;
+  colorscale?: string;
+  reversescale?: boolean;
+  zmin?: number;
+  zmax?: number;
+  open?: number[] | Float64Array;
+  high?: number[] | Float64Array;
+  low?: number[] | Float64Array;
+  close?: number[] | Float64Array;
+  increasing?: {line: {color: string}};
+  decreasing?: {line: {color: string}};
+  fill?: string;
+  fillcolor?: string;
+  line?: {color: string; width?: number; dash?: string};
+  marker?: {size?: number; color?: string; opacity?: number; symbol?: string};
+  showlegend?: boolean;
+  text?: (string | number)[][] | (string | number)[];
+  texttemplate?: string;
+  textfont?: {size: number};
+  hovertemplate?: string;
+  yaxis?: string;
+}
+
+export interface PlotShape {
+  type: 'rect' | 'line';
+  xref: 'x';
+  yref: 'paper';
+  x0: Date | string | number;
+  x1: Date | string | number;
+  y0: number;
+  y1: number;
+  fillcolor?: string;
+  line?: { width: number; color?: string };
+  layer?: 'below' | 'above';
+}
+
+export interface PlotProps {
+  data: PlotData[];
+  layout: {
+    title: string | { text: string; font?: { color: string; size: number } };
+    xaxis: { 
+      title: string | { text: string; font?: { color: string } };
+      type?: string;
+      gridcolor?: string;
+      tickfont?: { color: string };
+      rangeslider?: { visible: boolean };
+    };
+    yaxis?: { 
+      title: string | { text: string; font?: { color: string } };
+      gridcolor?: string;
+      tickfont?: { color: string };
+      domain?: [number, number];
+    };
+    yaxis2?: { 
+      title: string | { text: string; font?: { color: string } };
+      overlaying?: string;
+      side?: string;
+      anchor?: string;
+      domain?: [number, number];
+      gridcolor?: string;
+      tickfont?: { color: string };
+    };
+    yaxis3?: { 
+      title: string | { text: string; font?: { color: string } };
+      overlaying?: string;
+      side?: string;
+      anchor?: string;
+      domain?: [number, number];
+      gridcolor?: string;
+      tickfont?: { color: string };
+    };
+    height: number;
+    autosize: boolean;
+    shapes?: PlotShape[];
+    showlegend?: boolean;
+    hovermode?: string;
+    plot_bgcolor?: string;
+    paper_bgcolor?: string;
+    font?: { color: string };
+    legend?: {
+      font?: { color: string };
+      bgcolor?: string;
+      bordercolor?: string;
+      borderwidth?: number;
+    };
+  };
+  useResizeHandler: boolean;
+  style: { width: string; height: string };
+  config?: Record<string, unknown>;
+  onClick?: (event: { points: { x: PlotValue; y: PlotValue }[] }) => void;
+}
+
+// Carga dinámica de Plotly para que no afecte la carga inicial de la página
+const Plot = dynamic(() => import('react-plotly.js'), { ssr: false }) as React.ComponentType<PlotProps>;
+
+export default Plot;
+
+// Colores para los gráficos
+export const CHART_COLORS = [
+  '#00d4ff', '#6366f1', '#10b981', '#f59e0b', '#ef4444',
+  '#8b5cf6', '#06b6d4', '#84cc16', '#f97316', '#ec4899'
+];
+
+// Función para obtener layout de Plotly con tema oscuro
+export const getPlotLayout = (title: string, xAxisTitle: string, yAxisTitle: string = 'Precio ($)', isDual: boolean = false, isCandles: boolean = false) => {
+  const baseLayout = {
+    title: {
+      text: title,
+      font: { color: '#ffffff', size: 18 }
+    },
+    xaxis: { 
+      title: { text: xAxisTitle, font: { color: '#94a3b8' } },
+      type: 'date' as const,
+      gridcolor: '#334155',
+      tickfont: { color: '#94a3b8' }
+    },
+    yaxis: { 
+      title: { text: yAxisTitle, font: { color: '#94a3b8' } },
+      gridcolor: '#334155',
+      tickfont: { color: '#94a3b8' }
+    },
+    height: 500,
+    autosize: true,
+    hovermode: 'x unified' as const,
+    plot_bgcolor: 'rgba(0,0,0,0)',
+    paper_bgcolor: 'rgba(0,0,0,0)',
+    font: { color: '#ffffff' },
+    showlegend: true,
+    legend: {
+      font: { color: '#94a3b8' },
+      bgcolor: 'rgba(26, 31, 46, 0.8)',
+      bordercolor: '#334155',
+      borderwidth: 1
+    }
+  };
+
+  if (isCandles) {
+    // Velas arriba y subgráfico de muestras debajo, compartiendo el eje X
+    return {
+      ...baseLayout,
+      xaxis: { ...baseLayout.xaxis, rangeslider: { visible: false } },
+      yaxis: { ...baseLayout.yaxis, domain: [0.28, 1] as [number, number] },
+      yaxis2: {
+        title: { text: 'Muestras', font: { color: '#94a3b8' } },
+        anchor: 'x',
+        domain: [0, 0.2] as [number, number],
+        gridcolor: '#334155',
+        tickfont: { color: '#94a3b8' }
+      }
+    };
+  }
+
+  if (isDual) {
+    return {
+      ...baseLayout,
+      yaxis2: {
+        title: { text: 'Precio ($)', font: { color: '#94a3b8' } },
+        overlaying: 'y',
+        side: 'right',
+        gridcolor: '#334155',
+        tickfont: { color: '#94a3b8' }
+      }
+    };
+  }
+
+  return baseLayout;
+};
+
+// Función para obtener un layout con subgráficos apilados bajo el principal (hasta dos)
+// Los subgráficos usan yaxis2 y yaxis3 y comparten el eje X.
+export const getSubplotLayout = (title: string, xAxisTitle: string, subplotTitles: string[]) => {
+  const baseLayout = getPlotLayout(title, xAxisTitle);
+  if (subplotTitles.length === 0) return baseLayout;
+
+  const subplotHeight = 0.2;
+  const gap = 0.05;
+  const getAxis = (index: number) => {
+    const bottom = (subplotTitles.length - 1 - index) * (subplotHeight + gap);
+    return {
+      title: { text: subplotTitles[index], font: { color: '#94a3b8' } },
+      anchor: 'x',
+      domain: [bottom, bottom + subplotHeight] as [number, number],
+      gridcolor: '#334155',
+      tickfont: { color: '#94a3b8' }
+    };
+  };
+
+  return {
+    ...baseLayout,
+    yaxis: { ...baseLayout.yaxis, domain: [subplotTitles.length * (subplotHeight + gap), 1] as [number, number] },
+    yaxis2: getAxis(0),
+    ...(subplotTitles.length > 1 ? { yaxis3: getAxis(1) } : {}),
+    height: 500 + 150 * subplotTitles.length
+  };
+};
@@ -0,0 +1,334 @@
+"use client";
+
+import { useEffect, useMemo, useRef, useState } from 'react';
+import {
+  TRANSACTION_TYPE_LABELS,
+  computePositions,
+  createTransaction,
+  exportPortfolio,
+  findOversell,
+  getPortfolioTotals,
+  getPortfolioValueCurve,
+  loadTransactions,
+  parsePortfolio,
+  saveTransactions,
+  type PortfolioTransaction,
+  type TransactionType
+} from '@/lib/portfolio';
+import type { FlatDataItem } from '@/lib/types';
+import Plot, { CHART_COLORS, getPlotLayout, type PlotData } from '@/components/Plot';
+
+interface PortfolioTrackerProps {
+  data: FlatDataItem[];
+  items: string[];
+  currentPrices: Record<string, number>;
+}
+
+const capitalize = (item: string) => item.charAt(0).toUpperCase() + item.slice(1);
+
+const formatMoney = (value: number) => `${value < 0 ? '-' : ''}$${Math.abs(value).toFixed(2)}`;
+
+const pnlClass = (value: number) => value > 0 ? 'badge badge-success' : value < 0 ? 'badge badge-error' : 'badge';
+
+// Función para obtener la fecha y hora local actual en el formato de <input type="datetime-local">
+const getLocalDateTime = (date: Date = new Date()): string => {
+  const local = new Date(date.getTime() - date.getTimezoneOffset() * 60000);
+  return local.toISOString().slice(0, 16);
+};
+
+export default function PortfolioTracker({ data, items, currentPrices }: PortfolioTrackerProps) {
+  const [transactions, setTransactions] = useState<PortfolioTransaction[]>(() => loadTransactions());
+  const [message, setMessage] = useState<{ type: 'success' | 'error'; text: string } | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  // Estado del formulario de nueva transacción
+  const [newItem, setNewItem] = useState<string>(items[0] ?? '');
+  const [newType, setNewType] = useState<TransactionType>('buy');
+  const [newQuantity, setNewQuantity] = useState<number>(1);
+  const [newPrice, setNewPrice] = useState<number>(currentPrices[items[0]] ?? 0);
+  const [newTime, setNewTime] = useState<string>(() => getLocalDateTime());
+
+  useEffect(() => saveTransactions(transactions), [transactions]);
+
+  const positions = useMemo(() => computePositions(transactions, currentPrices), [transactions, currentPrices]);
+  const totals = useMemo(() => getPortfolioTotals(positions), [positions]);
+  const curve = useMemo(() => getPortfolioValueCurve(transactions, data), [transactions, data]);
+
+  // Función para sustituir las transacciones si ninguna venta supera lo que hay en cartera
+  const updateTransactions = (next: PortfolioTransaction[], successText?: string): boolean => {
+    const oversell = findOversell(next);
+    if (oversell) {
+      setMessage({
+        type: 'error',
+        text: `La venta de ${oversell.quantity} ${oversell.item} del ${new Date(oversell.time).toLocaleString()} supera las unidades en cartera`
+      });
+      return false;
+    }
+    setTransactions(next);
+    setMessage(successText ? { type: 'success', text: successText } : null);
+    return true;
+  };
+
+  const handleItemChange = (item: string) => {
+    setNewItem(item);
+    if (currentPrices[item] !== undefined) setNewPrice(currentPrices[item]);
+  };
+
+  const addTransaction = () => {
+    const time = new Date(newTime);
+    if (!newItem || !(newQuantity > 0) || !(newPrice >= 0) || isNaN(time.getTime())) {
+      setMessage({ type: 'error', text: 'Completa item, cantidad, precio y fecha' });
+      return;
+    }
+    updateTransactions([
+      ...transactions,
+      createTransaction({ item: newItem, type: newType, quantity: newQuantity, price: newPrice, time: time.toISOString() })
+    ]);
+  };
+
+  const handleExport = () => {
+    const blob = new Blob([exportPortfolio(transactions)], { type: 'application/json' });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `portfolio_${new Date().toISOString().split('T')[0]}.json`;
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  // Las transacciones importadas sustituyen a las que tienen el mismo id y se añaden las demás
+  const handleImport = async (file: File | undefined) => {
+    if (!file) return;
+    try {
+      const imported = parsePortfolio(await file.text());
+      const importedIds = new Set(imported.map(t => t.id));
+      updateTransactions(
+        [...transactions.filter(t => !importedIds.has(t.id)), ...imported],
+        `Se importaron ${imported.length} transacciones`
+      );
+    } catch (error) {
+      setMessage({ type: 'error', text: error instanceof Error ? error.message : String(error) });
+    } finally {
+      if (fileInputRef.current) fileInputRef.current.value = '';
+    }
+  };
+
+  const chartData = useMemo(() => {
+    if (curve.length === 0) return [];
+    return [
+      {
+        x: curve.map(p => p.time),
+        y: curve.map(p => p.marketValue),
+        type: 'scatter',
+        mode: 'lines',
+        name: 'Valor de mercado',
+        line: { color: CHART_COLORS[0], width: 3 },
+        hovertemplate: '<b>%{fullData.name}</b><br>Fecha: %{x}<br>Valor: $%{y:.2f}<extra></extra>'
+      },
+      {
+        x: curve.map(p => p.time),
+        y: curve.map(p => p.costBasis),
+        type: 'scatter',
+        mode: 'lines',
+        name: 'Coste',
+        line: { color: CHART_COLORS[3], width: 2, dash: 'dash' },
+        hovertemplate: '<b>%{fullData.name}</b><br>Fecha: %{x}<br>Coste: $%{y:.2f}<extra></extra>'
+      },
+      {
+        x: curve.map(p => p.time),
+        y: curve.map(p => p.marketValue - p.costBasis + p.realizedPnl),
+        type: 'scatter',
+        mode: 'lines',
+        name: 'P&L total (Eje Der.)',
+        fill: 'tozeroy',
+        fillcolor: 'rgba(16, 185, 129, 0.15)',
+        line: { color: CHART_COLORS[2], width: 2 },
+        hovertemplate: '<b>%{fullData.name}</b><br>Fecha: %{x}<br>P&L: $%{y:.2f}<extra></extra>',
+        yaxis: 'y2'
+      }
+    ] as PlotData[];
+  }, [curve]);
+
+  return (
+    <>
+      <div className="prices-grid">
+        {[
+          { label: 'Valor actual', value: totals.marketValue },
+          { label: 'Coste', value: totals.costBasis },
+          { label: 'P&L no realizado', value: totals.unrealizedPnl },
+          { label: 'P&L realizado', value: totals.realizedPnl }
+        ].map(({ label, value }) => (
+          <div key={label} className="price-item">
+            <span className="item-name">{label}</span>
+            <span className="item-price">{formatMoney(value)}</span>
+          </div>
+        ))}
+      </div>
+      {totals.unpricedItems.length > 0 && (
+        <p className="muted">Sin precio de mercado para {totals.unpricedItems.map(capitalize).join(', ')}: no se incluyen en el valor actual.</p>
+      )}
+
+      <div className="controls-grid">
+        <div className="control-group">
+          <label htmlFor="portfolio-item">Item</label>
+          <select id="portfolio-item" value={newItem} onChange={(e) => handleItemChange(e.target.value)}>
+            {items.map(item => (
+              <option key={item} value={item}>{capitalize(item)}</option>
+            ))}
+          </select>
+        </div>
+        <div className="control-group">
+          <label htmlFor="portfolio-type">Operación</label>
+          <select id="portfolio-type" value={newType} onChange={(e) => setNewType(e.target.value as TransactionType)}>
+            {Object.entries(TRANSACTION_TYPE_LABELS).map(([type, label]) => (
+              <option key={type} value={type}>{label}</option>
+            ))}
+          </select>
+        </div>
+        <div className="control-group">
+          <label htmlFor="portfolio-quantity">Cantidad</label>
+          <input
+            type="number"
+            id="portfolio-quantity"
+            min="0"
+            step="any"
+            value={newQuantity}
+            onChange={(e) => setNewQuantity(parseFloat(e.target.value))}
+          />
+        </div>
+        <div className="control-group">
+          <label htmlFor="portfolio-price">Precio unitario ($)</label>
+          <input
+            type="number"
+            id="portfolio-price"
+            min="0"
+            step="any"
+            value={newPrice}
+            onChange={(e) => setNewPrice(parseFloat(e.target.value))}
+          />
+        </div>
+        <div className="control-group">
+          <label htmlFor="portfolio-time">Fecha</label>
+          <input type="datetime-local" id="portfolio-time" value={newTime} onChange={(e) => setNewTime(e.target.value)} />
+        </div>
+        <div className="control-group">
+          <label>&nbsp;</label>
+          <button type="button" className="button" onClick={addTransaction}>Añadir operación</button>
+        </div>
+      </div>
+
+      {message && <p className={message.type === 'error' ? 'import-error' : 'import-result'}>{message.text}</p>}
+
+      <div className="table-container">
+        <table className="data-table">
+          <thead>
+            <tr>
+              <th>Item</th>
+              <th>Cantidad</th>
+              <th>Coste medio</th>
+              <th>Precio actual</th>
+              <th>Valor</th>
+              <th>P&L no realizado</th>
+              <th>P&L realizado</th>
+            </tr>
+          </thead>
+          <tbody>
+            {positions.length === 0 && (
+              <tr>
+                <td colSpan={7} className="muted">No hay operaciones registradas</td>
+              </tr>
+            )}
+            {positions.map(position => (
+              <tr key={position.item}>
+                <td>{capitalize(position.item)}</td>
+                <td>{position.quantity}</td>
+                <td>{position.quantity > 0 ? formatMoney(position.averageCost) : '—'}</td>
+                <td>{position.currentPrice !== null ? formatMoney(position.currentPrice) : '—'}</td>
+                <td>{position.marketValue !== null ? formatMoney(position.marketValue) : '—'}</td>
+                <td>
+                  {position.unrealizedPnl !== null && position.quantity > 0
+                    ? <span className={pnlClass(position.unrealizedPnl)}>{formatMoney(position.unrealizedPnl)}</span>
+                    : '—'}
+                </td>
+                <td><span className={pnlClass(position.realizedPnl)}>{formatMoney(position.realizedPnl)}</span></td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+
+      <div className="plot-container">
+        <Plot
+          data={chartData}
+          layout={getPlotLayout('Valor Histórico de la Cartera', 'Fecha y Hora', 'Valor ($)', true)}
+          useResizeHandler={true}
+          style={{ width: '100%', height: '100%' }}
+          config={{ displayModeBar: false }}
+        />
+      </div>
+
+      <div className="section-toolbar">
+        <h3>Operaciones</h3>
+        <div className="button-row">
+          <button type="button" className="button button-secondary" disabled={transactions.length === 0} onClick={handleExport}>
+            Exportar JSON
+          </button>
+          <label className="button button-secondary">
+            Importar JSON
+            <input
+              ref={fileInputRef}
+              type="file"
+              accept=".json,application/json"
+              hidden
+              onChange={(e) => handleImport(e.target.files?.[0])}
+            />
+          </label>
+        </div>
+      </div>
+      <div className="table-container">
+        <table className="data-table">
+          <thead>
+            <tr>
+              <th>Fecha</th>
+              <th>Operación</th>
+              <th>Item</th>
+              <th>Cantidad</th>
+              <th>Precio</th>
+              <th>Total</th>
+              <th></th>
+            </tr>
+          </thead>
+          <tbody>
+            {transactions.length === 0 && (
+              <tr>
+                <td colSpan={7} className="muted">No hay operaciones registradas</td>
+              </tr>
+            )}
+            {[...transactions]
+              .sort((a, b) => new Date(b.time).getTime() - new Date(a.time).getTime())
+              .map(transaction => (
+                <tr key={transaction.id}>
+                  <td>{new Date(transaction.time).toLocaleString()}</td>
+                  <td>{TRANSACTION_TYPE_LABELS[transaction.type]}</td>
+                  <td>{capitalize(transaction.item)}</td>
+                  <td>{transaction.quantity}</td>
+                  <td>{formatMoney(transaction.price)}</td>
+                  <td>{formatMoney(transaction.quantity * transaction.price)}</td>
+                  <td>
+                    <button
+                      type="button"
+                      className="button-icon"
+                      aria-label="Eliminar operación"
+                      onClick={() => updateTransactions(transactions.filter(t => t.id !== transaction.id))}
+                    >
+                      ×
+                    </button>
+                  </td>
+                </tr>
+              ))}
+          </tbody>
+        </table>
+      </div>
+    </>
+  );
+}
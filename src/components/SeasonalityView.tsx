@@ -0,0 +1,131 @@
+"use client";
+
+import { useMemo, useState } from 'react';
+import { getHoursInRange, type HourRange } from '@/lib/hourRange';
+import {
+  MIN_CELL_COUNT,
+  WEEKDAY_LABELS,
+  getBestHours,
+  getHourlySeasonality,
+  getWeekdaySeasonality
+} from '@/lib/seasonality';
+import { getTimeZoneLabel } from '@/lib/timezone';
+import type { FlatDataItem } from '@/lib/types';
+import HourRangeControl from '@/components/HourRangeControl';
+import Plot, { getPlotLayout } from '@/components/Plot';
+
+interface SeasonalityViewProps {
+  data: FlatDataItem[];
+  timeZone: string; // Zona con la que se calcularon el día y la hora de los datos
+  id?: string; // Prefijo de los ids de los controles, para poder mostrar varias vistas
+}
+
+const capitalize = (item: string) => item.charAt(0).toUpperCase() + item.slice(1);
+
+const formatDeviation = (value: number) => `${value > 0 ? '+' : ''}${value.toFixed(2)}%`;
+
+export default function SeasonalityView({ data, timeZone, id = 'seasonality' }: SeasonalityViewProps) {
+  const [mode, setMode] = useState<'hour' | 'weekday'>('hour');
+  const [hourRange, setHourRange] = useState<HourRange>([0, 23]);
+
+  const hourly = useMemo(() => getHourlySeasonality(data, getHoursInRange(hourRange)), [data, hourRange]);
+  const weekday = useMemo(() => getWeekdaySeasonality(data, hourRange), [data, hourRange]);
+  const recommendations = useMemo(() => getBestHours(hourly), [hourly]);
+
+  const grid = mode === 'hour' ? hourly : weekday;
+  const bucketLabels = mode === 'hour'
+    ? grid.buckets.map(hour => `${hour}:00`)
+    : grid.buckets.map(day => WEEKDAY_LABELS[day]);
+
+  // Escala simétrica para que el 0 (media del día) quede siempre en el centro del color
+  const maxAbs = grid.mean.flat().reduce<number>((max, value) => Math.max(max, Math.abs(value ?? 0)), 0.1);
+  const layout = getPlotLayout(
+    mode === 'hour' ? 'Desviación Media sobre la Media Diaria por Hora' : 'Desviación Media sobre la Media Diaria por Día de la Semana',
+    `${mode === 'hour' ? 'Hora del Día' : 'Día de la Semana'} (${getTimeZoneLabel(timeZone)})`,
+    'Items'
+  );
+
+  return (
+    <>
+      <div className="controls-grid">
+        <div className="control-group">
+          <label>Agrupar por</label>
+          <div className="radio-group">
+            <div className="radio-item">
+              <input type="radio" id={`${id}-hour`} checked={mode === 'hour'} onChange={() => setMode('hour')} />
+              <label htmlFor={`${id}-hour`}>Hora del día</label>
+            </div>
+            <div className="radio-item">
+              <input type="radio" id={`${id}-weekday`} checked={mode === 'weekday'} onChange={() => setMode('weekday')} />
+              <label htmlFor={`${id}-weekday`}>Día de la semana</label>
+            </div>
+          </div>
+        </div>
+        <HourRangeControl id={`${id}-hours`} value={hourRange} onChange={setHourRange} timeZone={timeZone} />
+      </div>
+
+      <div className="plot-container">
+        <Plot
+          data={[{
+            x: bucketLabels,
+            y: grid.items.map(capitalize),
+            z: grid.mean,
+            text: grid.mean.map((row, i) => row.map((value, j) =>
+              value === null ? '' : `${formatDeviation(value)}<br>n=${grid.count[i][j]}`
+            )),
+            texttemplate: '%{text}',
+            textfont: { size: 9 },
+            type: 'heatmap',
+            colorscale: 'RdBu',
+            reversescale: true,
+            zmin: -maxAbs,
+            zmax: maxAbs,
+            hovertemplate: '<b>%{y}</b><br>%{x}<br>Desviación: %{z:.2f}%<extra></extra>'
+          }]}
+          layout={{
+            ...layout,
+            xaxis: { ...layout.xaxis, type: 'category' },
+            hovermode: 'closest',
+            height: 600
+          }}
+          useResizeHandler={true}
+          style={{ width: '100%', height: '100%' }}
+          config={{ displayModeBar: false }}
+        />
+      </div>
+
+      <div className="section-toolbar">
+        <h3>Mejores horas de compra y venta</h3>
+      </div>
+      <div className="table-container">
+        <table className="data-table">
+          <thead>
+            <tr>
+              <th>Item</th>
+              <th>Comprar</th>
+              <th>Vender</th>
+              <th>Diferencia</th>
+              <th>Muestras</th>
+            </tr>
+          </thead>
+          <tbody>
+            {recommendations.length === 0 && (
+              <tr>
+                <td colSpan={5} className="muted">No hay suficientes muestras por hora (mínimo {MIN_CELL_COUNT})</td>
+              </tr>
+            )}
+            {recommendations.map(r => (
+              <tr key={r.item}>
+                <td>{capitalize(r.item)}</td>
+                <td>{r.buyHour}:00 ({formatDeviation(r.buyDeviation)})</td>
+                <td>{r.sellHour}:00 ({formatDeviation(r.sellDeviation)})</td>
+                <td>{r.spread.toFixed(2)} pp</td>
+                <td className={r.minCount < MIN_CELL_COUNT * 2 ? 'muted' : undefined}>{r.minCount}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+    </>
+  );
+}
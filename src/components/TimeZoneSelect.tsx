@@ -0,0 +1,33 @@
+"use client";
+
+import { useMemo } from 'react';
+import {
+  BROWSER_TIME_ZONE,
+  getBrowserTimeZone,
+  getTimeZoneLabel,
+  getTimeZoneOptions,
+  type TimeZoneSetting
+} from '@/lib/timezone';
+
+interface TimeZoneSelectProps {
+  value: TimeZoneSetting;
+  onChange: (value: TimeZoneSetting) => void;
+}
+
+// Selector de la zona horaria con la que se agrupan días y horas y se muestran las fechas
+export default function TimeZoneSelect({ value, onChange }: TimeZoneSelectProps) {
+  const zones = useMemo(() => getTimeZoneOptions(), []);
+
+  return (
+    <span className="timezone-select">
+      <label htmlFor="timezone-select">Zona horaria</label>
+      <select id="timezone-select" value={value} onChange={(e) => onChange(e.target.value)}>
+        <option value={BROWSER_TIME_ZONE}>Navegador ({getTimeZoneLabel(getBrowserTimeZone())})</option>
+        <option value="UTC">UTC</option>
+        {zones.map(zone => (
+          <option key={zone} value={zone}>{getTimeZoneLabel(zone)}</option>
+        ))}
+      </select>
+    </span>
+  );
+}
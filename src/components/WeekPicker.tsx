@@ -0,0 +1,162 @@
+"use client";
+
+import { useState } from 'react';
+import type { WeekFileSummary } from '@/lib/types';
+
+type PickerMode = 'single' | 'multiple' | 'last';
+
+interface WeekPickerProps {
+  files: WeekFileSummary[]; // Ordenados del más reciente al más antiguo
+  selected: string[];
+  loading?: boolean;
+  onChange: (filenames: string[]) => void;
+}
+
+// Función para dar formato a una fecha como DD/MM/YYYY (UTC)
+const formatDay = (iso: string): string => {
+  const [year, month, day] = iso.slice(0, 10).split('-');
+  return `${day}/${month}/${year}`;
+};
+
+// Función para obtener la etiqueta de un archivo con su periodo y registros
+export const getWeekLabel = (file: WeekFileSummary): string => {
+  const name = file.format === 'iso-week'
+    ? `Semana ${file.filename.replace(/^prices_|\.json$/g, '')}`
+    : file.filename;
+  // `end` es exclusivo: se muestra el último día incluido
+  const lastDay = new Date(new Date(file.end).getTime() - 1).toISOString();
+  return `${name} · ${formatDay(file.start)} – ${formatDay(lastDay)} · ${file.records.toLocaleString('es-ES')} registros`;
+};
+
+export default function WeekPicker({ files, selected, loading = false, onChange }: WeekPickerProps) {
+  const [mode, setMode] = useState<PickerMode>(() => {
+    if (selected.length === 1) return 'single';
+    const isLatest = selected.every((filename, index) => files[index]?.filename === filename);
+    return isLatest ? 'last' : 'multiple';
+  });
+  const [lastCount, setLastCount] = useState<number>(Math.max(1, selected.length));
+
+  const handleModeChange = (newMode: PickerMode) => {
+    setMode(newMode);
+    if (newMode === 'single') {
+      onChange(selected.length > 0 ? selected.slice(0, 1) : files.slice(0, 1).map(f => f.filename));
+    } else if (newMode === 'last') {
+      onChange(files.slice(0, lastCount).map(f => f.filename));
+    }
+  };
+
+  const handleLastCountChange = (value: number) => {
+    const count = Math.min(Math.max(1, value || 1), Math.max(1, files.length));
+    setLastCount(count);
+    onChange(files.slice(0, count).map(f => f.filename));
+  };
+
+  const toggleFile = (filename: string, checked: boolean) => {
+    const next = checked ? [...selected, filename] : selected.filter(f => f !== filename);
+    // Mantener el orden de la lista de archivos y al menos una semana seleccionada
+    if (next.length === 0) return;
+    onChange(files.map(f => f.filename).filter(f => next.includes(f)));
+  };
+
+  if (files.length === 0) {
+    return <p className="time-range-help">No hay archivos de precios disponibles.</p>;
+  }
+
+  const totalRecords = files
+    .filter(f => selected.includes(f.filename))
+    .reduce((sum, f) => sum + f.records, 0);
+
+  return (
+    <div className="controls-grid week-picker" aria-busy={loading}>
+      <div className="control-group">
+        <label>Semanas cargadas</label>
+        <div className="radio-group">
+          <div className="radio-item">
+            <input
+              type="radio"
+              id="week-mode-single"
+              value="single"
+              checked={mode === 'single'}
+              onChange={() => handleModeChange('single')}
+            />
+            <label htmlFor="week-mode-single">Una semana</label>
+          </div>
+          <div className="radio-item">
+            <input
+              type="radio"
+              id="week-mode-multiple"
+              value="multiple"
+              checked={mode === 'multiple'}
+              onChange={() => handleModeChange('multiple')}
+            />
+            <label htmlFor="week-mode-multiple">Varias semanas</label>
+          </div>
+          <div className="radio-item">
+            <input
+              type="radio"
+              id="week-mode-last"
+              value="last"
+              checked={mode === 'last'}
+              onChange={() => handleModeChange('last')}
+            />
+            <label htmlFor="week-mode-last">Últimas N semanas</label>
+          </div>
+        </div>
+        <span className="time-range-help">
+          {loading ? 'Cargando semanas...' : `${selected.length} semana(s) · ${totalRecords.toLocaleString('es-ES')} registros`}
+        </span>
+      </div>
+
+      {mode === 'single' && (
+        <div className="control-group">
+          <label htmlFor="week-select">Semana</label>
+          <select
+            id="week-select"
+            value={selected[0] ?? ''}
+            onChange={(e) => onChange([e.target.value])}
+            disabled={loading}
+          >
+            {files.map(file => (
+              <option key={file.filename} value={file.filename}>{getWeekLabel(file)}</option>
+            ))}
+          </select>
+        </div>
+      )}
+
+      {mode === 'multiple' && (
+        <div className="control-group">
+          <label>Semanas</label>
+          <div className="checkbox-group">
+            {files.map(file => (
+              <div key={file.filename} className="checkbox-item">
+                <input
+                  type="checkbox"
+                  id={`week-${file.filename}`}
+                  checked={selected.includes(file.filename)}
+                  disabled={loading}
+                  onChange={(e) => toggleFile(file.filename, e.target.checked)}
+                />
+                <label htmlFor={`week-${file.filename}`}>{getWeekLabel(file)}</label>
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+
+      {mode === 'last' && (
+        <div className="control-group">
+          <label htmlFor="week-last-count">Número de semanas</label>
+          <input
+            type="number"
+            id="week-last-count"
+            min="1"
+            max={files.length}
+            value={lastCount}
+            disabled={loading}
+            onChange={(e) => handleLastCountChange(parseInt(e.target.value))}
+          />
+        </div>
+      )}
+    </div>
+  );
+}
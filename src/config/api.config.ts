@@ -1,10 +1,12 @@
 export const API_CONFIG = {
-  baseUrl: 'https://api2.warera.io/trpc/itemTrading.getPrices',
+  // Se puede sobrescribir con WARERA_API_URL (por ejemplo, para apuntar a un servidor local de pruebas)
+  baseUrl: process.env.WARERA_API_URL || 'https://api2.warera.io/trpc/itemTrading.getPrices',
   updateInterval: 60 * 1000, // Cambiado a 1 minuto para pruebas
   maxRetries: 3,
   retryDelay: 5000, // 5 segundos
+  requestTimeout: 10000, // 10 segundos por intento
   headers: {
     'Content-Type': 'application/json',
     'Accept': 'application/json',
   }
-}; 
\ No newline at end of file
+};
@@ -0,0 +1,27 @@
+// Recetas de fabricación de los items seguidos
+// Cada receta indica los insumos (item y cantidad) necesarios para producir
+// `outputQuantity` unidades de `output`. Las cantidades son de referencia:
+// ajustarlas aquí si el juego cambia sus recetas.
+
+export interface RecipeInput {
+  item: string;
+  quantity: number;
+}
+
+export interface Recipe {
+  output: string;
+  outputQuantity: number;
+  inputs: RecipeInput[];
+  extraCost?: number; // Coste fijo adicional por lote (opcional)
+}
+
+export const RECIPES: Recipe[] = [
+  { output: 'bread', outputQuantity: 1, inputs: [{ item: 'grain', quantity: 10 }] },
+  { output: 'steak', outputQuantity: 1, inputs: [{ item: 'livestock', quantity: 1 }] },
+  { output: 'cookedfish', outputQuantity: 1, inputs: [{ item: 'fish', quantity: 1 }] },
+  { output: 'cocain', outputQuantity: 1, inputs: [{ item: 'coca', quantity: 200 }] },
+  { output: 'steel', outputQuantity: 1, inputs: [{ item: 'iron', quantity: 10 }] },
+  { output: 'ammo', outputQuantity: 1, inputs: [{ item: 'lead', quantity: 1 }] },
+  { output: 'heavyammo', outputQuantity: 1, inputs: [{ item: 'lead', quantity: 4 }] },
+  { output: 'concrete', outputQuantity: 1, inputs: [{ item: 'limestone', quantity: 10 }] }
+];
@@ -0,0 +1,10 @@
+import path from 'path';
+
+// Configuración del almacenamiento del historial de precios
+// PRICE_STORE=json usa los archivos semanales de public/data; por defecto se usa SQLite.
+export const STORAGE_CONFIG = {
+  backend: (process.env.PRICE_STORE === 'json' ? 'json' : 'sqlite') as 'json' | 'sqlite',
+  sqlitePath: process.env.PRICE_DB_PATH || path.join(process.cwd(), 'data', 'prices.db'),
+  // Al abrir una base de datos vacía se importan los archivos JSON existentes
+  migrateOnEmpty: process.env.PRICE_DB_MIGRATE !== 'off',
+};
@@ -0,0 +1,7 @@
+// Configuración del flujo de precios en vivo (/api/stream, Server-Sent Events)
+export const STREAM_CONFIG = {
+  heartbeatInterval: 20 * 1000, // Comentario periódico para que proxies y navegador no cierren la conexión
+  retryDelay: 5000, // Espera que el navegador aplica antes de reconectar (campo retry de SSE)
+  maxReconnectDelay: 60 * 1000, // Máximo de la espera exponencial cuando el cliente reconecta por su cuenta
+  maxBacklog: 24 * 60 * 60 * 1000, // Historia máxima que se reenvía al reanudar desde un timestamp
+};
@@ -0,0 +1,10 @@
+// Configuración de las notificaciones salientes por webhook
+// Las URLs (separadas por comas) y el secreto HMAC se leen del entorno.
+export const WEBHOOK_CONFIG = {
+  urls: (process.env.WEBHOOK_URLS || '').split(',').map(url => url.trim()).filter(Boolean),
+  secret: process.env.WEBHOOK_SECRET || '',
+  maxRetries: 3,
+  retryDelay: 2000, // 2 segundos, se duplica en cada reintento
+  requestTimeout: 10000, // 10 segundos por intento
+  historyWindow: 24 * 60 * 60 * 1000, // Historial reciente que se usa para evaluar las reglas
+};
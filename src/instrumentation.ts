@@ -0,0 +1,8 @@
+// Punto de entrada de Next.js al arrancar el servidor
+// El recolector solo se activa con PRICE_COLLECTOR=on y en el runtime de Node.
+export async function register() {
+  if (process.env.NEXT_RUNTIME === 'nodejs' && process.env.PRICE_COLLECTOR === 'on') {
+    const { startCollector } = await import('@/lib/collector');
+    startCollector();
+  }
+}
@@ -0,0 +1,78 @@
+// Worker de agregaciones: mantiene el índice por item y responde a los cálculos del dashboard
+// (gráficos, anomalías y pronósticos). Los precios en vivo llegan como registros añadidos.
+// Las peticiones se encolan y se procesan de una en una cediendo el hilo entre ellas, de modo
+// que una cancelación que llegue mientras tanto elimina la petición antes de calcularla.
+
+import {
+  appendPrices,
+  createAggregationState,
+  getTransferables,
+  loadPrices,
+  runAggregation,
+  setExcludedPoints,
+  type AggregationQuery,
+  type WorkerRequest,
+  type WorkerResponse
+} from '@/lib/aggregations';
+
+const workerScope = self as unknown as {
+  onmessage: ((event: MessageEvent<WorkerRequest>) => void) | null;
+  postMessage: (message: WorkerResponse, transfer?: Transferable[]) => void;
+};
+
+const state = createAggregationState();
+let version = 0;
+
+// Peticiones pendientes en orden de llegada
+const queue = new Map<number, { version: number; query: AggregationQuery }>();
+let scheduled = false;
+
+// Función para procesar la siguiente petición pendiente
+const processNext = () => {
+  scheduled = false;
+  const next = queue.entries().next();
+  if (next.done) return;
+
+  const [id, request] = next.value;
+  queue.delete(id);
+  // Una petición hecha sobre datos anteriores ya no interesa al hilo principal
+  if (request.version === version) {
+    try {
+      const result = runAggregation(state, request.query);
+      workerScope.postMessage({ type: 'result', id, version, result }, getTransferables(result));
+    } catch (error) {
+      workerScope.postMessage({ type: 'error', id, version, message: error instanceof Error ? error.message : String(error) });
+    }
+  }
+  schedule();
+};
+
+const schedule = () => {
+  if (scheduled || queue.size === 0) return;
+  scheduled = true;
+  setTimeout(processNext, 0);
+};
+
+workerScope.onmessage = ({ data: message }) => {
+  switch (message.type) {
+    case 'load':
+      loadPrices(state, message.items);
+      version = message.version;
+      break;
+    case 'append':
+      appendPrices(state, message.items);
+      version = message.version;
+      break;
+    case 'exclude':
+      setExcludedPoints(state, message.keys);
+      version = message.version;
+      break;
+    case 'query':
+      queue.set(message.id, { version: message.version, query: message.query });
+      schedule();
+      break;
+    case 'cancel':
+      queue.delete(message.id);
+      break;
+  }
+};
@@ -0,0 +1,129 @@
+// Acceso desde el hilo principal al worker de agregaciones
+// Cada cálculo se puede cancelar; los resultados de peticiones canceladas o hechas sobre
+// datos ya sustituidos se descartan.
+
+import { useEffect, useState } from 'react';
+import type {
+  AggregationKind,
+  AggregationQuery,
+  AggregationResults,
+  ItemColumns,
+  WorkerRequest,
+  WorkerResponse
+} from '@/lib/aggregations';
+import type { FlatDataItem } from '@/lib/types';
+
+export interface AggregationClient {
+  // Envía los datos al worker y devuelve su versión
+  load(data: FlatDataItem[]): number;
+  // Envía solo los registros nuevos (por ejemplo, los precios en vivo) y devuelve la versión
+  append(data: FlatDataItem[]): number;
+  // Cambia las muestras excluidas de los cálculos (claves item|timestamp) y devuelve la versión
+  exclude(keys: string[]): number;
+  // Pide un cálculo; devuelve la función que lo cancela
+  request<K extends AggregationKind>(query: Extract<AggregationQuery, { kind: K }>, onResult: (result: AggregationResults[K]) => void): () => void;
+  terminate(): void;
+}
+
+// Función para pasar los registros planos a columnas por item
+const toItemColumns = (data: FlatDataItem[]): ItemColumns[] => {
+  const columns = new Map<string, { times: number[]; prices: number[] }>();
+  for (const d of data) {
+    let column = columns.get(d.item);
+    if (!column) {
+      column = { times: [], prices: [] };
+      columns.set(d.item, column);
+    }
+    column.times.push(d.timestamp.getTime());
+    column.prices.push(d.price);
+  }
+  return [...columns].map(([item, { times, prices }]) => ({
+    item,
+    times: Float64Array.from(times),
+    prices: Float64Array.from(prices)
+  }));
+};
+
+// Función para crear el worker de agregaciones
+// Solo debe llamarse en el navegador (por ejemplo, desde un useEffect).
+export function createAggregationClient(): AggregationClient {
+  const worker = new Worker(new URL('./aggregation.worker.ts', import.meta.url));
+  const pending = new Map<number, (result: AggregationResults[AggregationKind]) => void>();
+  let nextId = 1;
+  let version = 0;
+
+  const post = (message: WorkerRequest, transfer: Transferable[] = []) => worker.postMessage(message, transfer);
+
+  worker.onmessage = ({ data: message }: MessageEvent<WorkerResponse>) => {
+    const onResult = pending.get(message.id);
+    pending.delete(message.id);
+    if (!onResult || message.version !== version) return;
+
+    if (message.type === 'error') {
+      console.error('Error en el worker de agregaciones:', message.message);
+      return;
+    }
+    onResult(message.result);
+  };
+
+  worker.onerror = (event) => {
+    console.error('Error en el worker de agregaciones:', event.message);
+  };
+
+  return {
+    load(data) {
+      const items = toItemColumns(data);
+      version++;
+      post({ type: 'load', version, items }, items.flatMap(({ times, prices }) => [times.buffer, prices.buffer]));
+      return version;
+    },
+
+    append(data) {
+      const items = toItemColumns(data);
+      version++;
+      post({ type: 'append', version, items }, items.flatMap(({ times, prices }) => [times.buffer, prices.buffer]));
+      return version;
+    },
+
+    exclude(keys) {
+      version++;
+      post({ type: 'exclude', version, keys });
+      return version;
+    },
+
+    request(query, onResult) {
+      const id = nextId++;
+      pending.set(id, onResult as (result: AggregationResults[AggregationKind]) => void);
+      post({ type: 'query', id, version, query });
+      return () => {
+        if (pending.delete(id)) post({ type: 'cancel', id });
+      };
+    },
+
+    terminate() {
+      pending.clear();
+      worker.terminate();
+    }
+  };
+}
+
+// Hook para obtener un cálculo del worker que se repite al cambiar la consulta o los datos
+// La consulta debe estar memorizada; mientras llega el resultado nuevo se mantiene el anterior
+// y las peticiones que quedan obsoletas se cancelan.
+export function useAggregation<K extends AggregationKind>(
+  client: AggregationClient | null,
+  dataVersion: number,
+  query: Extract<AggregationQuery, { kind: K }> | null
+): AggregationResults[K] | null {
+  const [result, setResult] = useState<AggregationResults[K] | null>(null);
+
+  useEffect(() => {
+    if (!client || dataVersion === 0 || !query) {
+      setResult(null);
+      return;
+    }
+    return client.request(query, setResult);
+  }, [client, dataVersion, query]);
+
+  return result;
+}
@@ -0,0 +1,66 @@
+import { describe, expect, it } from 'vitest';
+import {
+  appendPrices,
+  createAggregationState,
+  loadPrices,
+  runAggregation,
+  setExcludedPoints,
+  type ItemColumns
+} from '@/lib/aggregations';
+import { DEFAULT_ANOMALY_SETTINGS, getPointKey } from '@/lib/anomalies';
+
+const HOUR_MS = 60 * 60 * 1000;
+const START = Date.parse('2025-06-02T00:00:00.000Z');
+
+// Función para crear las columnas de un item con una muestra por hora desde `from`
+const makeColumns = (item: string, prices: number[], from: number = 0): ItemColumns => ({
+  item,
+  times: Float64Array.from(prices, (_, i) => START + (from + i) * HOUR_MS),
+  prices: Float64Array.from(prices)
+});
+
+describe('estado del worker de agregaciones', () => {
+  it('añade registros al final o intercalados sin duplicar tiempos', () => {
+    const state = createAggregationState();
+    loadPrices(state, [makeColumns('steak', [1, 2, 3]), makeColumns('fish', [10])]);
+    appendPrices(state, [makeColumns('steak', [4, 5], 3)]);
+    appendPrices(state, [makeColumns('steak', [99, 2.5], 1), makeColumns('salt', [7])]);
+
+    expect(Array.from(state.prices.get('steak')!.prices)).toEqual([1, 2, 3, 4, 5]);
+    expect(Array.from(state.prices.get('fish')!.prices)).toEqual([10]);
+    expect(Array.from(state.prices.get('salt')!.prices)).toEqual([7]);
+
+    appendPrices(state, [{ item: 'steak', times: Float64Array.of(START + 1.5 * HOUR_MS), prices: Float64Array.of(2.5) }]);
+    expect(Array.from(state.prices.get('steak')!.prices)).toEqual([1, 2, 2.5, 3, 4, 5]);
+  });
+
+  it('deja fuera de los cálculos las muestras excluidas, también tras añadir precios', () => {
+    const state = createAggregationState();
+    loadPrices(state, [makeColumns('steak', [1, 2, 3])]);
+    setExcludedPoints(state, [getPointKey('steak', START + HOUR_MS)]);
+    appendPrices(state, [makeColumns('steak', [4], 3)]);
+
+    expect(Array.from(state.index.get('steak')!.prices)).toEqual([1, 3, 4]);
+    expect(state.prices.get('steak')!.prices).toHaveLength(4);
+
+    const query = { kind: 'evolution' as const, items: ['steak'], bounds: { from: null, to: null }, normalize: false, candleIntervalMs: null, timeZone: 'UTC' };
+    const evolution = runAggregation(state, query) as { series: { range: { min: number; max: number; avg: number } }[] };
+    expect(evolution.series[0].range.avg).toBeCloseTo(8 / 3);
+
+    setExcludedPoints(state, []);
+    expect(state.index.get('steak')).toBe(state.prices.get('steak'));
+  });
+
+  it('detecta anomalías sobre todos los precios al añadirlos por partes', () => {
+    const prices = Array.from({ length: 80 }, (_, i) => 10 + (i % 5 - 2) * 0.1);
+    prices[60] = 30;
+    const state = createAggregationState();
+    loadPrices(state, [makeColumns('steak', prices.slice(0, 50))]);
+    setExcludedPoints(state, [getPointKey('steak', START + 60 * HOUR_MS)]);
+    runAggregation(state, { kind: 'anomalies', settings: DEFAULT_ANOMALY_SETTINGS });
+    appendPrices(state, [makeColumns('steak', prices.slice(50), 50)]);
+
+    const anomalies = runAggregation(state, { kind: 'anomalies', settings: DEFAULT_ANOMALY_SETTINGS }) as { kind: string; time: Date }[];
+    expect(anomalies.filter(a => a.kind === 'spike').map(a => a.time.getTime())).toEqual([START + 60 * HOUR_MS]);
+  });
+});
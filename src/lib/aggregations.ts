@@ -0,0 +1,508 @@
+// Agregaciones pesadas del dashboard que se calculan en el worker (aggregation.worker.ts)
+// Los datos se guardan por item en columnas ordenadas por tiempo, de modo que filtrar por
+// item o por periodo es una búsqueda binaria y no un recorrido de todos los registros.
+// Los resultados viajan en Float64Array para transferirlos al hilo principal sin copiarlos.
+
+import { parsePointKey, updateAnomalies, type Anomaly, type AnomalyCache, type AnomalySettings } from '@/lib/anomalies';
+import { forecastSamples, type ForecastModel, type ForecastResult } from '@/lib/forecast';
+import { getHoursInRange, isHourInRange, type HourRange } from '@/lib/hourRange';
+import { getBollingerBands, getEma, getMacd, getRsi, getSma, HOUR_MS, type IndicatorSettings } from '@/lib/indicators';
+import type { Sample } from '@/lib/resample';
+import { getZonedBucketStart, getZonedDay, getZonedHour } from '@/lib/timezone';
+
+// Precios de un item ordenados por tiempo
+export interface ItemColumns {
+  item: string;
+  times: Float64Array;  // ms
+  prices: Float64Array;
+}
+
+export type PriceIndex = Map<string, ItemColumns>;
+
+// Periodo [from, to) en ms; null en un extremo = sin límite
+export interface TimeBounds {
+  from: number | null;
+  to: number | null;
+}
+
+export interface PriceRange {
+  min: number;
+  max: number;
+  avg: number;
+}
+
+// Serie de puntos con tiempo y valor
+export interface LineColumns {
+  times: Float64Array;
+  values: Float64Array;
+}
+
+export interface CandleColumns {
+  times: Float64Array;
+  open: Float64Array;
+  high: Float64Array;
+  low: Float64Array;
+  close: Float64Array;
+  count: Float64Array;
+}
+
+export interface EvolutionSeries {
+  item: string;
+  times: Float64Array;
+  prices: Float64Array;
+  normalized: Float64Array | null; // Escala 0-100, solo en modo normalizado
+  range: PriceRange;
+}
+
+export interface EvolutionResult {
+  series: EvolutionSeries[];
+  candles: CandleColumns | null; // Velas del primer item, solo en modo velas
+  fromTime: number | null;       // Primer y último registro del periodo entre todos los items
+  toTime: number | null;
+}
+
+export type TrendSeries =
+  | { item: string; type: 'daily'; days: string[]; avg: Float64Array }
+  | {
+      item: string;
+      type: 'hourly';
+      times: Float64Array;
+      prices: Float64Array;
+      sma: LineColumns | null;
+      ema: LineColumns | null;
+      bollinger: { times: Float64Array; upper: Float64Array; lower: Float64Array } | null;
+      rsi: LineColumns | null;
+      macd: { times: Float64Array; macd: Float64Array; signal: Float64Array; histogram: Float64Array } | null;
+    };
+
+export interface HeatmapResult {
+  items: string[];
+  hours: number[];
+  z: (number | null)[][]; // Precio medio redondeado por item y hora
+}
+
+// Cálculos que acepta el worker
+// `timeZone` (IANA) es la zona en la que se agrupan los días, las horas y las velas.
+export type AggregationQuery =
+  | {
+      kind: 'evolution';
+      items: string[];        // Primer item y, opcionalmente, el segundo
+      bounds: TimeBounds;
+      normalize: boolean;
+      candleIntervalMs: number | null; // Con valor se calculan velas del primer item
+      timeZone: string;
+    }
+  | { kind: 'trends'; items: string[]; type: 'daily' | 'hourly'; indicators: IndicatorSettings; timeZone: string }
+  | { kind: 'heatmap'; hours: HourRange; timeZone: string }
+  | { kind: 'anomalies'; settings: AnomalySettings }  // Sobre todos los precios, también los excluidos
+  | { kind: 'forecast'; items: string[]; model: ForecastModel; horizonHours: number };
+
+export type AggregationKind = AggregationQuery['kind'];
+
+export interface AggregationResults {
+  evolution: EvolutionResult;
+  trends: TrendSeries[];
+  heatmap: HeatmapResult;
+  anomalies: Anomaly[];
+  forecast: Record<string, ForecastResult | null>;
+}
+
+// Datos que el worker mantiene entre mensajes
+export interface AggregationState {
+  prices: PriceIndex;                 // Todos los precios cargados
+  excluded: Set<string>;              // Claves item|timestamp de las muestras excluidas (ver getPointKey)
+  index: PriceIndex;                  // `prices` sin las muestras excluidas; sobre él se hacen los cálculos
+  anomalyCache: AnomalyCache | null;  // Para analizar solo la cola de las series al añadir precios
+}
+
+// --- Protocolo entre el hilo principal y el worker ---
+
+// Mensajes del hilo principal al worker
+// `version` identifica los datos cargados; los resultados de versiones anteriores se descartan.
+// 'append' añade solo los registros nuevos y 'exclude' sustituye las muestras excluidas.
+export type WorkerRequest =
+  | { type: 'load'; version: number; items: ItemColumns[] }
+  | { type: 'append'; version: number; items: ItemColumns[] }
+  | { type: 'exclude'; version: number; keys: string[] }
+  | { type: 'query'; id: number; version: number; query: AggregationQuery }
+  | { type: 'cancel'; id: number };
+
+// Mensajes del worker al hilo principal
+export type WorkerResponse =
+  | { type: 'result'; id: number; version: number; result: AggregationResults[AggregationKind] }
+  | { type: 'error'; id: number; version: number; message: string };
+
+// --- Índice por item ---
+
+// Función para construir el índice por item, ordenando las columnas que no vengan ordenadas
+export const buildPriceIndex = (columns: ItemColumns[]): PriceIndex => {
+  const index: PriceIndex = new Map();
+  for (const column of columns) {
+    let sorted = true;
+    for (let i = 1; i < column.times.length && sorted; i++) {
+      if (column.times[i] < column.times[i - 1]) sorted = false;
+    }
+    if (sorted) {
+      index.set(column.item, column);
+      continue;
+    }
+
+    const order = Array.from(column.times.keys()).sort((a, b) => column.times[a] - column.times[b]);
+    index.set(column.item, {
+      item: column.item,
+      times: Float64Array.from(order, i => column.times[i]),
+      prices: Float64Array.from(order, i => column.prices[i])
+    });
+  }
+  return index;
+};
+
+// Función para añadir muestras a las columnas de un item sin duplicar tiempos
+// Con las muestras nuevas posteriores a las cargadas (precios en vivo) basta con concatenar;
+// si no, se mezclan en orden y con tiempos repetidos se conserva la muestra ya cargada.
+const mergeColumns = (current: ItemColumns | undefined, added: ItemColumns): ItemColumns => {
+  if (!current || current.times.length === 0) return added;
+  if (added.times.length === 0) return current;
+
+  const length = current.times.length + added.times.length;
+  const times = new Float64Array(length);
+  const prices = new Float64Array(length);
+  if (added.times[0] > current.times[current.times.length - 1]) {
+    times.set(current.times);
+    times.set(added.times, current.times.length);
+    prices.set(current.prices);
+    prices.set(added.prices, current.prices.length);
+    return { item: current.item, times, prices };
+  }
+
+  let i = 0;
+  let j = 0;
+  let n = 0;
+  while (i < current.times.length || j < added.times.length) {
+    if (j >= added.times.length || (i < current.times.length && current.times[i] <= added.times[j])) {
+      if (j < added.times.length && current.times[i] === added.times[j]) j++;
+      times[n] = current.times[i];
+      prices[n++] = current.prices[i++];
+    } else {
+      times[n] = added.times[j];
+      prices[n++] = added.prices[j++];
+    }
+  }
+  return { item: current.item, times: n < length ? times.slice(0, n) : times, prices: n < length ? prices.slice(0, n) : prices };
+};
+
+// Función para quitar las muestras excluidas de las columnas de cada item
+// Los items sin exclusiones conservan sus columnas sin copiarlas.
+const excludeFromIndex = (prices: PriceIndex, excluded: Set<string>): PriceIndex => {
+  if (excluded.size === 0) return prices;
+  const timesByItem = new Map<string, Set<number>>();
+  for (const key of excluded) {
+    const { item, time } = parsePointKey(key);
+    if (!timesByItem.has(item)) timesByItem.set(item, new Set());
+    timesByItem.get(item)!.add(time);
+  }
+
+  const index: PriceIndex = new Map();
+  for (const [item, column] of prices) {
+    const times = timesByItem.get(item);
+    if (!times) {
+      index.set(item, column);
+      continue;
+    }
+    const keep = Array.from(column.times.keys()).filter(i => !times.has(column.times[i]));
+    index.set(item, {
+      item,
+      times: Float64Array.from(keep, i => column.times[i]),
+      prices: Float64Array.from(keep, i => column.prices[i])
+    });
+  }
+  return index;
+};
+
+// Función para crear el estado vacío del worker
+export const createAggregationState = (): AggregationState => ({
+  prices: new Map(),
+  excluded: new Set(),
+  index: new Map(),
+  anomalyCache: null
+});
+
+// Función para sustituir todos los precios cargados
+export const loadPrices = (state: AggregationState, columns: ItemColumns[]): void => {
+  state.prices = buildPriceIndex(columns);
+  state.index = excludeFromIndex(state.prices, state.excluded);
+};
+
+// Función para añadir precios nuevos; solo se reconstruyen las columnas de los items que cambian
+export const appendPrices = (state: AggregationState, columns: ItemColumns[]): void => {
+  const changed: PriceIndex = new Map();
+  for (const column of buildPriceIndex(columns).values()) {
+    changed.set(column.item, mergeColumns(state.prices.get(column.item), column));
+  }
+  state.prices = new Map([...state.prices, ...changed]);
+  state.index = new Map([...state.index, ...excludeFromIndex(changed, state.excluded)]);
+};
+
+// Función para cambiar las muestras que se excluyen de los cálculos
+export const setExcludedPoints = (state: AggregationState, keys: string[]): void => {
+  state.excluded = new Set(keys);
+  state.index = excludeFromIndex(state.prices, state.excluded);
+};
+
+// Función para obtener la primera posición con tiempo >= time (búsqueda binaria)
+const lowerBound = (times: Float64Array, time: number): number => {
+  let low = 0;
+  let high = times.length;
+  while (low < high) {
+    const mid = (low + high) >>> 1;
+    if (times[mid] < time) low = mid + 1;
+    else high = mid;
+  }
+  return low;
+};
+
+// Función para obtener las columnas de un item dentro de un periodo, sin copiar los datos
+export const sliceItem = (index: PriceIndex, item: string, { from, to }: TimeBounds = { from: null, to: null }): ItemColumns => {
+  const column = index.get(item);
+  if (!column) return { item, times: new Float64Array(0), prices: new Float64Array(0) };
+  const start = from === null ? 0 : lowerBound(column.times, from);
+  const end = to === null ? column.times.length : lowerBound(column.times, to);
+  return { item, times: column.times.subarray(start, end), prices: column.prices.subarray(start, end) };
+};
+
+const toSamples = ({ times, prices }: ItemColumns): Sample[] => {
+  return Array.from(times, (time, i) => ({ time, price: prices[i] }));
+};
+
+// --- Cálculos ---
+
+// Función para calcular el rango de precios sin expandir el array en argumentos
+// (Math.min(...prices) desborda la pila con series largas)
+export const getPriceRange = (prices: ArrayLike<number>): PriceRange => {
+  if (prices.length === 0) return { min: 0, max: 0, avg: 0 };
+  let min = Infinity;
+  let max = -Infinity;
+  let total = 0;
+  for (let i = 0; i < prices.length; i++) {
+    if (prices[i] < min) min = prices[i];
+    if (prices[i] > max) max = prices[i];
+    total += prices[i];
+  }
+  return { min, max, avg: total / prices.length };
+};
+
+// Función para normalizar precios a la escala 0-100
+export const normalizeValues = (prices: ArrayLike<number>, { min, max }: PriceRange = getPriceRange(prices)): Float64Array => {
+  const range = max - min;
+  // Si todos los valores son iguales
+  if (range === 0) return new Float64Array(prices.length).fill(50);
+  return Float64Array.from(prices, value => ((value - min) / range) * 100);
+};
+
+// Función para agrupar los precios en velas OHLC según el reloj de la zona horaria
+// Las columnas están ordenadas, así que cada vela es un tramo de muestras consecutivas;
+// los intervalos sin muestras no generan vela.
+const getCandles = ({ times, prices }: ItemColumns, intervalMs: number, timeZone: string): CandleColumns => {
+  const starts: number[] = [];
+  const open: number[] = [];
+  const high: number[] = [];
+  const low: number[] = [];
+  const close: number[] = [];
+  const count: number[] = [];
+  for (let i = 0; i < times.length; i++) {
+    const start = getZonedBucketStart(times[i], intervalMs, timeZone);
+    const last = starts.length - 1;
+    if (last >= 0 && starts[last] === start) {
+      high[last] = Math.max(high[last], prices[i]);
+      low[last] = Math.min(low[last], prices[i]);
+      close[last] = prices[i];
+      count[last]++;
+      continue;
+    }
+    starts.push(start);
+    open.push(prices[i]);
+    high.push(prices[i]);
+    low.push(prices[i]);
+    close.push(prices[i]);
+    count.push(1);
+  }
+  return {
+    times: Float64Array.from(starts),
+    open: Float64Array.from(open),
+    high: Float64Array.from(high),
+    low: Float64Array.from(low),
+    close: Float64Array.from(close),
+    count: Float64Array.from(count)
+  };
+};
+
+// Función para calcular el precio medio de cada día de la zona horaria con muestras
+const getDailyAverages = ({ times, prices }: ItemColumns, timeZone: string): { days: string[]; avg: Float64Array } => {
+  const days: string[] = [];
+  const totals: number[] = [];
+  const counts: number[] = [];
+  for (let i = 0; i < times.length; i++) {
+    const day = getZonedDay(times[i], timeZone);
+    const last = days.length - 1;
+    if (last >= 0 && days[last] === day) {
+      totals[last] += prices[i];
+      counts[last]++;
+      continue;
+    }
+    days.push(day);
+    totals.push(prices[i]);
+    counts.push(1);
+  }
+  return { days, avg: Float64Array.from(totals, (total, i) => total / counts[i]) };
+};
+
+// Función para calcular las series del gráfico de evolución de precios
+export const computeEvolution = (index: PriceIndex, query: Extract<AggregationQuery, { kind: 'evolution' }>): EvolutionResult => {
+  // Primer y último registro del periodo entre todos los items, para acotar las anomalías
+  let fromTime: number | null = null;
+  let toTime: number | null = null;
+  for (const item of index.keys()) {
+    const { times } = sliceItem(index, item, query.bounds);
+    if (times.length === 0) continue;
+    if (fromTime === null || times[0] < fromTime) fromTime = times[0];
+    if (toTime === null || times[times.length - 1] > toTime) toTime = times[times.length - 1];
+  }
+  if (fromTime === null) return { series: [], candles: null, fromTime, toTime };
+
+  const series = query.items.map(item => {
+    const column = sliceItem(index, item, query.bounds);
+    const range = getPriceRange(column.prices);
+    return {
+      item,
+      // Copias para poder transferirlas sin vaciar el índice
+      times: column.times.slice(),
+      prices: column.prices.slice(),
+      normalized: query.normalize && column.prices.length > 0 ? normalizeValues(column.prices, range) : null,
+      range
+    };
+  });
+
+  const candles = query.candleIntervalMs && query.items.length > 0
+    ? getCandles(sliceItem(index, query.items[0], query.bounds), query.candleIntervalMs, query.timeZone)
+    : null;
+
+  return { series, candles, fromTime, toTime };
+};
+
+// Función para pasar puntos de un indicador a columnas
+const toLineColumns = (points: { time: Date; value: number }[]): LineColumns => ({
+  times: Float64Array.from(points, p => p.time.getTime()),
+  values: Float64Array.from(points, p => p.value)
+});
+
+// Función para calcular el análisis de tendencias: promedio diario o datos con indicadores
+export const computeTrends = (index: PriceIndex, query: Extract<AggregationQuery, { kind: 'trends' }>): TrendSeries[] => {
+  const result: TrendSeries[] = [];
+  for (const item of query.items) {
+    const column = sliceItem(index, item);
+    if (column.times.length === 0) continue;
+
+    if (query.type === 'daily') {
+      result.push({ item, type: 'daily', ...getDailyAverages(column, query.timeZone) });
+      continue;
+    }
+
+    const samples = toSamples(column);
+    const { sma, ema, bollinger, rsi, macd } = query.indicators;
+    const bands = bollinger.enabled ? getBollingerBands(samples, bollinger.windowHours * HOUR_MS, bollinger.deviations) : null;
+    const macdPoints = macd.enabled
+      ? getMacd(samples, macd.fastHours * HOUR_MS, macd.slowHours * HOUR_MS, macd.signalHours * HOUR_MS)
+      : null;
+    result.push({
+      item,
+      type: 'hourly',
+      times: column.times.slice(),
+      prices: column.prices.slice(),
+      sma: sma.enabled ? toLineColumns(getSma(samples, sma.windowHours * HOUR_MS)) : null,
+      ema: ema.enabled ? toLineColumns(getEma(samples, ema.windowHours * HOUR_MS)) : null,
+      bollinger: bands && {
+        times: Float64Array.from(bands, b => b.time.getTime()),
+        upper: Float64Array.from(bands, b => b.upper),
+        lower: Float64Array.from(bands, b => b.lower)
+      },
+      rsi: rsi.enabled ? toLineColumns(getRsi(samples, rsi.windowHours * HOUR_MS)) : null,
+      macd: macdPoints && {
+        times: Float64Array.from(macdPoints, p => p.time.getTime()),
+        macd: Float64Array.from(macdPoints, p => p.macd),
+        signal: Float64Array.from(macdPoints, p => p.signal),
+        histogram: Float64Array.from(macdPoints, p => p.histogram)
+      }
+    });
+  }
+  return result;
+};
+
+// Función para calcular el precio medio por item y hora de la zona horaria dentro de un rango de horas
+export const computeHeatmap = (index: PriceIndex, query: Extract<AggregationQuery, { kind: 'heatmap' }>): HeatmapResult => {
+  // Las horas van en orden desde la inicial, también si el rango cruza la medianoche
+  const hours = getHoursInRange(query.hours);
+  const items: string[] = [];
+  const z: (number | null)[][] = [];
+
+  for (const item of [...index.keys()].sort()) {
+    const { times, prices } = index.get(item)!;
+    const totals = new Float64Array(24);
+    const counts = new Uint32Array(24);
+    for (let i = 0; i < times.length; i++) {
+      const hour = getZonedHour(times[i], query.timeZone);
+      if (!isHourInRange(hour, query.hours)) continue;
+      totals[hour] += prices[i];
+      counts[hour]++;
+    }
+    if (!hours.some(hour => counts[hour] > 0)) continue;
+    items.push(item);
+    z.push(hours.map(hour => counts[hour] > 0 ? Math.round((totals[hour] / counts[hour]) * 100) / 100 : null));
+  }
+
+  return { items, hours, z };
+};
+
+// Función para pronosticar los items pedidos con los precios no excluidos
+export const computeForecast = (index: PriceIndex, query: Extract<AggregationQuery, { kind: 'forecast' }>): Record<string, ForecastResult | null> => {
+  const result: Record<string, ForecastResult | null> = {};
+  for (const item of query.items) {
+    result[item] = forecastSamples(toSamples(sliceItem(index, item)), query.model, query.horizonHours);
+  }
+  return result;
+};
+
+// Función para detectar las anomalías de todos los precios cargados
+// Se guarda el estado de la detección para que, tras añadir precios, solo se analice la cola.
+export const computeAnomalies = (state: AggregationState, query: Extract<AggregationQuery, { kind: 'anomalies' }>): Anomaly[] => {
+  const { anomalies, cache } = updateAnomalies(state.anomalyCache, [...state.prices.values()], query.settings);
+  state.anomalyCache = cache;
+  return anomalies;
+};
+
+// Función para ejecutar un cálculo sobre los datos del worker
+export const runAggregation = (state: AggregationState, query: AggregationQuery): AggregationResults[AggregationKind] => {
+  switch (query.kind) {
+    case 'evolution':
+      return computeEvolution(state.index, query);
+    case 'trends':
+      return computeTrends(state.index, query);
+    case 'heatmap':
+      return computeHeatmap(state.index, query);
+    case 'anomalies':
+      return computeAnomalies(state, query);
+    case 'forecast':
+      return computeForecast(state.index, query);
+  }
+};
+
+// Función para obtener los buffers de un resultado que se pueden transferir sin copia
+export const getTransferables = (value: unknown, found: Set<ArrayBuffer> = new Set()): ArrayBuffer[] => {
+  if (value instanceof Float64Array) {
+    found.add(value.buffer as ArrayBuffer);
+  } else if (Array.isArray(value)) {
+    value.forEach(entry => getTransferables(entry, found));
+  } else if (value && typeof value === 'object') {
+    Object.values(value).forEach(entry => getTransferables(entry, found));
+  }
+  return [...found];
+};
@@ -0,0 +1,54 @@
+import { describe, expect, it } from 'vitest';
+import { evaluateRules, isValidAlertRule, type AlertRule } from '@/lib/alerts';
+import type { FlatDataItem } from '@/lib/types';
+
+const MINUTE_MS = 60 * 1000;
+const START = Date.parse('2025-06-05T12:00:00.000Z');
+
+// Función para crear una serie de un item con una muestra por minuto
+const makeSeries = (prices: number[]): FlatDataItem[] => prices.map((price, i) => {
+  const timestamp = new Date(START + i * MINUTE_MS);
+  return { item: 'steak', timestamp, price, hour: timestamp.getUTCHours(), day: timestamp.toISOString().slice(0, 10) };
+});
+
+const zscoreRule = (threshold: number, windowMinutes: number): AlertRule => ({
+  id: 'rule',
+  item: 'steak',
+  type: 'zscore',
+  threshold,
+  windowMinutes,
+  enabled: true
+});
+
+describe('evaluateRules (zscore)', () => {
+  it('se dispara con una ventana de 5 muestras y un umbral de 3σ', () => {
+    const { events } = evaluateRules([zscoreRule(3, 4)], makeSeries([10, 10.1, 9.9, 10, 20]));
+    expect(events).toHaveLength(1);
+    expect(events[0].message).toContain('σ');
+  });
+
+  it('no se dispara si el último precio está dentro de la banda', () => {
+    const { events } = evaluateRules([zscoreRule(3, 4)], makeSeries([10, 10.1, 9.9, 10, 10.05]));
+    expect(events).toHaveLength(0);
+  });
+
+  it('se dispara con un salto tras un tramo de precio constante', () => {
+    const { events } = evaluateRules([zscoreRule(3, 4)], makeSeries([10, 10, 10, 10, 12]));
+    expect(events).toHaveLength(1);
+    expect(events[0].message).toContain('subió');
+    expect(evaluateRules([zscoreRule(3, 4)], makeSeries([10, 10, 10, 10, 10])).events).toHaveLength(0);
+  });
+
+  it('necesita al menos dos muestras anteriores en la ventana', () => {
+    expect(evaluateRules([zscoreRule(1, 1)], makeSeries([10, 20])).events).toHaveLength(0);
+    expect(evaluateRules([zscoreRule(1, 2)], makeSeries([10, 11, 20])).events).toHaveLength(1);
+  });
+});
+
+describe('isValidAlertRule', () => {
+  it('rechaza tipos heredados de Object.prototype', () => {
+    expect(isValidAlertRule(zscoreRule(3, 4))).toBe(true);
+    expect(isValidAlertRule({ ...zscoreRule(3, 4), type: 'toString' })).toBe(false);
+    expect(isValidAlertRule({ ...zscoreRule(3, 4), type: '__proto__' })).toBe(false);
+  });
+});
@@ -0,0 +1,178 @@
+// Reglas de alerta de precios: definición, evaluación y persistencia en localStorage
+
+import { getStandardDeviation } from '@/lib/stats';
+import { readStorage, writeStorage } from '@/lib/storage';
+import type { FlatDataItem } from '@/lib/types';
+
+export type AlertRuleType = 'above' | 'below' | 'change' | 'zscore';
+
+export interface AlertRule {
+  id: string;
+  item: string;
+  type: AlertRuleType;
+  threshold: number;      // Precio (above/below), % (change) o σ (zscore)
+  windowMinutes: number;  // Ventana para change y zscore
+  enabled: boolean;
+  webhook?: boolean;        // Notificar también por webhook desde el servidor
+  lastTriggeredAt?: string; // Timestamp de la muestra que disparó la regla por última vez
+}
+
+export interface AlertEvent {
+  id: string;
+  ruleId: string;
+  item: string;
+  type: AlertRuleType;
+  message: string;
+  price: number;
+  previousPrice: number | null;
+  sampleTimestamp: string;
+  triggeredAt: string;
+}
+
+export const ALERT_RULE_LABELS: Record<AlertRuleType, string> = {
+  above: 'Precio por encima de',
+  below: 'Precio por debajo de',
+  change: 'Cambio mayor al N% en la ventana',
+  zscore: 'Desviación mayor a K σ de la media móvil'
+};
+
+const RULES_STORAGE_KEY = 'price-alerts:rules';
+const HISTORY_STORAGE_KEY = 'price-alerts:history';
+const MAX_HISTORY = 200;
+
+// Función para generar identificadores simples y únicos
+export const createId = (): string => {
+  return `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+};
+
+// Función para obtener el valor que mide una regla en la muestra `index`
+// Devuelve null si no hay datos suficientes para evaluarla.
+const measureAt = (rule: AlertRule, series: FlatDataItem[], index: number): number | null => {
+  const sample = series[index];
+  if (!sample) return null;
+
+  if (rule.type === 'above' || rule.type === 'below') {
+    return sample.price;
+  }
+
+  // Muestras dentro de la ventana que termina en `index`
+  const windowStart = sample.timestamp.getTime() - rule.windowMinutes * 60 * 1000;
+  const samples: FlatDataItem[] = [];
+  for (let i = index; i >= 0 && series[i].timestamp.getTime() >= windowStart; i--) {
+    samples.unshift(series[i]);
+  }
+
+  if (rule.type === 'change') {
+    if (samples.length < 2 || samples[0].price === 0) return null;
+    return ((sample.price - samples[0].price) / samples[0].price) * 100;
+  }
+
+  // zscore: desviación respecto a la media de las muestras anteriores de la ventana
+  // La muestra actual no entra en la media ni en la σ; si entrara, |z| no podría superar
+  // (n − 1)/√n y con ventanas cortas una regla de 3σ no se dispararía nunca.
+  // Tras un tramo de precio constante (σ = 0) cualquier cambio es una desviación infinita.
+  const prices = samples.slice(0, -1).map(d => d.price);
+  if (prices.length < 2) return null;
+  const mean = prices.reduce((a, b) => a + b) / prices.length;
+  const std = getStandardDeviation(prices);
+  if (std === 0) return sample.price === mean ? 0 : Math.sign(sample.price - mean) * Infinity;
+  return (sample.price - mean) / std;
+};
+
+// Función para saber si la condición de una regla se cumple para un valor medido
+const isConditionMet = (rule: AlertRule, value: number): boolean => {
+  switch (rule.type) {
+    case 'above':
+      return value > rule.threshold;
+    case 'below':
+      return value < rule.threshold;
+    case 'change':
+    case 'zscore':
+      return Math.abs(value) > rule.threshold;
+  }
+};
+
+// Función para describir un disparo de la regla
+const describeEvent = (rule: AlertRule, value: number, price: number): string => {
+  const name = rule.item.charAt(0).toUpperCase() + rule.item.slice(1);
+  switch (rule.type) {
+    case 'above':
+      return `${name} superó $${rule.threshold} (precio $${price.toFixed(4)})`;
+    case 'below':
+      return `${name} bajó de $${rule.threshold} (precio $${price.toFixed(4)})`;
+    case 'change':
+      return `${name} cambió ${value > 0 ? '+' : ''}${value.toFixed(2)}% en ${rule.windowMinutes} min`;
+    case 'zscore':
+      if (!Number.isFinite(value)) {
+        return `${name} ${value > 0 ? 'subió' : 'bajó'} tras ${rule.windowMinutes} min a precio constante (precio $${price.toFixed(4)})`;
+      }
+      return `${name} se desvió ${value.toFixed(2)}σ de su media de ${rule.windowMinutes} min`;
+  }
+};
+
+// Función para evaluar las reglas sobre los datos más recientes
+// Una regla se dispara cuando su condición pasa de falsa a verdadera en la
+// última muestra, y nunca dos veces por la misma muestra.
+export const evaluateRules = (rules: AlertRule[], data: FlatDataItem[]): { events: AlertEvent[]; rules: AlertRule[] } => {
+  const events: AlertEvent[] = [];
+  const seriesByItem = new Map<string, FlatDataItem[]>();
+  for (const d of data) {
+    if (!seriesByItem.has(d.item)) seriesByItem.set(d.item, []);
+    seriesByItem.get(d.item)!.push(d);
+  }
+
+  const updatedRules = rules.map(rule => {
+    if (!rule.enabled) return rule;
+    const series = seriesByItem.get(rule.item);
+    if (!series || series.length === 0) return rule;
+
+    const lastIndex = series.length - 1;
+    const latest = series[lastIndex];
+    const sampleTimestamp = latest.timestamp.toISOString();
+    if (rule.lastTriggeredAt === sampleTimestamp) return rule;
+
+    const current = measureAt(rule, series, lastIndex);
+    if (current === null || !isConditionMet(rule, current)) return rule;
+
+    const previous = measureAt(rule, series, lastIndex - 1);
+    if (previous !== null && isConditionMet(rule, previous)) return rule;
+
+    events.push({
+      id: createId(),
+      ruleId: rule.id,
+      item: rule.item,
+      type: rule.type,
+      message: describeEvent(rule, current, latest.price),
+      price: latest.price,
+      previousPrice: lastIndex > 0 ? series[lastIndex - 1].price : null,
+      sampleTimestamp,
+      triggeredAt: new Date().toISOString()
+    });
+    return { ...rule, lastTriggeredAt: sampleTimestamp };
+  });
+
+  return { events, rules: updatedRules };
+};
+
+// Función para validar una regla recibida desde fuera (API o almacenamiento)
+export const isValidAlertRule = (value: unknown): value is AlertRule => {
+  if (!value || typeof value !== 'object') return false;
+  const rule = value as Record<string, unknown>;
+  return typeof rule.id === 'string'
+    && typeof rule.item === 'string'
+    && typeof rule.type === 'string' && Object.prototype.hasOwnProperty.call(ALERT_RULE_LABELS, rule.type)
+    && typeof rule.threshold === 'number' && Number.isFinite(rule.threshold)
+    && typeof rule.windowMinutes === 'number' && rule.windowMinutes > 0
+    && typeof rule.enabled === 'boolean';
+};
+
+export const loadAlertRules = (): AlertRule[] => readStorage<AlertRule[]>(RULES_STORAGE_KEY, []);
+
+export const saveAlertRules = (rules: AlertRule[]): void => writeStorage(RULES_STORAGE_KEY, rules);
+
+export const loadAlertHistory = (): AlertEvent[] => readStorage<AlertEvent[]>(HISTORY_STORAGE_KEY, []);
+
+// El historial se guarda del más reciente al más antiguo y con un tamaño máximo
+export const saveAlertHistory = (history: AlertEvent[]): void => {
+  writeStorage(HISTORY_STORAGE_KEY, history.slice(0, MAX_HISTORY));
+};
@@ -0,0 +1,65 @@
+import { describe, expect, it } from 'vitest';
+import {
+  DEFAULT_ANOMALY_SETTINGS,
+  detectAnomalies,
+  getAnomalySeries,
+  updateAnomalies,
+  type AnomalyCache
+} from '@/lib/anomalies';
+import type { FlatDataItem } from '@/lib/types';
+
+const HOUR_MS = 60 * 60 * 1000;
+const START = Date.parse('2025-06-02T00:00:00.000Z');
+
+// Función para crear una serie de un item con una muestra cada media hora
+const makeSeries = (item: string, prices: number[]): FlatDataItem[] => prices.map((price, i) => {
+  const timestamp = new Date(START + i * HOUR_MS / 2);
+  return { item, timestamp, price, hour: timestamp.getUTCHours(), day: timestamp.toISOString().slice(0, 10) };
+});
+
+// Precios con un ruido pequeño y determinista alrededor de un nivel
+const noisy = (level: number, count: number, offset: number = 0): number[] => {
+  return Array.from({ length: count }, (_, i) => level + ((i + offset) % 5 - 2) * 0.01 * level);
+};
+
+describe('detectAnomalies', () => {
+  it('marca un pico aislado y no la muestra siguiente', () => {
+    const prices = noisy(10, 60);
+    prices[30] = 25;
+    const spikes = detectAnomalies(makeSeries('steak', prices), DEFAULT_ANOMALY_SETTINGS).filter(a => a.kind === 'spike');
+    expect(spikes).toHaveLength(1);
+    expect(spikes[0].time.getTime()).toBe(START + 30 * HOUR_MS / 2);
+    expect(spikes[0].price).toBe(25);
+  });
+
+  it('marca un cambio de nivel una sola vez y no lo confunde con picos', () => {
+    const data = makeSeries('steak', [...noisy(10, 60), ...noisy(15, 60, 3)]);
+    const anomalies = detectAnomalies(data, DEFAULT_ANOMALY_SETTINGS);
+    const changes = anomalies.filter(a => a.kind === 'changepoint');
+    expect(anomalies.filter(a => a.kind === 'spike')).toHaveLength(0);
+    expect(changes).toHaveLength(1);
+    expect(Math.abs(changes[0].time.getTime() - (START + 60 * HOUR_MS / 2))).toBeLessThanOrEqual(2 * HOUR_MS);
+  });
+});
+
+describe('updateAnomalies', () => {
+  it('da el mismo resultado al añadir muestras por el final que analizando todo de nuevo', () => {
+    const steak = noisy(10, 200);
+    steak[50] = 30;
+    steak[170] = 2;
+    const fish = [...noisy(100, 90), ...Array<number>(60).fill(120), ...noisy(150, 50, 2)];
+    const data = [...makeSeries('steak', steak), ...makeSeries('fish', fish)]
+      .sort((a, b) => a.timestamp.getTime() - b.timestamp.getTime());
+
+    let cache: AnomalyCache | null = null;
+    let anomalies = detectAnomalies([], DEFAULT_ANOMALY_SETTINGS);
+    for (let end = 7; end < data.length + 37; end += 37) {
+      const result = updateAnomalies(cache, getAnomalySeries(data.slice(0, end)), DEFAULT_ANOMALY_SETTINGS);
+      cache = result.cache;
+      anomalies = result.anomalies;
+    }
+    const full = detectAnomalies(data, DEFAULT_ANOMALY_SETTINGS);
+    expect(new Set(full.map(a => a.kind))).toEqual(new Set(['spike', 'flatline', 'changepoint']));
+    expect(anomalies).toEqual(full);
+  });
+});
@@ -0,0 +1,449 @@
+// Detección de anomalías en las series de precios
+// Picos (mediana/MAD móvil), precios planos, huecos en la recogida y cambios de nivel.
+
+import { detectGaps } from '@/lib/resample';
+import { readStorage, writeStorage } from '@/lib/storage';
+import type { FlatDataItem } from '@/lib/types';
+
+export type AnomalyKind = 'spike' | 'flatline' | 'gap' | 'changepoint';
+
+export interface Anomaly {
+  id: string;
+  kind: AnomalyKind;
+  item: string | null;  // null en los huecos de recogida, que afectan a todos los items
+  time: Date;
+  endTime?: Date;       // Fin del tramo en precios planos y huecos
+  price?: number;       // Precio de la muestra marcada
+  score: number;        // Intensidad: desviaciones robustas en picos y cambios, horas en tramos
+  message: string;
+}
+
+export interface AnomalySettings {
+  windowHours: number;      // Ventana de la mediana móvil y de la comparación de niveles
+  spikeThreshold: number;   // Desviaciones robustas para considerar un pico
+  changeThreshold: number;  // Desviaciones robustas entre niveles para considerar un cambio
+  flatlineHours: number;    // Duración mínima de un precio sin cambios
+  gapHours: number;         // Separación mínima entre muestras para considerar un hueco
+}
+
+export const DEFAULT_ANOMALY_SETTINGS: AnomalySettings = {
+  windowHours: 12,
+  spikeThreshold: 3.5,
+  changeThreshold: 4,
+  flatlineHours: 24,
+  gapHours: 3
+};
+
+export const ANOMALY_LABELS: Record<AnomalyKind, string> = {
+  spike: 'Pico',
+  flatline: 'Precio plano',
+  gap: 'Hueco',
+  changepoint: 'Cambio de nivel'
+};
+
+const HOUR_MS = 60 * 60 * 1000;
+
+// Factor que convierte la MAD en una estimación de la desviación estándar
+const MAD_SCALE = 1.4826;
+
+// Escala mínima relativa al precio para no marcar variaciones de céntimos en series casi planas
+const MIN_RELATIVE_SCALE = 0.005;
+
+// Mínimo de muestras en una ventana para poder evaluarla
+const MIN_WINDOW_SAMPLES = 5;
+
+const EXCLUDED_STORAGE_KEY = 'price-anomalies:excluded';
+
+// Función para obtener la clave de una muestra concreta
+export const getPointKey = (item: string, time: Date | number): string => {
+  return `${item}|${typeof time === 'number' ? time : time.getTime()}`;
+};
+
+// Función para separar una clave de muestra en item y timestamp (ms)
+export const parsePointKey = (key: string): { item: string; time: number } => {
+  const separator = key.lastIndexOf('|');
+  return { item: key.slice(0, separator), time: Number(key.slice(separator + 1)) };
+};
+
+// Precios de un item ordenados por tiempo
+export interface AnomalySeries {
+  item: string;
+  times: ArrayLike<number>;  // ms
+  prices: ArrayLike<number>;
+}
+
+// Anomalías ya detectadas de un item, que se reutilizan si la serie solo crece por el final
+interface ItemAnomalies {
+  length: number;          // Muestras analizadas
+  lastTime: number;        // Tiempo de la última muestra analizada
+  runStart: number;        // Posición en la que empieza el último tramo de precio constante
+  spikes: Anomaly[];
+  flatlines: Anomaly[];
+  candidates: Anomaly[];   // Cambios de nivel antes de quedarse con el más intenso de cada grupo
+}
+
+// Estado de la detección entre actualizaciones (ver updateAnomalies)
+export interface AnomalyCache {
+  settings: AnomalySettings;
+  items: Map<string, ItemAnomalies>;
+  lastTime: number | null; // Última muestra entre todos los items
+  gaps: Anomaly[];
+}
+
+// Secuencia creciente de valores a la que se accede por posición sin materializarla
+interface SortedView {
+  length: number;
+  at: (index: number) => number;
+}
+
+// Función para obtener la primera posición de un array ordenado con valor >= value (búsqueda binaria)
+const lowerBound = (sorted: ArrayLike<number>, value: number): number => {
+  let low = 0;
+  let high = sorted.length;
+  while (low < high) {
+    const mid = (low + high) >>> 1;
+    if (sorted[mid] < value) low = mid + 1;
+    else high = mid;
+  }
+  return low;
+};
+
+// Funciones para mantener una ventana móvil de precios ordenada
+const insertSorted = (sorted: number[], value: number) => sorted.splice(lowerBound(sorted, value), 0, value);
+const removeSorted = (sorted: number[], value: number) => sorted.splice(lowerBound(sorted, value), 1);
+
+// Función para contar los valores <= value entre varias secuencias crecientes
+const countAtMost = (views: SortedView[], value: number): number => {
+  let count = 0;
+  for (const view of views) {
+    let low = 0;
+    let high = view.length;
+    while (low < high) {
+      const mid = (low + high) >>> 1;
+      if (view.at(mid) <= value) low = mid + 1;
+      else high = mid;
+    }
+    count += low;
+  }
+  return count;
+};
+
+// Función para obtener el k-ésimo valor (desde 0) de la unión de varias secuencias crecientes
+// En cada secuencia se busca el primer valor que deja al menos k + 1 valores por debajo o igual;
+// el menor de ellos es el buscado.
+const getKthSmallest = (views: SortedView[], k: number): number => {
+  let result = Infinity;
+  for (const view of views) {
+    let low = 0;
+    let high = view.length;
+    while (low < high) {
+      const mid = (low + high) >>> 1;
+      if (countAtMost(views, view.at(mid)) > k) high = mid;
+      else low = mid + 1;
+    }
+    if (low < view.length) result = Math.min(result, view.at(low));
+  }
+  return result;
+};
+
+// Función para calcular la mediana de la unión de varias secuencias crecientes
+const getMedianOfViews = (views: SortedView[]): number => {
+  const total = views.reduce((sum, view) => sum + view.length, 0);
+  if (total === 0) return 0;
+  const middle = Math.floor(total / 2);
+  return total % 2 === 0
+    ? (getKthSmallest(views, middle - 1) + getKthSmallest(views, middle)) / 2
+    : getKthSmallest(views, middle);
+};
+
+// Función para calcular la mediana de una ventana ordenada
+const getSortedMedian = (sorted: number[]): number => getMedianOfViews([{ length: sorted.length, at: i => sorted[i] }]);
+
+// Función para obtener las desviaciones absolutas de una ventana ordenada respecto a su mediana
+// Las de los valores por debajo de la mediana y las del resto son dos secuencias crecientes,
+// así que la MAD sale de ellas sin calcular ni ordenar las desviaciones.
+const getDeviationViews = (sorted: number[], median: number): SortedView[] => {
+  const split = lowerBound(sorted, median);
+  return [
+    { length: split, at: i => median - sorted[split - 1 - i] },
+    { length: sorted.length - split, at: i => sorted[split + i] - median }
+  ];
+};
+
+// Función para obtener una escala robusta de dispersión a partir de la MAD
+const getRobustScale = (mad: number, median: number): number => {
+  return Math.max(MAD_SCALE * mad, Math.abs(median) * MIN_RELATIVE_SCALE);
+};
+
+// Función para detectar picos: muestras alejadas de la mediana móvil y de sus vecinas
+// Exigir que también se alejen de las vecinas evita marcar los cambios de nivel como picos.
+// La ventana se mantiene ordenada al avanzar, así que cada muestra cuesta O(log w) además del
+// desplazamiento al insertar y quitar. Se evalúan las muestras desde la posición `from`.
+const detectSpikes = ({ item, times, prices }: AnomalySeries, settings: AnomalySettings, from: number): Anomaly[] => {
+  const halfWindow = settings.windowHours * HOUR_MS / 2;
+  const anomalies: Anomaly[] = [];
+  const first = Math.max(from, 1);
+  if (first >= times.length - 1) return anomalies;
+
+  const window: number[] = [];
+  let start = lowerBound(times, times[first] - halfWindow);
+  let end = start - 1; // Última muestra dentro de la ventana
+
+  for (let i = first; i < times.length - 1; i++) {
+    const time = times[i];
+    while (times[start] < time - halfWindow) removeSorted(window, prices[start++]);
+    while (end + 1 < times.length && times[end + 1] <= time + halfWindow) insertSorted(window, prices[++end]);
+    if (window.length < MIN_WINDOW_SAMPLES) continue;
+
+    const median = getSortedMedian(window);
+    const scale = getRobustScale(getMedianOfViews(getDeviationViews(window, median)), median);
+    const price = prices[i];
+    const score = Math.abs(price - median) / scale;
+    const neighbours = (prices[i - 1] + prices[i + 1]) / 2;
+
+    if (score > settings.spikeThreshold && Math.abs(price - neighbours) / scale > settings.spikeThreshold) {
+      anomalies.push({
+        id: `spike|${getPointKey(item, time)}`,
+        kind: 'spike',
+        item,
+        time: new Date(time),
+        price,
+        score,
+        message: `Precio $${price.toFixed(4)} frente a una mediana de $${median.toFixed(4)}`
+      });
+    }
+  }
+  return anomalies;
+};
+
+// Función para detectar tramos en los que el precio no cambia a partir del tramo que empieza en `from`
+// Devuelve también dónde empieza el último tramo, que puede alargarse con las próximas muestras.
+const detectFlatlines = ({ item, times, prices }: AnomalySeries, settings: AnomalySettings, from: number): { anomalies: Anomaly[]; runStart: number } => {
+  const minDuration = settings.flatlineHours * HOUR_MS;
+  const anomalies: Anomaly[] = [];
+  let runStart = from;
+
+  for (let i = from + 1; i <= times.length; i++) {
+    if (i < times.length && prices[i] === prices[runStart]) continue;
+    const last = i - 1;
+    const duration = times[last] - times[runStart];
+    if (last - runStart + 1 >= 3 && duration >= minDuration) {
+      anomalies.push({
+        id: `flatline|${getPointKey(item, times[runStart])}`,
+        kind: 'flatline',
+        item,
+        time: new Date(times[runStart]),
+        endTime: new Date(times[last]),
+        price: prices[runStart],
+        score: duration / HOUR_MS,
+        message: `Precio fijo en $${prices[runStart].toFixed(4)} durante ${(duration / HOUR_MS).toFixed(1)} h (${last - runStart + 1} muestras)`
+      });
+    }
+    if (i < times.length) runStart = i;
+  }
+  return { anomalies, runStart };
+};
+
+// Función para buscar cambios de nivel comparando la mediana antes y después de cada muestra
+// Las ventanas anterior y posterior (sin los picos) se mantienen ordenadas al avanzar: cada
+// muestra pasa de la posterior a la anterior. Se evalúan las muestras desde la posición `from`.
+const detectChangePointCandidates = ({ item, times, prices }: AnomalySeries, settings: AnomalySettings, spikeTimes: Set<number>, from: number): Anomaly[] => {
+  const windowMs = settings.windowHours * HOUR_MS;
+  const candidates: Anomaly[] = [];
+  const first = Math.max(from, 1);
+  if (first >= times.length) return candidates;
+
+  const before: number[] = [];
+  const after: number[] = [];
+  const isSpike = (index: number) => spikeTimes.has(times[index]);
+  let beforeStart = lowerBound(times, times[first] - windowMs);
+  let afterEnd = first - 1; // Última muestra dentro de la ventana posterior
+  for (let j = beforeStart; j < first; j++) {
+    if (!isSpike(j)) insertSorted(before, prices[j]);
+  }
+
+  for (let i = first; i < times.length; i++) {
+    const time = times[i];
+    if (i > first && !isSpike(i - 1)) {
+      removeSorted(after, prices[i - 1]);
+      insertSorted(before, prices[i - 1]);
+    }
+    while (times[beforeStart] < time - windowMs) {
+      if (!isSpike(beforeStart)) removeSorted(before, prices[beforeStart]);
+      beforeStart++;
+    }
+    while (afterEnd + 1 < times.length && times[afterEnd + 1] <= time + windowMs) {
+      afterEnd++;
+      if (!isSpike(afterEnd)) insertSorted(after, prices[afterEnd]);
+    }
+    if (isSpike(i) || before.length < 3 || after.length < 3) continue;
+
+    const beforeMedian = getSortedMedian(before);
+    const afterMedian = getSortedMedian(after);
+    // Mediana de los residuos de ambos lados respecto a su propia mediana
+    const residualMedian = getMedianOfViews([...getDeviationViews(before, beforeMedian), ...getDeviationViews(after, afterMedian)]);
+    const scale = Math.max(MAD_SCALE * residualMedian, Math.abs(beforeMedian) * MIN_RELATIVE_SCALE);
+    const score = Math.abs(afterMedian - beforeMedian) / scale;
+
+    if (score > settings.changeThreshold) {
+      candidates.push({
+        id: `changepoint|${getPointKey(item, time)}`,
+        kind: 'changepoint',
+        item,
+        time: new Date(time),
+        price: prices[i],
+        score,
+        message: `Cambio de nivel de $${beforeMedian.toFixed(4)} a $${afterMedian.toFixed(4)}`
+      });
+    }
+  }
+  return candidates;
+};
+
+// Función para quedarse, de cada grupo de candidatos cercanos, con el cambio de mayor intensidad
+const groupChangePoints = (candidates: Anomaly[], settings: AnomalySettings): Anomaly[] => {
+  const windowMs = settings.windowHours * HOUR_MS;
+  const result: Anomaly[] = [];
+  for (const candidate of candidates) {
+    const previous = result[result.length - 1];
+    if (previous && candidate.time.getTime() - previous.time.getTime() <= windowMs) {
+      if (candidate.score > previous.score) result[result.length - 1] = candidate;
+    } else {
+      result.push(candidate);
+    }
+  }
+  return result;
+};
+
+// Función para comprobar si una serie es la ya analizada con muestras añadidas al final
+const isAppended = (previous: ItemAnomalies | undefined, { times }: AnomalySeries): previous is ItemAnomalies => {
+  return previous !== undefined && previous.length > 0 && previous.length <= times.length
+    && times[previous.length - 1] === previous.lastTime;
+};
+
+// Función para analizar un item reutilizando lo detectado en la parte de la serie que no cambia
+// Al añadir muestras solo se vuelven a evaluar las que tienen alguna nueva en su ventana:
+// picos desde media ventana antes de la primera muestra nueva y cambios de nivel desde una
+// ventana antes del primer pico que pueda haber cambiado.
+const updateItemAnomalies = (previous: ItemAnomalies | undefined, series: AnomalySeries, settings: AnomalySettings): ItemAnomalies => {
+  const { times } = series;
+  const appended = isAppended(previous, series);
+  if (appended && previous.length === times.length) return previous;
+
+  let spikeFrom = 0;
+  let changeFrom = 0;
+  let runFrom = 0;
+  if (appended) {
+    spikeFrom = Math.min(lowerBound(times, times[previous.length] - settings.windowHours * HOUR_MS / 2), previous.length - 1);
+    changeFrom = lowerBound(times, times[spikeFrom] - settings.windowHours * HOUR_MS);
+    runFrom = previous.runStart;
+  }
+  // Anomalías anteriores a una posición, que no cambian con las muestras nuevas
+  const keep = (anomalies: Anomaly[], index: number) => appended ? anomalies.filter(a => a.time.getTime() < times[index]) : [];
+
+  const spikes = [...keep(previous?.spikes ?? [], spikeFrom), ...detectSpikes(series, settings, spikeFrom)];
+  const flatlines = detectFlatlines(series, settings, runFrom);
+  const spikeTimes = new Set(spikes.map(a => a.time.getTime()));
+  return {
+    length: times.length,
+    lastTime: times[times.length - 1],
+    runStart: flatlines.runStart,
+    spikes,
+    flatlines: [...keep(previous?.flatlines ?? [], runFrom), ...flatlines.anomalies],
+    candidates: [...keep(previous?.candidates ?? [], changeFrom), ...detectChangePointCandidates(series, settings, spikeTimes, changeFrom)]
+  };
+};
+
+// Función para crear las anomalías de huecos en la recogida
+const toGapAnomalies = (times: number[], settings: AnomalySettings): Anomaly[] => {
+  return detectGaps(times, settings.gapHours * HOUR_MS).map(gap => ({
+    id: `gap|${gap.start.getTime()}`,
+    kind: 'gap',
+    item: null,
+    time: gap.start,
+    endTime: gap.end,
+    score: gap.durationMs / HOUR_MS,
+    message: `Sin muestras durante ${(gap.durationMs / HOUR_MS).toFixed(1)} h`
+  }));
+};
+
+// Función para comprobar si dos configuraciones de detección son iguales
+const isSameSettings = (a: AnomalySettings, b: AnomalySettings): boolean => {
+  return (Object.keys(a) as (keyof AnomalySettings)[]).every(key => a[key] === b[key]);
+};
+
+// Función para detectar las anomalías reutilizando el resultado de la llamada anterior
+// Si las series de los items solo han crecido por el final (precios en vivo) se analiza
+// únicamente la cola; con otros datos o con otra configuración se analiza todo de nuevo.
+// Los huecos de recogida se buscan sobre los timestamps de todos los items juntos.
+export const updateAnomalies = (cache: AnomalyCache | null, series: AnomalySeries[], settings: AnomalySettings): { anomalies: Anomaly[]; cache: AnomalyCache } => {
+  const previousItems = cache && isSameSettings(cache.settings, settings) ? cache.items : new Map<string, ItemAnomalies>();
+  const items = new Map<string, ItemAnomalies>();
+  const newTimes: number[] = [];
+  let lastTime: number | null = null;
+  // Los huecos anteriores siguen valiendo si ningún item ha cambiado ni desaparecido y todas
+  // las muestras nuevas van después de la última
+  let gapsReusable = previousItems.size > 0;
+
+  for (const s of series) {
+    if (s.times.length === 0) continue;
+    const previous = previousItems.get(s.item);
+    const appended = isAppended(previous, s);
+    if (previous && !appended) gapsReusable = false;
+    for (let i = appended ? previous.length : 0; i < s.times.length; i++) newTimes.push(s.times[i]);
+    items.set(s.item, updateItemAnomalies(previous, s, settings));
+    const itemLast = s.times[s.times.length - 1];
+    if (lastTime === null || itemLast > lastTime) lastTime = itemLast;
+  }
+
+  gapsReusable = gapsReusable && [...previousItems.keys()].every(item => items.has(item))
+    && newTimes.every(time => time >= cache!.lastTime!);
+  let gaps: Anomaly[];
+  if (gapsReusable) {
+    const times = [...new Set([cache!.lastTime!, ...newTimes])].sort((a, b) => a - b);
+    gaps = [...cache!.gaps, ...toGapAnomalies(times, settings)];
+  } else {
+    const times = new Set<number>();
+    for (const s of series) {
+      for (let i = 0; i < s.times.length; i++) times.add(s.times[i]);
+    }
+    gaps = toGapAnomalies([...times].sort((a, b) => a - b), settings);
+  }
+
+  const anomalies: Anomaly[] = [...gaps];
+  for (const state of items.values()) {
+    anomalies.push(...state.spikes, ...state.flatlines, ...groupChangePoints(state.candidates, settings));
+  }
+  anomalies.sort((a, b) => b.time.getTime() - a.time.getTime());
+  return { anomalies, cache: { settings, items, lastTime, gaps } };
+};
+
+// Función para pasar los registros planos (ordenados por timestamp) a series por item
+export const getAnomalySeries = (data: FlatDataItem[]): AnomalySeries[] => {
+  const byItem = new Map<string, { times: number[]; prices: number[] }>();
+  for (const d of data) {
+    let series = byItem.get(d.item);
+    if (!series) {
+      series = { times: [], prices: [] };
+      byItem.set(d.item, series);
+    }
+    series.times.push(d.timestamp.getTime());
+    series.prices.push(d.price);
+  }
+  return [...byItem].map(([item, { times, prices }]) => ({ item, times, prices }));
+};
+
+// Función para detectar todas las anomalías de los datos cargados
+// Se asume que los datos vienen ordenados por timestamp.
+export const detectAnomalies = (data: FlatDataItem[], settings: AnomalySettings): Anomaly[] => {
+  return updateAnomalies(null, getAnomalySeries(data), settings).anomalies;
+};
+
+// Función para indicar si una anomalía corresponde a una sola muestra que se puede excluir
+export const isExcludable = (anomaly: Anomaly): boolean => {
+  return anomaly.item !== null && (anomaly.kind === 'spike' || anomaly.kind === 'changepoint');
+};
+
+export const loadExcludedPoints = (): string[] => readStorage<string[]>(EXCLUDED_STORAGE_KEY, []);
+
+export const saveExcludedPoints = (excluded: string[]): void => writeStorage(EXCLUDED_STORAGE_KEY, excluded);
@@ -1,38 +1,44 @@
-// Interfaces
-interface PriceRecord {
-  timestamp: string;
-  price: number;
-}
-
-interface RawData {
-  items: {
-    [key: string]: PriceRecord[];
-  };
-}
+import { STREAM_CONFIG } from '@/config/stream.config';
+import type { AlertRule } from '@/lib/alerts';
+import type { DashboardInput, SavedDashboard } from '@/lib/dashboards';
+import type { ExportFormat } from '@/lib/exporters';
+import type { Resolution } from '@/lib/history';
+import { isValidHour, type HourRange } from '@/lib/hourRange';
+import type { ImportPreview } from '@/lib/importer';
+import {
+  countRecords,
+  getLastTime,
+  mergeRawData,
+  readCachedWeeks,
+  writeCachedWeeks,
+  type CachedWeek
+} from '@/lib/offlineCache';
+import type { PriceRecord, RawData, WeekFileSummary } from '@/lib/types';
 
 // Función para redondear a 2 decimales
 const roundToTwo = (num: number): number => {
   return Math.round(num * 100) / 100;
 };
 
-// Función para obtener la lista de archivos JSON disponibles
-export async function getAvailableFiles(): Promise<string[]> {
+// Función para obtener los archivos disponibles con su periodo y número de registros
+// Lanza un error si el servidor no responde, para poder pasar al modo sin conexión.
+export async function getAvailableFileDetails(): Promise<WeekFileSummary[]> {
   try {
-    const response = await fetch('/api/files');
+    const response = await fetch('/api/files?details=1');
     if (!response.ok) {
       throw new Error(`Error HTTP: ${response.status}`);
     }
     return await response.json();
   } catch (error) {
-    console.error('Error al obtener lista de archivos:', error);
-    return [];
+    console.error('Error al obtener detalles de archivos:', error);
+    throw error;
   }
 }
 
-// Función para cargar datos de un archivo JSON específico
+// Función para cargar los datos de una semana (prices_YYYY-WW.json) desde el almacenamiento del servidor
 export async function loadPricesFromFile(filename: string): Promise<RawData> {
   try {
-    const response = await fetch(`/data/${filename}`);
+    const response = await fetch(`/api/files/${encodeURIComponent(filename)}`);
     if (!response.ok) {
       throw new Error(`Error HTTP: ${response.status}`);
     }
@@ -43,46 +49,115 @@ export async function loadPricesFromFile(filename: string): Promise<RawData> {
   }
 }
 
-// Función para cargar datos de múltiples archivos
-export async function loadMultipleFiles(filenames: string[]): Promise<RawData> {
-  try {
-    const allData: RawData = { items: {} };
-    
-    for (const filename of filenames) {
-      const fileData = await loadPricesFromFile(filename);
-      
-      // Combinar datos de cada archivo
-      for (const [item, prices] of Object.entries(fileData.items)) {
-        if (!allData.items[item]) {
-          allData.items[item] = [];
-        }
-        allData.items[item] = [...allData.items[item], ...prices];
+// Función para combinar los datos de varios archivos ordenando los precios por timestamp
+const combineRawData = (filesData: RawData[]): RawData => {
+  const allData: RawData = { items: {} };
+  for (const fileData of filesData) {
+    // Combinar datos de cada archivo
+    for (const [item, prices] of Object.entries(fileData.items)) {
+      if (!allData.items[item]) {
+        allData.items[item] = [];
       }
+      allData.items[item] = allData.items[item].concat(prices);
     }
-    
-    // Ordenar todos los precios por timestamp
-    for (const item in allData.items) {
-      allData.items[item].sort((a, b) => 
-        new Date(a.timestamp).getTime() - new Date(b.timestamp).getTime()
-      );
-    }
-    
-    return allData;
+  }
+
+  // Ordenar todos los precios por timestamp
+  for (const item in allData.items) {
+    allData.items[item].sort((a, b) => 
+      new Date(a.timestamp).getTime() - new Date(b.timestamp).getTime()
+    );
+  }
+
+  return allData;
+};
+
+// Función para cargar semanas solo desde la caché local; null si falta alguna
+export async function loadCachedWeeks(filenames: string[]): Promise<RawData | null> {
+  const weeks = await readCachedWeeks(filenames);
+  if (weeks.length === 0 || weeks.length < filenames.length) return null;
+  return combineRawData(weeks.map(week => week.data));
+}
+
+// Función para actualizar una semana guardada con el servidor; null si no hace falta
+// Primero se piden solo los registros posteriores al último guardado; si aun así no coincide
+// con el resumen del servidor (por ejemplo, tras importar registros antiguos) se descarga entera.
+const refreshCachedWeek = async (week: CachedWeek, summary: WeekFileSummary | undefined): Promise<RawData | null> => {
+  if (!summary) return null;
+  const lastTime = getLastTime(week.data);
+  const serverLastTime = summary.lastTimestamp ? new Date(summary.lastTimestamp).getTime() : null;
+  if (countRecords(week.data) === summary.records && lastTime === serverLastTime) return null;
+
+  if (lastTime !== null && serverLastTime !== null && serverLastTime > lastTime) {
+    const newer = await fetchHistory({ from: new Date(lastTime + 1), to: new Date(serverLastTime) });
+    const merged = mergeRawData(week.data, newer);
+    if (countRecords(merged) === summary.records) return merged;
+  }
+  return loadPricesFromFile(week.filename);
+};
+
+// Función para cargar semanas usando la caché local y guardar en ella lo descargado
+// Las semanas que no están en caché se descargan enteras; las guardadas solo se completan.
+export async function syncCachedWeeks(filenames: string[], files: WeekFileSummary[]): Promise<RawData> {
+  try {
+    const cached = new Map((await readCachedWeeks(filenames)).map(week => [week.filename, week]));
+    const weeks = await Promise.all(filenames.map(async filename => {
+      const week = cached.get(filename);
+      if (!week) return { filename, data: await loadPricesFromFile(filename), changed: true };
+      const refreshed = await refreshCachedWeek(week, files.find(f => f.filename === filename));
+      return refreshed ? { filename, data: refreshed, changed: true } : { filename, data: week.data, changed: false };
+    }));
+    await writeCachedWeeks(weeks.filter(week => week.changed));
+    return combineRawData(weeks.map(week => week.data));
   } catch (error) {
-    console.error('Error al cargar múltiples archivos:', error);
+    console.error('Error al sincronizar las semanas con el servidor:', error);
     throw error;
   }
 }
 
-// Función para obtener el nombre del archivo semanal
-function getWeeklyFileName(): string {
-  const now = new Date();
-  const startOfWeek = new Date(now);
-  startOfWeek.setDate(now.getDate() - now.getDay()); // Domingo
-  const endOfWeek = new Date(startOfWeek);
-  endOfWeek.setDate(startOfWeek.getDate() + 6); // Sábado
-  
-  return `prices_${startOfWeek.toISOString().split('T')[0]}_to_${endOfWeek.toISOString().split('T')[0]}.json`;
+// Parámetros de consulta para /api/history
+export interface HistoryParams {
+  items?: string[];
+  from?: Date;
+  to?: Date;
+  resolution?: Resolution;
+  hours?: HourRange;
+  timeZone?: string; // Zona IANA en la que se interpretan las horas
+}
+
+// Función para construir la query string común de /api/history y /api/export
+const buildHistoryQuery = (params: HistoryParams): URLSearchParams => {
+  const query = new URLSearchParams();
+  if (params.items && params.items.length > 0) query.set('items', params.items.join(','));
+  if (params.from && !isNaN(params.from.getTime())) query.set('from', params.from.toISOString());
+  if (params.to && !isNaN(params.to.getTime())) query.set('to', params.to.toISOString());
+  if (params.resolution) query.set('resolution', params.resolution);
+  if (params.hours && params.hours.every(isValidHour)) query.set('hours', `${params.hours[0]}-${params.hours[1]}`);
+  if (params.timeZone && params.timeZone !== 'UTC') query.set('tz', params.timeZone);
+  return query;
+};
+
+// Función para obtener la URL de descarga de una selección en el formato indicado
+export function getExportUrl(params: HistoryParams, format: ExportFormat): string {
+  const query = buildHistoryQuery(params);
+  query.set('format', format);
+  return `/api/export?${query.toString()}`;
+}
+
+// Función para obtener solo el fragmento del historial que se va a dibujar
+export async function fetchHistory(params: HistoryParams = {}): Promise<RawData> {
+  try {
+    const query = buildHistoryQuery(params);
+    const response = await fetch(`/api/history?${query.toString()}`);
+    if (!response.ok) {
+      const payload = await response.json().catch(() => null);
+      throw new Error(payload?.details ? `Error HTTP: ${response.status} (${payload.details})` : `Error HTTP: ${response.status}`);
+    }
+    return await response.json();
+  } catch (error) {
+    console.error('Error al consultar el historial:', error);
+    throw error;
+  }
 }
 
 // Función para obtener datos de la API
@@ -90,7 +165,9 @@ export async function fetchPricesFromAPI(): Promise<RawData> {
   try {
     const response = await fetch('/api/prices');
     if (!response.ok) {
-      throw new Error(`Error HTTP: ${response.status}`);
+      // La ruta devuelve { error, details } cuando falla la API de origen
+      const payload = await response.json().catch(() => null);
+      throw new Error(payload?.details ? `Error HTTP: ${response.status} (${payload.details})` : `Error HTTP: ${response.status}`);
     }
     const data = await response.json() as RawData;
     
@@ -110,13 +187,155 @@ export async function fetchPricesFromAPI(): Promise<RawData> {
   }
 }
 
-// Función para cargar datos semanales
-export async function loadWeeklyPrices(): Promise<RawData> {
+// Función para enviar al servidor las reglas que deben notificarse por webhook
+export async function syncWebhookRules(rules: AlertRule[]): Promise<void> {
+  try {
+    const response = await fetch('/api/alerts/rules', {
+      method: 'PUT',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(rules.filter(rule => rule.webhook))
+    });
+    if (!response.ok) {
+      throw new Error(`Error HTTP: ${response.status}`);
+    }
+  } catch (error) {
+    console.error('Error al sincronizar reglas de webhook:', error);
+  }
+}
+
+// Función para lanzar un error HTTP con el detalle que devuelve la API
+const throwHttpError = async (response: Response): Promise<never> => {
+  const payload = await response.json().catch(() => null);
+  throw new Error(payload?.details ? `Error HTTP: ${response.status} (${payload.details})` : `Error HTTP: ${response.status}`);
+};
+
+// Función para enviar un archivo de historial a /api/import
+// Con dryRun solo se obtiene la vista previa; sin él se fusionan los registros válidos.
+export async function importPriceFile(content: string, filename: string, dryRun: boolean, allowUnknownItems: boolean = false): Promise<ImportPreview & { written?: Record<string, number> }> {
+  try {
+    const response = await fetch('/api/import', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ content, filename, dryRun, allowUnknownItems })
+    });
+    if (!response.ok) {
+      await throwHttpError(response);
+    }
+    return await response.json();
+  } catch (error) {
+    console.error('Error al importar el archivo:', error);
+    throw error;
+  }
+}
+
+// Función para obtener los dashboards guardados en el servidor
+export async function fetchDashboards(): Promise<SavedDashboard[]> {
+  try {
+    const response = await fetch('/api/dashboards');
+    if (!response.ok) {
+      await throwHttpError(response);
+    }
+    return await response.json();
+  } catch (error) {
+    console.error('Error al obtener los dashboards:', error);
+    throw error;
+  }
+}
+
+// Función para guardar un dashboard: lo crea si no hay id y lo reemplaza si lo hay
+export async function saveDashboard(input: DashboardInput, id?: string): Promise<SavedDashboard> {
   try {
-    const weeklyFile = getWeeklyFileName();
-    return await loadPricesFromFile(weeklyFile);
+    const response = await fetch(id ? `/api/dashboards/${encodeURIComponent(id)}` : '/api/dashboards', {
+      method: id ? 'PUT' : 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(input)
+    });
+    if (!response.ok) {
+      await throwHttpError(response);
+    }
+    return await response.json();
   } catch (error) {
-    console.error('Error al cargar datos semanales:', error);
+    console.error('Error al guardar el dashboard:', error);
     throw error;
   }
-} 
\ No newline at end of file
+}
+
+// Función para eliminar un dashboard guardado
+export async function deleteDashboard(id: string): Promise<void> {
+  try {
+    const response = await fetch(`/api/dashboards/${encodeURIComponent(id)}`, { method: 'DELETE' });
+    if (!response.ok) {
+      await throwHttpError(response);
+    }
+  } catch (error) {
+    console.error('Error al eliminar el dashboard:', error);
+    throw error;
+  }
+}
+
+// Estado de la conexión con /api/stream
+export type StreamStatus = 'connecting' | 'live' | 'reconnecting';
+
+export interface PriceStreamHandlers {
+  getSince: () => number | null;          // Timestamp (ms) del último registro recibido, para reanudar
+  onPrices: (data: RawData) => void;       // Registros nuevos de cada item
+  onStatus: (status: StreamStatus) => void;
+}
+
+// Función para recibir los precios nuevos en vivo; devuelve la función que cierra la conexión
+// EventSource reconecta solo con Last-Event-ID; si el servidor responde con error la conexión
+// queda cerrada y se reabre aquí con espera exponencial, reanudando desde getSince().
+export function connectPriceStream({ getSince, onPrices, onStatus }: PriceStreamHandlers): () => void {
+  let source: EventSource | null = null;
+  let retryTimeout: ReturnType<typeof setTimeout> | undefined;
+  let attempts = 0;
+  let closed = false;
+
+  const open = () => {
+    const since = getSince();
+    source = new EventSource(since !== null ? `/api/stream?since=${since}` : '/api/stream');
+    onStatus(attempts === 0 ? 'connecting' : 'reconnecting');
+
+    source.onopen = () => {
+      attempts = 0;
+      onStatus('live');
+    };
+
+    source.addEventListener('prices', (event) => {
+      try {
+        const data = JSON.parse((event as MessageEvent<string>).data) as RawData;
+        const processedData: RawData = { items: {} };
+        for (const [item, prices] of Object.entries(data.items)) {
+          processedData.items[item] = prices.map((record: PriceRecord) => ({
+            ...record,
+            price: roundToTwo(record.price)
+          }));
+        }
+        onPrices(processedData);
+      } catch (error) {
+        console.error('Error al procesar precios en vivo:', error);
+      }
+    });
+
+    source.onerror = () => {
+      if (closed || !source) return;
+      if (source.readyState !== EventSource.CLOSED) {
+        onStatus('reconnecting');
+        return;
+      }
+      source.close();
+      attempts++;
+      onStatus('reconnecting');
+      const delay = Math.min(STREAM_CONFIG.retryDelay * 2 ** (attempts - 1), STREAM_CONFIG.maxReconnectDelay);
+      retryTimeout = setTimeout(open, delay);
+    };
+  };
+
+  open();
+
+  return () => {
+    closed = true;
+    clearTimeout(retryTimeout);
+    source?.close();
+  };
+}
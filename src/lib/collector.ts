@@ -0,0 +1,97 @@
+// Recolector de precios: consulta la API de origen, guarda las instantáneas
+// en el almacenamiento del historial y las difunde a /api/stream.
+
+import { API_CONFIG } from '@/config/api.config';
+import { getPriceStore } from '@/lib/priceStore';
+import { publishPrices } from '@/lib/priceStream';
+import { fetchUpstreamPrices } from '@/lib/upstream';
+import { processFreshPrices } from '@/lib/webhooks';
+
+export interface CollectResult {
+  timestamp: string;
+  items: number;
+  added: Record<string, number>;
+}
+
+// Guardado en globalThis para no duplicar el intervalo con recargas en caliente
+const globalForCollector = globalThis as unknown as {
+  priceCollectorTimer?: ReturnType<typeof setTimeout>;
+  priceCollectorLastRun?: number;    // Inicio (ms) de la última recolección
+  priceCollectorPermanent?: boolean; // Iniciado con PRICE_COLLECTOR=on
+  priceCollectorClients?: number;    // Conexiones de /api/stream que necesitan la recolección
+};
+
+// Función para realizar una única recolección de precios
+export async function collectOnce(): Promise<CollectResult> {
+  globalForCollector.priceCollectorLastRun = Date.now();
+  const data = await fetchUpstreamPrices();
+  const added = await (await getPriceStore()).append(data);
+  publishPrices(data);
+  processFreshPrices(data).catch(error => {
+    console.error('Error al procesar alertas por webhook:', error);
+  });
+  return {
+    timestamp: new Date().toISOString(),
+    items: Object.keys(data.items).length,
+    added
+  };
+}
+
+// Función para arrancar el intervalo de recolección si no está en marcha
+// Si la última recolección fue hace menos de un intervalo (por ejemplo, cuando los clientes
+// de /api/stream se reconectan a la vez) la primera espera a que le toque en vez de ir al origen.
+const startTimer = (): void => {
+  if (globalForCollector.priceCollectorTimer) return;
+
+  const run = async () => {
+    try {
+      const result = await collectOnce();
+      console.log(`Recolección de precios completada (${result.items} items):`, result.added);
+    } catch (error) {
+      console.error('Error en la recolección de precios:', error);
+    }
+  };
+
+  const tick = () => {
+    run();
+    globalForCollector.priceCollectorTimer = setTimeout(tick, API_CONFIG.updateInterval);
+  };
+  const lastRun = globalForCollector.priceCollectorLastRun ?? -Infinity;
+  const delay = Math.max(0, lastRun + API_CONFIG.updateInterval - Date.now());
+  globalForCollector.priceCollectorTimer = setTimeout(tick, delay);
+  console.log(`Recolector de precios iniciado cada ${API_CONFIG.updateInterval / 1000}s`);
+};
+
+// Función para iniciar la recolección periódica según API_CONFIG.updateInterval
+export function startCollector(): void {
+  globalForCollector.priceCollectorPermanent = true;
+  startTimer();
+}
+
+// Función para mantener la recolección mientras haya clientes en vivo
+// Devuelve la función que libera la reserva; al liberar la última se detiene,
+// salvo que el recolector se iniciara con startCollector.
+export function retainCollector(): () => void {
+  globalForCollector.priceCollectorClients = (globalForCollector.priceCollectorClients ?? 0) + 1;
+  startTimer();
+
+  let released = false;
+  return () => {
+    if (released) return;
+    released = true;
+    globalForCollector.priceCollectorClients = Math.max(0, (globalForCollector.priceCollectorClients ?? 1) - 1);
+    if (globalForCollector.priceCollectorClients === 0 && !globalForCollector.priceCollectorPermanent) {
+      stopCollector();
+    }
+  };
+}
+
+// Función para detener la recolección periódica
+export function stopCollector(): void {
+  globalForCollector.priceCollectorPermanent = false;
+  if (globalForCollector.priceCollectorTimer) {
+    clearTimeout(globalForCollector.priceCollectorTimer);
+    globalForCollector.priceCollectorTimer = undefined;
+    console.log('Recolector de precios detenido');
+  }
+}
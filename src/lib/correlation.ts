@@ -0,0 +1,152 @@
+// Correlación entre items sobre series alineadas en el tiempo
+// Las series se alinean con alignItems (último precio de cada intervalo arrastrando el valor anterior).
+
+import type { AlignedSeries } from '@/lib/resample';
+
+export type CorrelationMethod = 'pearson' | 'spearman';
+
+// 'price' correlaciona niveles de precio; 'returns' correlaciona variaciones relativas entre intervalos
+export type CorrelationBasis = 'price' | 'returns';
+
+export interface CorrelationMatrix {
+  items: string[];
+  values: (number | null)[][]; // null cuando no hay suficientes observaciones comunes
+  counts: number[][];          // Observaciones usadas en cada par
+}
+
+export interface RollingCorrelationPoint {
+  time: Date;
+  value: number;
+}
+
+// Mínimo de observaciones comunes para considerar fiable una correlación
+export const MIN_OBSERVATIONS = 3;
+
+// Función para convertir una serie de precios en variaciones relativas entre intervalos
+// El primer valor queda a null porque no tiene intervalo anterior.
+export const toReturns = (values: (number | null)[]): (number | null)[] => {
+  return values.map((value, i) => {
+    const previous = i > 0 ? values[i - 1] : null;
+    if (value === null || previous === null || previous === 0) return null;
+    return value / previous - 1;
+  });
+};
+
+// Función para obtener los rangos de una serie (los empates reciben el rango medio)
+const getRanks = (values: number[]): number[] => {
+  const order = values.map((value, index) => ({ value, index })).sort((a, b) => a.value - b.value);
+  const ranks = new Array<number>(values.length);
+  let i = 0;
+  while (i < order.length) {
+    let j = i;
+    while (j + 1 < order.length && order[j + 1].value === order[i].value) j++;
+    const rank = (i + j) / 2 + 1;
+    for (let k = i; k <= j; k++) ranks[order[k].index] = rank;
+    i = j + 1;
+  }
+  return ranks;
+};
+
+// Función para calcular el coeficiente de Pearson
+// Devuelve null si alguna serie es constante.
+export const pearson = (x: number[], y: number[]): number | null => {
+  const n = Math.min(x.length, y.length);
+  if (n < MIN_OBSERVATIONS) return null;
+
+  let sumX = 0;
+  let sumY = 0;
+  for (let i = 0; i < n; i++) {
+    sumX += x[i];
+    sumY += y[i];
+  }
+  const meanX = sumX / n;
+  const meanY = sumY / n;
+
+  let covariance = 0;
+  let varianceX = 0;
+  let varianceY = 0;
+  for (let i = 0; i < n; i++) {
+    const dx = x[i] - meanX;
+    const dy = y[i] - meanY;
+    covariance += dx * dy;
+    varianceX += dx * dx;
+    varianceY += dy * dy;
+  }
+
+  if (varianceX === 0 || varianceY === 0) return null;
+  return Math.max(-1, Math.min(1, covariance / Math.sqrt(varianceX * varianceY)));
+};
+
+// Función para calcular el coeficiente de Spearman (Pearson sobre los rangos)
+export const spearman = (x: number[], y: number[]): number | null => {
+  return pearson(getRanks(x), getRanks(y));
+};
+
+// Función para obtener los pares de valores presentes en ambas series
+const getPairs = (a: (number | null)[], b: (number | null)[], start: number = 0, end: number = a.length): [number[], number[]] => {
+  const x: number[] = [];
+  const y: number[] = [];
+  for (let i = start; i < end; i++) {
+    if (a[i] !== null && b[i] !== null) {
+      x.push(a[i]!);
+      y.push(b[i]!);
+    }
+  }
+  return [x, y];
+};
+
+// Función para correlacionar dos series con el método indicado
+export const correlate = (a: (number | null)[], b: (number | null)[], method: CorrelationMethod): { value: number | null; count: number } => {
+  const [x, y] = getPairs(a, b);
+  return { value: method === 'spearman' ? spearman(x, y) : pearson(x, y), count: x.length };
+};
+
+// Función para preparar las series según la base elegida
+export const getBasisSeries = (aligned: AlignedSeries, basis: CorrelationBasis): Record<string, (number | null)[]> => {
+  if (basis === 'price') return aligned.series;
+  return Object.fromEntries(Object.entries(aligned.series).map(([item, values]) => [item, toReturns(values)]));
+};
+
+// Función para calcular la matriz de correlación entre todos los items
+export const computeCorrelationMatrix = (aligned: AlignedSeries, method: CorrelationMethod, basis: CorrelationBasis): CorrelationMatrix => {
+  const series = getBasisSeries(aligned, basis);
+  const items = Object.keys(series);
+  const values = items.map(() => new Array<number | null>(items.length).fill(null));
+  const counts = items.map(() => new Array<number>(items.length).fill(0));
+
+  for (let i = 0; i < items.length; i++) {
+    for (let j = i; j < items.length; j++) {
+      const { value, count } = correlate(series[items[i]], series[items[j]], method);
+      values[i][j] = values[j][i] = i === j && value !== null ? 1 : value;
+      counts[i][j] = counts[j][i] = count;
+    }
+  }
+
+  return { items, values, counts };
+};
+
+// Función para calcular la correlación en una ventana móvil de `windowSize` intervalos
+// Cada punto lleva el timestamp del último intervalo de su ventana.
+export const computeRollingCorrelation = (
+  aligned: AlignedSeries,
+  itemA: string,
+  itemB: string,
+  windowSize: number,
+  method: CorrelationMethod,
+  basis: CorrelationBasis
+): RollingCorrelationPoint[] => {
+  const series = getBasisSeries(aligned, basis);
+  const a = series[itemA];
+  const b = series[itemB];
+  if (!a || !b) return [];
+
+  const points: RollingCorrelationPoint[] = [];
+  for (let end = windowSize; end <= aligned.times.length; end++) {
+    const [x, y] = getPairs(a, b, end - windowSize, end);
+    const value = method === 'spearman' ? spearman(x, y) : pearson(x, y);
+    if (value !== null) {
+      points.push({ time: new Date(aligned.times[end - 1]), value });
+    }
+  }
+  return points;
+};
@@ -0,0 +1,68 @@
+// Cálculo de márgenes de fabricación a partir de las recetas y del historial de precios
+
+import type { Recipe } from '@/config/recipes.config';
+import { alignItems } from '@/lib/resample';
+import type { FlatDataItem } from '@/lib/types';
+
+export interface MarginPoint {
+  time: Date;
+  outputPrice: number; // Precio de una unidad del producto
+  inputCost: number;   // Coste de los insumos por unidad producida
+  spread: number;      // outputPrice - inputCost
+  marginPct: number;   // spread sobre inputCost, en %
+}
+
+export interface RecipeMargin {
+  recipe: Recipe;
+  points: MarginPoint[];
+  latest: MarginPoint | null;
+  missingItems: string[]; // Items de la receta sin datos cargados
+}
+
+const HOUR_MS = 60 * 60 * 1000;
+
+// Función para obtener todos los items que intervienen en una receta
+export const getRecipeItems = (recipe: Recipe): string[] => {
+  return [recipe.output, ...recipe.inputs.map(input => input.item)];
+};
+
+// Función para calcular el margen de una receta en cada intervalo de tiempo
+// Las series se alinean tomando el último precio de cada intervalo y
+// arrastrando el valor anterior cuando un item no tiene muestras.
+export const computeRecipeMargins = (recipe: Recipe, data: FlatDataItem[], intervalMs: number = HOUR_MS): RecipeMargin => {
+  const items = getRecipeItems(recipe);
+  const aligned = alignItems(data, items, { intervalMs, fill: 'ffill', aggregation: 'last' });
+
+  const missingItems = items.filter(item => aligned.series[item].every(price => price === null));
+  if (missingItems.length > 0) {
+    return { recipe, points: [], latest: null, missingItems };
+  }
+
+  const points: MarginPoint[] = [];
+  for (let i = 0; i < aligned.times.length; i++) {
+    // Solo hay margen cuando todos los items tienen algún precio conocido
+    if (items.some(item => aligned.series[item][i] === null)) continue;
+    const current = new Map(items.map(item => [item, aligned.series[item][i]!]));
+
+    const batchCost = recipe.inputs.reduce((sum, input) => sum + current.get(input.item)! * input.quantity, 0)
+      + (recipe.extraCost ?? 0);
+    const inputCost = batchCost / recipe.outputQuantity;
+    const outputPrice = current.get(recipe.output)!;
+    const spread = outputPrice - inputCost;
+
+    points.push({
+      time: new Date(aligned.times[i]),
+      outputPrice,
+      inputCost,
+      spread,
+      marginPct: inputCost > 0 ? (spread / inputCost) * 100 : 0
+    });
+  }
+
+  return {
+    recipe,
+    points,
+    latest: points.length > 0 ? points[points.length - 1] : null,
+    missingItems
+  };
+};
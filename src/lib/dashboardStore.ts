@@ -0,0 +1,59 @@
+// Almacenamiento de los dashboards guardados en data/dashboards.json
+// Solo debe usarse desde rutas de la API, instrumentation o scripts de Node.
+
+import crypto from 'crypto';
+import path from 'path';
+import { readJsonFile, SERVER_DATA_DIR, writeJsonAtomic } from '@/lib/dataStore';
+import type { DashboardInput, SavedDashboard } from '@/lib/dashboards';
+
+const DASHBOARDS_FILE = path.join(SERVER_DATA_DIR, 'dashboards.json');
+
+// Cola para serializar las modificaciones dentro del mismo proceso
+let updateQueue: Promise<unknown> = Promise.resolve();
+
+// Función para leer todos los dashboards guardados
+export async function readDashboards(): Promise<SavedDashboard[]> {
+  return readJsonFile<SavedDashboard[]>(DASHBOARDS_FILE, []);
+}
+
+// Función para leer, modificar y guardar los dashboards sin pisar cambios concurrentes
+const updateDashboards = <T>(update: (dashboards: SavedDashboard[]) => { dashboards: SavedDashboard[] | null; result: T }): Promise<T> => {
+  const task = updateQueue.then(async () => {
+    const { dashboards, result } = update(await readDashboards());
+    if (dashboards) {
+      await writeJsonAtomic(DASHBOARDS_FILE, dashboards);
+    }
+    return result;
+  });
+
+  // Un fallo no debe bloquear las modificaciones siguientes
+  updateQueue = task.catch(() => undefined);
+  return task;
+};
+
+// Función para crear un dashboard nuevo
+export function createDashboard(input: DashboardInput): Promise<SavedDashboard> {
+  return updateDashboards(dashboards => {
+    const now = new Date().toISOString();
+    const dashboard: SavedDashboard = { id: crypto.randomUUID(), ...input, createdAt: now, updatedAt: now };
+    return { dashboards: [...dashboards, dashboard], result: dashboard };
+  });
+}
+
+// Función para reemplazar el nombre y los paneles de un dashboard; devuelve null si no existe
+export function updateDashboard(id: string, input: DashboardInput): Promise<SavedDashboard | null> {
+  return updateDashboards(dashboards => {
+    const current = dashboards.find(d => d.id === id);
+    if (!current) return { dashboards: null, result: null };
+    const dashboard: SavedDashboard = { ...current, ...input, updatedAt: new Date().toISOString() };
+    return { dashboards: dashboards.map(d => d.id === id ? dashboard : d), result: dashboard };
+  });
+}
+
+// Función para eliminar un dashboard; devuelve false si no existe
+export function deleteDashboard(id: string): Promise<boolean> {
+  return updateDashboards(dashboards => {
+    if (!dashboards.some(d => d.id === id)) return { dashboards: null, result: false };
+    return { dashboards: dashboards.filter(d => d.id !== id), result: true };
+  });
+}
@@ -0,0 +1,13 @@
+import { describe, expect, it } from 'vitest';
+import { createPanel, isValidDashboardPanel } from '@/lib/dashboards';
+
+describe('isValidDashboardPanel', () => {
+  it('acepta un panel recién creado', () => {
+    expect(isValidDashboardPanel(createPanel('evolution', ['steak']))).toBe(true);
+  });
+
+  it('rechaza tipos y periodos heredados de Object.prototype', () => {
+    expect(isValidDashboardPanel({ ...createPanel('evolution'), kind: 'constructor' })).toBe(false);
+    expect(isValidDashboardPanel({ ...createPanel('evolution'), period: 'toString' })).toBe(false);
+  });
+});
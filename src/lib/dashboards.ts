@@ -0,0 +1,140 @@
+// Dashboards guardados: paneles de gráficos con su propia configuración de items y fechas
+// Los tipos y la validación se comparten entre el cliente y la API /api/dashboards.
+
+import { createId } from '@/lib/alerts';
+import { isHourInRange, isValidHour, type HourRange } from '@/lib/hourRange';
+import type { FlatDataItem } from '@/lib/types';
+
+export type PanelKind = 'evolution' | 'trends' | 'heatmap' | 'seasonality' | 'correlation' | 'crafting';
+
+// 'all' usa todas las semanas cargadas, 'last' los últimos N días con datos y 'range' un rango fijo
+export type PanelPeriod = 'all' | 'last' | 'range';
+
+export interface DashboardPanel {
+  id: string;
+  kind: PanelKind;
+  items: string[];   // Vacío = todos los items (en los paneles que lo admiten)
+  period: PanelPeriod;
+  lastDays: number;  // Con period 'last'
+  from: string;      // YYYY-MM-DD, con period 'range'
+  to: string;
+  hours: HourRange;
+}
+
+export interface SavedDashboard {
+  id: string;
+  name: string;
+  panels: DashboardPanel[];
+  createdAt: string;
+  updatedAt: string;
+}
+
+// Datos que envía el cliente al crear o actualizar un dashboard
+export interface DashboardInput {
+  name: string;
+  panels: DashboardPanel[];
+}
+
+// Etiqueta de cada tipo de panel y número máximo de items (null = sin límite, 0 = no usa items)
+export const PANEL_KINDS: Record<PanelKind, { label: string; maxItems: number | null }> = {
+  evolution: { label: 'Evolución de precios', maxItems: 2 },
+  trends: { label: 'Tendencia diaria', maxItems: null },
+  heatmap: { label: 'Mapa de calor por hora', maxItems: null },
+  seasonality: { label: 'Estacionalidad', maxItems: null },
+  correlation: { label: 'Correlación entre items', maxItems: null },
+  crafting: { label: 'Márgenes de fabricación', maxItems: 0 }
+};
+
+export const PANEL_PERIOD_LABELS: Record<PanelPeriod, string> = {
+  all: 'Semanas cargadas',
+  last: 'Últimos días',
+  range: 'Rango de fechas'
+};
+
+export const MAX_DASHBOARD_NAME_LENGTH = 80;
+export const MAX_DASHBOARD_PANELS = 20;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const DAY_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+// Función para crear un panel con la configuración por defecto
+export const createPanel = (kind: PanelKind, items: string[] = []): DashboardPanel => {
+  const maxItems = PANEL_KINDS[kind].maxItems;
+  return {
+    id: createId(),
+    kind,
+    items: maxItems === null ? items : items.slice(0, maxItems),
+    period: 'all',
+    lastDays: 7,
+    from: '',
+    to: '',
+    hours: [0, 23]
+  };
+};
+
+// Función para comprobar que un valor recibido es un panel válido
+export const isValidDashboardPanel = (value: unknown): value is DashboardPanel => {
+  if (!value || typeof value !== 'object') return false;
+  const panel = value as Record<string, unknown>;
+  const kind = typeof panel.kind === 'string' && Object.prototype.hasOwnProperty.call(PANEL_KINDS, panel.kind) ? PANEL_KINDS[panel.kind as PanelKind] : null;
+  const hours = panel.hours as unknown[];
+  return typeof panel.id === 'string' && panel.id !== ''
+    && kind !== null
+    && Array.isArray(panel.items) && panel.items.every(item => typeof item === 'string')
+    && (kind.maxItems === null || panel.items.length <= kind.maxItems)
+    && typeof panel.period === 'string' && Object.prototype.hasOwnProperty.call(PANEL_PERIOD_LABELS, panel.period)
+    && typeof panel.lastDays === 'number' && Number.isInteger(panel.lastDays) && panel.lastDays > 0
+    && typeof panel.from === 'string' && (panel.from === '' || DAY_PATTERN.test(panel.from))
+    && typeof panel.to === 'string' && (panel.to === '' || DAY_PATTERN.test(panel.to))
+    && Array.isArray(hours) && hours.length === 2
+    && hours.every(hour => typeof hour === 'number' && isValidHour(hour));
+};
+
+// Función para validar el cuerpo de creación o actualización de un dashboard
+// Devuelve el motivo del rechazo como texto, o los datos normalizados.
+export const parseDashboardInput = (value: unknown): DashboardInput | string => {
+  if (!value || typeof value !== 'object') return 'Se esperaba un objeto { name, panels }';
+  const { name, panels } = value as Record<string, unknown>;
+
+  if (typeof name !== 'string' || name.trim() === '') return 'El nombre es obligatorio';
+  if (name.trim().length > MAX_DASHBOARD_NAME_LENGTH) return `El nombre no puede superar ${MAX_DASHBOARD_NAME_LENGTH} caracteres`;
+  if (!Array.isArray(panels)) return 'Se esperaba una lista de paneles';
+  if (panels.length > MAX_DASHBOARD_PANELS) return `Un dashboard no puede tener más de ${MAX_DASHBOARD_PANELS} paneles`;
+
+  const invalidIndex = panels.findIndex(panel => !isValidDashboardPanel(panel));
+  if (invalidIndex !== -1) return `Panel inválido en la posición ${invalidIndex + 1}`;
+  if (new Set(panels.map((panel: DashboardPanel) => panel.id)).size !== panels.length) return 'Hay paneles con el mismo id';
+
+  // Conservar solo los campos conocidos de cada panel
+  return {
+    name: name.trim(),
+    panels: panels.map(({ id, kind, items, period, lastDays, from, to, hours }: DashboardPanel) => ({
+      id, kind, items, period, lastDays, from, to, hours: [hours[0], hours[1]] as HourRange
+    }))
+  };
+};
+
+// Función para filtrar los datos cargados según los items, el periodo y las horas de un panel
+// Se asume que los datos vienen ordenados por timestamp. Los días y horas son los de la zona
+// horaria con la que se prepararon los datos (FlatDataItem.day y hour).
+export const filterPanelData = (data: FlatDataItem[], panel: DashboardPanel): FlatDataItem[] => {
+  const items = panel.items.length > 0 && PANEL_KINDS[panel.kind].maxItems !== 0 ? new Set(panel.items) : null;
+
+  let fromDay = '';
+  let toDay = '';
+  if (panel.period === 'last' && data.length > 0) {
+    // Días naturales contando el último día con datos
+    const lastDay = new Date(`${data[data.length - 1].day}T00:00:00.000Z`).getTime();
+    fromDay = new Date(lastDay - (panel.lastDays - 1) * DAY_MS).toISOString().split('T')[0];
+  } else if (panel.period === 'range') {
+    fromDay = panel.from;
+    toDay = panel.to;
+  }
+
+  const allHours = panel.hours[0] === 0 && panel.hours[1] === 23;
+  return data.filter(d => {
+    return (!fromDay || d.day >= fromDay) && (!toDay || d.day <= toDay)
+      && (!items || items.has(d.item))
+      && (allHours || isHourInRange(d.hour, panel.hours));
+  });
+};
@@ -0,0 +1,142 @@
+// Acceso de servidor a los archivos semanales de precios en public/data
+// Solo debe usarse desde rutas de la API, instrumentation o scripts de Node.
+
+import fs from 'fs';
+import path from 'path';
+import type { PriceRecord, RawData } from '@/lib/types';
+import { getWeekFileName, isPriceFileName, sortWeekFiles } from '@/lib/weekFiles';
+
+export const DATA_DIR = path.join(process.cwd(), 'public', 'data');
+
+// Archivos de estado del servidor que no deben publicarse (reglas, configuraciones...)
+export const SERVER_DATA_DIR = path.join(process.cwd(), 'data');
+
+// Cola para serializar escrituras dentro del mismo proceso
+let writeQueue: Promise<unknown> = Promise.resolve();
+
+// Función para listar los archivos de precios, más reciente primero
+export async function listPriceFiles(): Promise<string[]> {
+  try {
+    const entries = await fs.promises.readdir(DATA_DIR);
+    return sortWeekFiles(entries.filter(isPriceFileName));
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+      return [];
+    }
+    throw error;
+  }
+}
+
+// Función para leer un archivo semanal; devuelve datos vacíos si no existe
+export async function readWeekFile(filename: string): Promise<RawData> {
+  const filePath = path.join(DATA_DIR, filename);
+  try {
+    const content = await fs.promises.readFile(filePath, 'utf-8');
+    const data = JSON.parse(content) as RawData;
+    if (!data || typeof data.items !== 'object') {
+      throw new Error(`Formato inválido en ${filename}`);
+    }
+    return data;
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+      return { items: {} };
+    }
+    throw error;
+  }
+}
+
+// Función para escribir un archivo JSON de forma atómica
+// Se escribe en un archivo temporal y se renombra, de modo que un fallo a mitad
+// de escritura nunca deja un archivo corrupto.
+export async function writeJsonAtomic(filePath: string, data: unknown): Promise<void> {
+  await fs.promises.mkdir(path.dirname(filePath), { recursive: true });
+  const tempPath = `${filePath}.${process.pid}.${Date.now()}.tmp`;
+  try {
+    await fs.promises.writeFile(tempPath, JSON.stringify(data, null, 4), 'utf-8');
+    await fs.promises.rename(tempPath, filePath);
+  } catch (error) {
+    await fs.promises.rm(tempPath, { force: true });
+    throw error;
+  }
+}
+
+// Función para leer un archivo JSON; devuelve `fallback` si no existe
+export async function readJsonFile<T>(filePath: string, fallback: T): Promise<T> {
+  try {
+    return JSON.parse(await fs.promises.readFile(filePath, 'utf-8')) as T;
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+      return fallback;
+    }
+    throw error;
+  }
+}
+
+// Función para escribir un archivo semanal de forma atómica
+export async function writeWeekFileAtomic(filename: string, data: RawData): Promise<void> {
+  await writeJsonAtomic(path.join(DATA_DIR, filename), data);
+}
+
+// Función para combinar registros nuevos con los existentes sin duplicar timestamps
+// Devuelve cuántos registros nuevos se añadieron.
+export function mergeRecords(target: RawData, incoming: RawData): number {
+  let added = 0;
+  for (const [item, records] of Object.entries(incoming.items)) {
+    const existing = target.items[item] ?? [];
+    const seen = new Set(existing.map(record => new Date(record.timestamp).getTime()));
+    const merged: PriceRecord[] = [...existing];
+
+    for (const record of records) {
+      const time = new Date(record.timestamp).getTime();
+      if (isNaN(time) || seen.has(time)) continue;
+      seen.add(time);
+      merged.push(record);
+      added++;
+    }
+
+    merged.sort((a, b) => new Date(a.timestamp).getTime() - new Date(b.timestamp).getTime());
+    target.items[item] = merged;
+  }
+  return added;
+}
+
+// Función para repartir registros según el archivo semanal al que pertenecen
+export function groupByWeekFile(data: RawData): Record<string, RawData> {
+  const byFile: Record<string, RawData> = {};
+  for (const [item, records] of Object.entries(data.items)) {
+    for (const record of records) {
+      const date = new Date(record.timestamp);
+      if (isNaN(date.getTime())) {
+        console.warn(`Timestamp inválido para ${item}: ${record.timestamp}`);
+        continue;
+      }
+      const filename = getWeekFileName(date);
+      byFile[filename] ??= { items: {} };
+      (byFile[filename].items[item] ??= []).push(record);
+    }
+  }
+  return byFile;
+}
+
+// Función para añadir registros a los archivos semanales que correspondan
+// Cada registro va al archivo de su semana ISO, así el cambio de semana crea un archivo nuevo.
+export function appendToWeekFiles(data: RawData): Promise<Record<string, number>> {
+  const task = writeQueue.then(async () => {
+    const byFile = groupByWeekFile(data);
+
+    const summary: Record<string, number> = {};
+    for (const [filename, incoming] of Object.entries(byFile)) {
+      const current = await readWeekFile(filename);
+      const added = mergeRecords(current, incoming);
+      if (added > 0) {
+        await writeWeekFileAtomic(filename, current);
+      }
+      summary[filename] = added;
+    }
+    return summary;
+  });
+
+  // Un fallo no debe bloquear las escrituras siguientes
+  writeQueue = task.catch(() => undefined);
+  return task;
+}
@@ -0,0 +1,85 @@
+// Conversión de datos de precios a formatos de exportación
+// Formatos: CSV largo (timestamp,item,price), JSON por líneas y CSV pivotado (una columna por item).
+
+import type { RawData } from '@/lib/types';
+
+export const EXPORT_FORMATS = {
+  csv: { label: 'CSV', extension: 'csv', contentType: 'text/csv; charset=utf-8' },
+  ndjson: { label: 'NDJSON', extension: 'ndjson', contentType: 'application/x-ndjson; charset=utf-8' },
+  wide: { label: 'CSV pivotado', extension: 'csv', contentType: 'text/csv; charset=utf-8' },
+} as const;
+
+export type ExportFormat = keyof typeof EXPORT_FORMATS;
+
+interface ExportRow {
+  timestamp: string;
+  item: string;
+  price: number;
+}
+
+// Función para validar un formato de exportación recibido como texto
+export function isExportFormat(value: string): value is ExportFormat {
+  return Object.prototype.hasOwnProperty.call(EXPORT_FORMATS, value);
+}
+
+// Función para escapar un valor de CSV
+const escapeCsv = (value: string | number): string => {
+  const text = String(value);
+  return /[",\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+// Función para obtener las filas ordenadas por timestamp y después por item
+// Los timestamps se normalizan a ISO 8601 en UTC.
+const getRows = (data: RawData): ExportRow[] => {
+  const rows: ExportRow[] = [];
+  for (const [item, records] of Object.entries(data.items)) {
+    for (const record of records) {
+      const date = new Date(record.timestamp);
+      if (isNaN(date.getTime())) continue;
+      rows.push({ timestamp: date.toISOString(), item, price: Number(record.price) });
+    }
+  }
+  return rows.sort((a, b) => a.timestamp.localeCompare(b.timestamp) || a.item.localeCompare(b.item));
+};
+
+// Función para exportar en CSV largo: una fila por item y timestamp
+export function toCsv(data: RawData): string {
+  const lines = ['timestamp,item,price'];
+  for (const row of getRows(data)) {
+    lines.push([row.timestamp, escapeCsv(row.item), row.price].join(','));
+  }
+  return lines.join('\n') + '\n';
+}
+
+// Función para exportar en JSON por líneas: un objeto por item y timestamp
+export function toNdjson(data: RawData): string {
+  return getRows(data).map(row => JSON.stringify(row)).join('\n') + '\n';
+}
+
+// Función para exportar en CSV pivotado: una fila por timestamp y una columna por item
+export function toWideCsv(data: RawData): string {
+  const items = Object.keys(data.items).sort();
+  const byTimestamp = new Map<string, Map<string, number>>();
+  for (const row of getRows(data)) {
+    if (!byTimestamp.has(row.timestamp)) byTimestamp.set(row.timestamp, new Map());
+    byTimestamp.get(row.timestamp)!.set(row.item, row.price);
+  }
+
+  const lines = [['timestamp', ...items].map(escapeCsv).join(',')];
+  for (const [timestamp, prices] of byTimestamp) {
+    lines.push([timestamp, ...items.map(item => prices.get(item) ?? '')].join(','));
+  }
+  return lines.join('\n') + '\n';
+}
+
+// Función para exportar en el formato indicado
+export function exportData(data: RawData, format: ExportFormat): string {
+  switch (format) {
+    case 'csv':
+      return toCsv(data);
+    case 'ndjson':
+      return toNdjson(data);
+    case 'wide':
+      return toWideCsv(data);
+  }
+}
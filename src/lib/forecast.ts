@@ -0,0 +1,223 @@
+// Pronóstico de precios a corto plazo sobre la serie horaria de cada item
+// Modelos locales: Holt-Winters aditivo con estacionalidad diaria y tendencia lineal por mínimos cuadrados.
+
+import { resampleSeries, type Sample } from '@/lib/resample';
+import { getIsoWeek, getIsoWeekStart } from '@/lib/weekFiles';
+
+export type ForecastModel = 'holt-winters' | 'linear';
+
+export interface ForecastPoint {
+  time: Date;
+  value: number;
+  lower: number; // Límite inferior del intervalo de confianza
+  upper: number; // Límite superior del intervalo de confianza
+}
+
+export interface ForecastResult {
+  model: ForecastModel;   // Modelo usado realmente (Holt-Winters cae a lineal sin dos días de datos)
+  points: ForecastPoint[];
+  residualStd: number;    // Desviación estándar del error de ajuste
+}
+
+export interface BacktestWeek {
+  weekStart: Date;
+  samples: number;  // Horas comparadas (pueden repetirse entre pronósticos de días consecutivos)
+  mae: number;
+  mape: number;     // En %
+  rmse: number;
+  coverage: number; // % de valores reales dentro del intervalo de confianza
+}
+
+export const FORECAST_MODEL_LABELS: Record<ForecastModel, string> = {
+  'holt-winters': 'Holt-Winters (estacionalidad diaria)',
+  linear: 'Tendencia lineal'
+};
+
+export const FORECAST_HORIZONS = [6, 12, 24, 48, 72];
+
+export const HOUR_MS = 60 * 60 * 1000;
+const DAY_MS = 24 * HOUR_MS;
+
+// Horas por temporada: estacionalidad diaria sobre la serie horaria
+const SEASON_LENGTH = 24;
+
+// Historia usada para ajustar los modelos; más atrás apenas aporta y encarece la búsqueda de parámetros
+const TRAINING_HOURS = 14 * 24;
+
+// Horas recientes usadas por la tendencia lineal
+const LINEAR_WINDOW_HOURS = 72;
+
+// Valor z del intervalo de confianza del 95%
+const CONFIDENCE_Z = 1.96;
+
+// Parámetros probados en el ajuste de Holt-Winters
+const ALPHAS = [0.1, 0.2, 0.3, 0.5, 0.7, 0.9];
+const BETAS = [0, 0.01, 0.05, 0.1];
+const GAMMAS = [0.05, 0.1, 0.2, 0.4];
+
+// Función para obtener la serie horaria (media por hora, huecos interpolados)
+export const getHourlySeries = (samples: Sample[]): { times: number[]; values: number[] } => {
+  const { buckets } = resampleSeries(samples, { intervalMs: HOUR_MS, aggregation: 'mean', fill: 'linear' });
+  const times: number[] = [];
+  const values: number[] = [];
+  for (const bucket of buckets) {
+    if (bucket.value === null) continue;
+    times.push(bucket.time.getTime());
+    values.push(bucket.value);
+  }
+  return { times, values };
+};
+
+// Función para calcular la desviación estándar de los residuos
+const getResidualStd = (residuals: number[]): number => {
+  if (residuals.length < 2) return 0;
+  return Math.sqrt(residuals.reduce((sum, r) => sum + r * r, 0) / (residuals.length - 1));
+};
+
+// Función para ajustar Holt-Winters aditivo con unos parámetros y pronosticar `horizon` pasos
+const runHoltWinters = (values: number[], alpha: number, beta: number, gamma: number, horizon: number) => {
+  const m = SEASON_LENGTH;
+  const firstSeason = values.slice(0, m);
+  const secondSeason = values.slice(m, 2 * m);
+  let level = firstSeason.reduce((a, b) => a + b) / m;
+  let trend = (secondSeason.reduce((a, b) => a + b) / m - level) / m;
+  const seasonals = firstSeason.map(value => value - level);
+
+  const residuals: number[] = [];
+  for (let t = m; t < values.length; t++) {
+    const season = seasonals[t % m];
+    residuals.push(values[t] - (level + trend + season));
+    const newLevel = alpha * (values[t] - season) + (1 - alpha) * (level + trend);
+    trend = beta * (newLevel - level) + (1 - beta) * trend;
+    seasonals[t % m] = gamma * (values[t] - newLevel) + (1 - gamma) * season;
+    level = newLevel;
+  }
+
+  const forecast: number[] = [];
+  for (let h = 1; h <= horizon; h++) {
+    forecast.push(level + h * trend + seasonals[(values.length + h - 1) % m]);
+  }
+  return { forecast, residuals };
+};
+
+// Función para pronosticar con Holt-Winters eligiendo los parámetros de menor error de ajuste
+const forecastHoltWinters = (values: number[], horizon: number): { forecast: number[]; widths: number[]; residualStd: number } => {
+  let best: { forecast: number[]; residuals: number[]; alpha: number; sse: number } | null = null;
+  for (const alpha of ALPHAS) {
+    for (const beta of BETAS) {
+      for (const gamma of GAMMAS) {
+        const { forecast, residuals } = runHoltWinters(values, alpha, beta, gamma, horizon);
+        const sse = residuals.reduce((sum, r) => sum + r * r, 0);
+        if (!best || sse < best.sse) best = { forecast, residuals, alpha, sse };
+      }
+    }
+  }
+
+  const residualStd = getResidualStd(best!.residuals);
+  // La varianza del error crece con el horizonte: σ²(1 + (h - 1)α²)
+  const widths = best!.forecast.map((_, i) => CONFIDENCE_Z * residualStd * Math.sqrt(1 + i * best!.alpha * best!.alpha));
+  return { forecast: best!.forecast, widths, residualStd };
+};
+
+// Función para pronosticar con una recta de mínimos cuadrados sobre las horas recientes
+const forecastLinear = (values: number[], horizon: number): { forecast: number[]; widths: number[]; residualStd: number } => {
+  const recent = values.slice(-LINEAR_WINDOW_HOURS);
+  const n = recent.length;
+  const meanX = (n - 1) / 2;
+  const meanY = recent.reduce((a, b) => a + b) / n;
+  let sxx = 0;
+  let sxy = 0;
+  recent.forEach((y, x) => {
+    sxx += (x - meanX) ** 2;
+    sxy += (x - meanX) * (y - meanY);
+  });
+  const slope = sxx > 0 ? sxy / sxx : 0;
+  const intercept = meanY - slope * meanX;
+
+  const residualStd = getResidualStd(recent.map((y, x) => y - (intercept + slope * x)));
+  const forecast: number[] = [];
+  const widths: number[] = [];
+  for (let h = 1; h <= horizon; h++) {
+    const x = n - 1 + h;
+    forecast.push(intercept + slope * x);
+    // Intervalo de predicción de la regresión
+    const leverage = sxx > 0 ? (x - meanX) ** 2 / sxx : 0;
+    widths.push(CONFIDENCE_Z * residualStd * Math.sqrt(1 + 1 / n + leverage));
+  }
+  return { forecast, widths, residualStd };
+};
+
+// Función para pronosticar una serie horaria ya preparada
+// Devuelve null si no hay suficientes datos para ningún modelo.
+export const forecastHourly = (times: number[], values: number[], model: ForecastModel, horizonHours: number): ForecastResult | null => {
+  const trainingValues = values.slice(-TRAINING_HOURS);
+  if (trainingValues.length < 3) return null;
+
+  const usedModel: ForecastModel = model === 'holt-winters' && trainingValues.length >= 2 * SEASON_LENGTH ? 'holt-winters' : 'linear';
+  const { forecast, widths, residualStd } = usedModel === 'holt-winters'
+    ? forecastHoltWinters(trainingValues, horizonHours)
+    : forecastLinear(trainingValues, horizonHours);
+
+  const lastTime = times[times.length - 1];
+  return {
+    model: usedModel,
+    residualStd,
+    points: forecast.map((value, i) => ({
+      time: new Date(lastTime + (i + 1) * HOUR_MS),
+      value,
+      lower: value - widths[i],
+      upper: value + widths[i]
+    }))
+  };
+};
+
+// Función para pronosticar a partir de las muestras de un item
+export const forecastSamples = (samples: Sample[], model: ForecastModel, horizonHours: number): ForecastResult | null => {
+  if (samples.length === 0) return null;
+  const { times, values } = getHourlySeries(samples);
+  return forecastHourly(times, values, model, horizonHours);
+};
+
+// Función para evaluar el modelo semana a semana
+// Cada día a las 00:00 UTC se entrena con los datos anteriores y se compara el pronóstico
+// con las horas reales siguientes; los errores se agrupan por semana ISO.
+export const backtestForecast = (samples: Sample[], model: ForecastModel, horizonHours: number): BacktestWeek[] => {
+  const { times, values } = getHourlySeries(samples);
+  // Solo se comparan horas con muestras reales, no interpoladas
+  const { buckets } = resampleSeries(samples, { intervalMs: HOUR_MS, aggregation: 'mean' });
+  const actual = new Map(buckets.filter(b => b.count > 0).map(b => [b.time.getTime(), b.value!]));
+
+  const errorsByWeek = new Map<number, { error: number; actual: number; covered: boolean }[]>();
+  for (let trainEnd = 2 * SEASON_LENGTH; trainEnd < times.length; trainEnd++) {
+    if (times[trainEnd] % DAY_MS !== 0) continue;
+
+    const forecast = forecastHourly(times.slice(0, trainEnd), values.slice(0, trainEnd), model, horizonHours);
+    if (!forecast) continue;
+
+    const { year, week } = getIsoWeek(new Date(times[trainEnd]));
+    const weekStart = getIsoWeekStart(year, week).getTime();
+    if (!errorsByWeek.has(weekStart)) errorsByWeek.set(weekStart, []);
+
+    for (const point of forecast.points) {
+      const value = actual.get(point.time.getTime());
+      if (value === undefined) continue;
+      errorsByWeek.get(weekStart)!.push({
+        error: value - point.value,
+        actual: value,
+        covered: value >= point.lower && value <= point.upper
+      });
+    }
+  }
+
+  return [...errorsByWeek.entries()]
+    .filter(([, errors]) => errors.length > 0)
+    .sort(([a], [b]) => b - a)
+    .map(([weekStart, errors]) => ({
+      weekStart: new Date(weekStart),
+      samples: errors.length,
+      mae: errors.reduce((sum, e) => sum + Math.abs(e.error), 0) / errors.length,
+      mape: errors.reduce((sum, e) => sum + (e.actual !== 0 ? Math.abs(e.error / e.actual) : 0), 0) / errors.length * 100,
+      rmse: Math.sqrt(errors.reduce((sum, e) => sum + e.error * e.error, 0) / errors.length),
+      coverage: errors.filter(e => e.covered).length / errors.length * 100
+    }));
+};
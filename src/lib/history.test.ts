@@ -0,0 +1,31 @@
+import { describe, expect, it } from 'vitest';
+import { downsample, RESOLUTIONS } from '@/lib/history';
+
+describe('downsample', () => {
+  it('agrupa por días locales de la zona pedida, también el de 25 horas', () => {
+    const records = [
+      { timestamp: '2025-10-25T21:30:00.000Z', price: 1 }, // 23:30 del 25 en Madrid
+      { timestamp: '2025-10-25T22:30:00.000Z', price: 2 }, // 00:30 del 26
+      { timestamp: '2025-10-26T22:30:00.000Z', price: 4 }  // 23:30 del 26 (día de 25 horas)
+    ];
+    expect(downsample(records, RESOLUTIONS['1d'], 'Europe/Madrid')).toEqual([
+      { timestamp: '2025-10-24T22:00:00.000Z', price: 1 },
+      { timestamp: '2025-10-25T22:00:00.000Z', price: 3 }
+    ]);
+    expect(downsample(records, RESOLUTIONS['1d'])).toEqual([
+      { timestamp: '2025-10-25T00:00:00.000Z', price: 1.5 },
+      { timestamp: '2025-10-26T00:00:00.000Z', price: 4 }
+    ]);
+  });
+
+  it('separa por horas locales la hora repetida al retrasar el reloj', () => {
+    const records = [
+      { timestamp: '2025-10-26T00:15:00.000Z', price: 1 }, // 02:15 CEST
+      { timestamp: '2025-10-26T01:15:00.000Z', price: 3 }  // 02:15 CET
+    ];
+    expect(downsample(records, RESOLUTIONS['1h'], 'Europe/Madrid').map(r => r.timestamp)).toEqual([
+      '2025-10-26T00:00:00.000Z',
+      '2025-10-26T01:00:00.000Z'
+    ]);
+  });
+});
@@ -0,0 +1,118 @@
+// Consultas de historial de precios por items, periodo y resolución
+// Lee el almacenamiento del historial en el servidor y devuelve solo el fragmento pedido.
+
+import { isHourInRange, isValidHour, type HourRange } from '@/lib/hourRange';
+import { getPriceStore } from '@/lib/priceStore';
+import { resampleSeries } from '@/lib/resample';
+import { getZonedHour, isValidTimeZone } from '@/lib/timezone';
+import type { PriceRecord, RawData } from '@/lib/types';
+
+export const RESOLUTIONS = {
+  raw: 0,
+  '15m': 15 * 60 * 1000,
+  '1h': 60 * 60 * 1000,
+  '1d': 24 * 60 * 60 * 1000,
+} as const;
+
+export type Resolution = keyof typeof RESOLUTIONS;
+
+export interface HistoryQuery {
+  items: string[] | null; // null = todos los items
+  from: Date | null;
+  to: Date | null;
+  resolution: Resolution;
+  hours?: HourRange | null; // Rango de horas inclusivo; si inicio > fin cruza la medianoche
+  timeZone?: string;        // Zona IANA de las horas; por defecto UTC
+}
+
+// Función para validar una resolución recibida como texto
+export function isResolution(value: string): value is Resolution {
+  return Object.prototype.hasOwnProperty.call(RESOLUTIONS, value);
+}
+
+// Función para interpretar una fecha opcional de la query
+const parseDateParam = (value: string | null): Date | null | undefined => {
+  if (value === null || value === '') return null;
+  const date = new Date(value);
+  return isNaN(date.getTime()) ? undefined : date;
+};
+
+// Función para interpretar los parámetros comunes de /api/history y /api/export
+// items=a,b  from=ISO  to=ISO  resolution=raw|15m|1h|1d  hours=H-H (22-3 cruza la medianoche)  tz=zona IANA
+export function parseHistoryParams(params: URLSearchParams): { query: HistoryQuery } | { error: string } {
+  const itemsParam = params.get('items');
+  const items = itemsParam
+    ? itemsParam.split(',').map(item => item.trim()).filter(Boolean)
+    : null;
+
+  const from = parseDateParam(params.get('from'));
+  const to = parseDateParam(params.get('to'));
+  const resolution = params.get('resolution') || 'raw';
+
+  if (from === undefined || to === undefined) {
+    return { error: 'from y to deben ser fechas ISO válidas' };
+  }
+  if (from && to && from > to) {
+    return { error: 'from debe ser anterior a to' };
+  }
+  if (!isResolution(resolution)) {
+    return { error: `resolution debe ser una de: ${Object.keys(RESOLUTIONS).join(', ')}` };
+  }
+
+  let hours: HourRange | null = null;
+  const hoursParam = params.get('hours');
+  if (hoursParam) {
+    const match = hoursParam.match(/^(\d{1,2})-(\d{1,2})$/);
+    const start = match ? Number(match[1]) : NaN;
+    const end = match ? Number(match[2]) : NaN;
+    if (!isValidHour(start) || !isValidHour(end)) {
+      return { error: 'hours debe tener el formato H-H con horas entre 0 y 23 (22-3 cruza la medianoche)' };
+    }
+    hours = [start, end];
+  }
+
+  const timeZone = params.get('tz') || 'UTC';
+  if (!isValidTimeZone(timeZone)) {
+    return { error: 'tz debe ser una zona horaria IANA válida (por ejemplo Europe/Madrid)' };
+  }
+
+  return { query: { items, from, to, resolution, hours, timeZone } };
+}
+
+// Función para reducir una serie al promedio de cada intervalo
+// Cada punto resultante lleva el timestamp de inicio de su intervalo; los intervalos siguen el
+// reloj de la zona indicada, así que con 1d cada punto es un día local (de 23 a 25 horas).
+export function downsample(records: PriceRecord[], intervalMs: number, timeZone: string = 'UTC'): PriceRecord[] {
+  if (intervalMs <= 0 || records.length === 0) return records;
+
+  const samples = records
+    .map(record => ({ time: new Date(record.timestamp).getTime(), price: Number(record.price) }))
+    .sort((a, b) => a.time - b.time);
+  const { buckets } = resampleSeries(samples, { intervalMs, aggregation: 'mean', timeZone });
+
+  return buckets
+    .filter(bucket => bucket.count > 0)
+    .map(bucket => ({
+      timestamp: bucket.time.toISOString(),
+      price: bucket.mean!
+    }));
+}
+
+// Función para consultar el historial según items, periodo y resolución
+export async function queryHistory(query: HistoryQuery): Promise<RawData> {
+  const store = await getPriceStore();
+  const data = await store.query(query.items, query.from, query.to);
+  const result: RawData = { items: {} };
+  const timeZone = query.timeZone ?? 'UTC';
+
+  for (const [item, records] of Object.entries(data.items)) {
+    const selected = records.filter(record => {
+      if (query.hours && !isHourInRange(getZonedHour(new Date(record.timestamp).getTime(), timeZone), query.hours)) return false;
+      return Number.isFinite(Number(record.price));
+    });
+    if (selected.length === 0) continue;
+    result.items[item] = downsample(selected, RESOLUTIONS[query.resolution], timeZone);
+  }
+
+  return result;
+}
@@ -0,0 +1,19 @@
+// Rangos de horas inclusivos que pueden cruzar la medianoche (por ejemplo 22 a 3)
+
+export type HourRange = [number, number];
+
+// Función para indicar si una hora pertenece a un rango
+export const isHourInRange = (hour: number, [start, end]: HourRange): boolean => {
+  return start <= end ? hour >= start && hour <= end : hour >= start || hour <= end;
+};
+
+// Función para obtener las horas de un rango en orden, empezando por la hora inicial
+export const getHoursInRange = ([start, end]: HourRange): number[] => {
+  const length = start <= end ? end - start + 1 : 24 - start + end + 1;
+  return Array.from({ length }, (_, i) => (start + i) % 24);
+};
+
+// Función para validar una hora suelta
+export const isValidHour = (hour: number): boolean => {
+  return Number.isInteger(hour) && hour >= 0 && hour <= 23;
+};
@@ -0,0 +1,49 @@
+import { describe, expect, it } from 'vitest';
+import { toCsv } from '@/lib/exporters';
+import { validateImport } from '@/lib/importValidation';
+import type { RawData } from '@/lib/types';
+
+describe('validateImport (csv)', () => {
+  it('lee de vuelta el CSV exportado aunque los items lleven comas, comillas o saltos de línea', () => {
+    const data: RawData = {
+      items: {
+        'steak, grilled': [{ timestamp: '2025-06-05T12:00:00.000Z', price: 10 }],
+        'the "best" fish': [{ timestamp: '2025-06-05T12:01:00.000Z', price: 11.5 }],
+        'two\nlines': [{ timestamp: '2025-06-05T12:02:00.000Z', price: 12 }]
+      }
+    };
+    const result = validateImport(toCsv(data), 'csv', Object.keys(data.items));
+    expect(result.issues).toEqual([]);
+    expect(result.totalRecords).toBe(3);
+    expect(result.data).toEqual(data);
+  });
+
+  it('indica la línea del archivo en la que empieza cada registro', () => {
+    const content = 'timestamp,item,price\n2025-06-05T12:00:00.000Z,"a\nb",1\n2025-06-05T12:01:00.000Z,c,oops\n';
+    const { issues } = validateImport(content, 'csv', ['a\nb', 'c']);
+    expect(issues).toHaveLength(1);
+    expect(issues[0]).toMatchObject({ kind: 'bad-price', item: 'c', index: 4 });
+  });
+
+  it('exige timestamps ISO 8601 con zona explícita', () => {
+    const timestamps = ['2025-06-05T12:00:00.000Z', '2025-06-05T14:00:00+02:00', '2025-06-05T12:00:00', '1', '2025', 'March 3'];
+    const content = 'timestamp,item,price\n' + timestamps.map(timestamp => `"${timestamp}",steak,1`).join('\n');
+    const result = validateImport(content, 'csv', ['steak']);
+    expect(result.issues.map(issue => [issue.kind, issue.index])).toEqual([
+      ['bad-timestamp', 4], ['bad-timestamp', 5], ['bad-timestamp', 6], ['bad-timestamp', 7]
+    ]);
+    expect(result.data.items.steak).toEqual([
+      { timestamp: '2025-06-05T12:00:00.000Z', price: 1 },
+      { timestamp: '2025-06-05T12:00:00.000Z', price: 1 }
+    ]);
+  });
+
+  it('rechaza items nuevos con nombres no válidos o de Object.prototype', () => {
+    const content = 'timestamp,item,price\n' + ['__proto__', 'constructor', 'two words', 'new_item']
+      .map(item => `2025-06-05T12:00:00.000Z,${item},1`).join('\n');
+    const result = validateImport(content, 'csv', ['steak'], true);
+    expect(result.issues.map(issue => issue.item)).toEqual(['__proto__', 'constructor', 'two words']);
+    expect(result.issues.every(issue => issue.kind === 'unknown-item')).toBe(true);
+    expect(Object.keys(result.data.items)).toEqual(['new_item']);
+  });
+});
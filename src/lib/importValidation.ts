@@ -0,0 +1,201 @@
+// Validación de archivos de historial de precios importados
+// Acepta el formato RawData en JSON o el CSV largo que genera /api/export (timestamp,item,price).
+
+import type { PriceRecord, RawData } from '@/lib/types';
+
+export type ImportFormat = 'json' | 'csv';
+
+export type ImportIssueKind = 'invalid-format' | 'unknown-item' | 'bad-timestamp' | 'bad-price';
+
+export interface ImportIssue {
+  kind: ImportIssueKind;
+  item?: string;
+  index?: number; // Posición del registro en el item (JSON) o línea del archivo (CSV)
+  message: string;
+}
+
+export interface ValidationResult {
+  data: RawData;          // Solo los registros válidos
+  issues: ImportIssue[];
+  totalRecords: number;   // Registros leídos, válidos o no
+}
+
+// Máximo de incidencias que se devuelven para no generar respuestas enormes
+const MAX_ISSUES = 500;
+
+// Timestamps ISO 8601 con zona explícita (Z o ±HH:MM); sin zona dependerían de la del servidor
+const TIMESTAMP_PATTERN = /^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}(:\d{2}(\.\d+)?)?(Z|[+-]\d{2}:\d{2})$/;
+
+// Nombres aceptados para items que aún no están en el historial
+const ITEM_NAME_PATTERN = /^[a-z0-9_-]+$/i;
+
+// Función para comprobar si un item nuevo tiene un nombre válido
+// Se descartan también los nombres de Object.prototype (__proto__, constructor...), que
+// actuarían sobre el prototipo al usarlos como clave.
+const isValidNewItemName = (item: string): boolean => {
+  return ITEM_NAME_PATTERN.test(item) && !Object.prototype.hasOwnProperty.call(Object.prototype, item);
+};
+
+// Función para detectar el formato a partir del nombre o del contenido
+export function detectImportFormat(content: string, filename: string = ''): ImportFormat {
+  if (/\.csv$/i.test(filename)) return 'csv';
+  if (/\.json$/i.test(filename)) return 'json';
+  return content.trimStart().startsWith('{') ? 'json' : 'csv';
+}
+
+// Función para separar un CSV en filas y campos respetando las comillas
+// Un campo entre comillas puede contener comas, saltos de línea y comillas dobladas (""),
+// como los que escribe el exportador. Cada fila guarda la línea del archivo en la que empieza.
+const splitCsvRows = (content: string): { fields: string[]; line: number }[] => {
+  const rows: { fields: string[]; line: number }[] = [];
+  let fields: string[] = [];
+  let field = '';
+  let quoted = false;
+  let inQuotes = false;
+  let line = 1;
+  let rowLine = 1;
+
+  const endField = () => {
+    fields.push(quoted ? field : field.trim());
+    field = '';
+    quoted = false;
+  };
+  const endRow = () => {
+    endField();
+    if (fields.length > 1 || fields[0] !== '') rows.push({ fields, line: rowLine });
+    fields = [];
+  };
+
+  for (let i = 0; i < content.length; i++) {
+    const char = content[i];
+    if (inQuotes) {
+      if (char === '"' && content[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        if (char === '\n') line++;
+        field += char;
+      }
+    } else if (char === '"' && field.trim() === '') {
+      // Las comillas solo abren un campo al principio; el espacio previo se descarta
+      inQuotes = true;
+      quoted = true;
+      field = '';
+    } else if (char === ',') {
+      endField();
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && content[i + 1] === '\n') i++;
+      endRow();
+      line++;
+      rowLine = line;
+    } else if (!quoted) {
+      field += char;
+    }
+  }
+  if (field !== '' || quoted || fields.length > 0) endRow();
+  return rows;
+};
+
+// Función para convertir el CSV largo en registros sin validar
+const parseCsv = (content: string): { records: { item: string; timestamp: unknown; price: unknown; line: number }[]; issues: ImportIssue[] } => {
+  const [headerRow, ...rows] = splitCsvRows(content);
+  const header = headerRow?.fields.map(column => column.toLowerCase()) ?? [];
+  const timestampIndex = header.indexOf('timestamp');
+  const itemIndex = header.indexOf('item');
+  const priceIndex = header.indexOf('price');
+
+  if (timestampIndex === -1 || itemIndex === -1 || priceIndex === -1) {
+    return { records: [], issues: [{ kind: 'invalid-format', message: 'El CSV debe tener las columnas timestamp,item,price' }] };
+  }
+
+  const records = rows.map(({ fields, line }) => ({
+    item: fields[itemIndex] ?? '',
+    timestamp: fields[timestampIndex],
+    price: fields[priceIndex],
+    line
+  }));
+  return { records, issues: [] };
+};
+
+// Función para validar el contenido de un archivo importado
+// `knownItems` es la lista de items ya registrados; si está vacía no se comprueba. Los items
+// que no están en ella (con `allowUnknownItems` o sin lista) deben tener un nombre válido.
+export function validateImport(content: string, format: ImportFormat, knownItems: string[], allowUnknownItems: boolean = false): ValidationResult {
+  const issues: ImportIssue[] = [];
+  // Sin prototipo, para que ningún nombre de item pueda alcanzar Object.prototype
+  const data: RawData = { items: Object.create(null) };
+  let totalRecords = 0;
+
+  const addIssue = (issue: ImportIssue) => {
+    if (issues.length < MAX_ISSUES) issues.push(issue);
+  };
+
+  let records: { item: string; timestamp: unknown; price: unknown; index: number }[] = [];
+
+  if (format === 'json') {
+    let parsed: unknown;
+    try {
+      parsed = JSON.parse(content);
+    } catch (error) {
+      return {
+        data,
+        issues: [{ kind: 'invalid-format', message: `JSON inválido: ${error instanceof Error ? error.message : 'error desconocido'}` }],
+        totalRecords: 0
+      };
+    }
+
+    const items = (parsed as RawData | null)?.items;
+    if (!items || typeof items !== 'object' || Array.isArray(items)) {
+      return { data, issues: [{ kind: 'invalid-format', message: 'Se esperaba un objeto { items: { item: [{ timestamp, price }] } }' }], totalRecords: 0 };
+    }
+
+    for (const [item, history] of Object.entries(items)) {
+      if (!Array.isArray(history)) {
+        addIssue({ kind: 'invalid-format', item, message: `Historial de precios inválido para ${item}` });
+        continue;
+      }
+      history.forEach((record: Partial<PriceRecord> | null, index: number) => {
+        records.push({ item, timestamp: record?.timestamp, price: record?.price, index });
+      });
+    }
+  } else {
+    const parsed = parseCsv(content);
+    parsed.issues.forEach(addIssue);
+    records = parsed.records.map(record => ({ ...record, index: record.line }));
+  }
+
+  const known = new Set(knownItems);
+  const reportedUnknown = new Set<string>();
+
+  for (const { item, timestamp, price, index } of records) {
+    totalRecords++;
+
+    const isKnown = known.has(item);
+    if (!isKnown && ((!allowUnknownItems && known.size > 0) || !isValidNewItemName(item))) {
+      if (!reportedUnknown.has(item)) {
+        reportedUnknown.add(item);
+        const message = isValidNewItemName(item) ? `Item desconocido: "${item}"` : `Nombre de item no válido: "${item}"`;
+        addIssue({ kind: 'unknown-item', item, message });
+      }
+      continue;
+    }
+
+    const date = typeof timestamp === 'string' && TIMESTAMP_PATTERN.test(timestamp) ? new Date(timestamp) : null;
+    if (!date || isNaN(date.getTime())) {
+      addIssue({ kind: 'bad-timestamp', item, index, message: `Timestamp inválido: ${JSON.stringify(timestamp)}` });
+      continue;
+    }
+
+    const numericPrice = typeof price === 'number' ? price : typeof price === 'string' && price.trim() !== '' ? Number(price) : NaN;
+    if (!Number.isFinite(numericPrice) || numericPrice < 0) {
+      addIssue({ kind: 'bad-price', item, index, message: `Precio no numérico: ${JSON.stringify(price)}` });
+      continue;
+    }
+
+    (data.items[item] ??= []).push({ timestamp: date.toISOString(), price: numericPrice });
+  }
+
+  return { data, issues, totalRecords };
+}
@@ -0,0 +1,94 @@
+// Vista previa y fusión de historiales importados con el historial guardado
+// Solo debe usarse desde rutas de la API o scripts de Node.
+
+import { groupByWeekFile } from '@/lib/dataStore';
+import { getPriceStore, type PriceStore } from '@/lib/priceStore';
+import type { ImportIssue } from '@/lib/importValidation';
+import type { RawData } from '@/lib/types';
+import { parseWeekFileName } from '@/lib/weekFiles';
+
+export interface ImportFileDiff {
+  filename: string;
+  exists: boolean;
+  newRecords: number;          // Timestamps que no están en el archivo
+  duplicateRecords: number;    // Mismo timestamp y mismo precio
+  conflictingRecords: number;  // Mismo timestamp con otro precio (se conserva el existente)
+}
+
+export interface ImportPreview {
+  totalRecords: number;
+  validRecords: number;
+  items: string[];
+  issues: ImportIssue[];
+  files: ImportFileDiff[];
+}
+
+// Diferencia de precio por debajo de la cual dos registros se consideran iguales
+const PRICE_EPSILON = 1e-9;
+
+// Función para obtener los items presentes en el historial
+export async function getKnownItems(): Promise<string[]> {
+  return (await getPriceStore()).listItems();
+}
+
+// Función para leer los registros guardados en el periodo de una semana
+// Se consulta el periodo y no solo el archivo semanal, así también cuentan los registros de
+// los archivos legados (rangos de fechas y días sueltos) que caen en esa semana.
+const readStoredWeek = async (store: PriceStore, filename: string, incoming: RawData): Promise<RawData> => {
+  const info = parseWeekFileName(filename)!;
+  return store.query(Object.keys(incoming.items), info.start, new Date(info.end.getTime() - 1));
+};
+
+// Función para comparar los registros importados con las semanas existentes
+export async function diffImport(data: RawData): Promise<ImportFileDiff[]> {
+  const store = await getPriceStore();
+  const existingFiles = new Set(await store.listWeeks());
+  const byFile = groupByWeekFile(data);
+
+  const diffs = await Promise.all(Object.entries(byFile).map(async ([filename, incoming]) => {
+    const current = await readStoredWeek(store, filename, incoming);
+    const diff: ImportFileDiff = {
+      filename,
+      exists: existingFiles.has(filename),
+      newRecords: 0,
+      duplicateRecords: 0,
+      conflictingRecords: 0
+    };
+
+    for (const [item, records] of Object.entries(incoming.items)) {
+      const existing = new Map((current.items[item] ?? []).map(record => [new Date(record.timestamp).getTime(), record.price]));
+      const seen = new Set<number>();
+      for (const record of records) {
+        const time = new Date(record.timestamp).getTime();
+        const existingPrice = existing.get(time);
+        if (existingPrice === undefined && !seen.has(time)) {
+          diff.newRecords++;
+        } else if (existingPrice !== undefined && Math.abs(existingPrice - record.price) > PRICE_EPSILON) {
+          diff.conflictingRecords++;
+        } else {
+          diff.duplicateRecords++;
+        }
+        seen.add(time);
+      }
+    }
+    return diff;
+  }));
+
+  return diffs.sort((a, b) => a.filename.localeCompare(b.filename));
+}
+
+// Función para fusionar los registros importados sin duplicar timestamps
+// Los timestamps que ya están en un archivo legado tampoco se copian al archivo semanal.
+export async function commitImport(data: RawData): Promise<Record<string, number>> {
+  const store = await getPriceStore();
+  const fresh: RawData = { items: {} };
+  for (const [filename, incoming] of Object.entries(groupByWeekFile(data))) {
+    const current = await readStoredWeek(store, filename, incoming);
+    for (const [item, records] of Object.entries(incoming.items)) {
+      const existing = new Set((current.items[item] ?? []).map(record => new Date(record.timestamp).getTime()));
+      const added = records.filter(record => !existing.has(new Date(record.timestamp).getTime()));
+      if (added.length > 0) (fresh.items[item] ??= []).push(...added);
+    }
+  }
+  return store.append(fresh);
+}
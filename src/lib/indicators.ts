@@ -0,0 +1,151 @@
+// Indicadores técnicos sobre ventanas de tiempo
+// Las muestras son irregulares, así que las ventanas se expresan en milisegundos y no en número de muestras.
+
+import type { Sample } from '@/lib/resample';
+import { getStandardDeviation } from '@/lib/stats';
+
+export interface IndicatorPoint {
+  time: Date;
+  value: number;
+}
+
+export interface BollingerPoint {
+  time: Date;
+  middle: number;
+  upper: number;
+  lower: number;
+}
+
+export interface MacdPoint {
+  time: Date;
+  macd: number;
+  signal: number;
+  histogram: number;
+}
+
+export interface IndicatorSettings {
+  sma: { enabled: boolean; windowHours: number };
+  ema: { enabled: boolean; windowHours: number };
+  bollinger: { enabled: boolean; windowHours: number; deviations: number };
+  rsi: { enabled: boolean; windowHours: number };
+  macd: { enabled: boolean; fastHours: number; slowHours: number; signalHours: number };
+}
+
+export const DEFAULT_INDICATOR_SETTINGS: IndicatorSettings = {
+  sma: { enabled: true, windowHours: 6 },
+  ema: { enabled: false, windowHours: 12 },
+  bollinger: { enabled: false, windowHours: 24, deviations: 2 },
+  rsi: { enabled: false, windowHours: 14 },
+  macd: { enabled: false, fastHours: 12, slowHours: 26, signalHours: 9 }
+};
+
+export const HOUR_MS = 60 * 60 * 1000;
+
+// Función para recorrer las ventanas (t - windowMs, t] de cada muestra
+// Se asume que las muestras vienen ordenadas por tiempo.
+const forEachWindow = (samples: Sample[], windowMs: number, callback: (start: number, end: number) => void): void => {
+  let start = 0;
+  for (let end = 0; end < samples.length; end++) {
+    while (samples[end].time - samples[start].time >= windowMs) start++;
+    callback(start, end);
+  }
+};
+
+// Función para indicar si una ventana ya cubre su duración completa
+// Evita mostrar valores calculados con historia insuficiente al principio de la serie.
+const isWindowComplete = (samples: Sample[], end: number, windowMs: number): boolean => {
+  return samples[end].time - samples[0].time >= windowMs;
+};
+
+// Función para calcular la media móvil simple en una ventana de tiempo
+export const getSma = (samples: Sample[], windowMs: number): IndicatorPoint[] => {
+  const result: IndicatorPoint[] = [];
+  let sum = 0;
+  let first = 0;
+  forEachWindow(samples, windowMs, (start, end) => {
+    sum += samples[end].price;
+    while (first < start) sum -= samples[first++].price;
+    if (isWindowComplete(samples, end, windowMs)) {
+      result.push({ time: new Date(samples[end].time), value: sum / (end - start + 1) });
+    }
+  });
+  return result;
+};
+
+// Función para calcular una media móvil exponencial con muestras irregulares
+// El peso de cada muestra depende del tiempo transcurrido: alpha = 1 - e^(-Δt / periodo).
+const getEmaValues = (samples: Sample[], periodMs: number): number[] => {
+  const values: number[] = [];
+  for (let i = 0; i < samples.length; i++) {
+    if (i === 0) {
+      values.push(samples[0].price);
+      continue;
+    }
+    const alpha = 1 - Math.exp(-(samples[i].time - samples[i - 1].time) / periodMs);
+    values.push(values[i - 1] + alpha * (samples[i].price - values[i - 1]));
+  }
+  return values;
+};
+
+// Función para calcular la media móvil exponencial con un periodo de tiempo
+export const getEma = (samples: Sample[], periodMs: number): IndicatorPoint[] => {
+  const values = getEmaValues(samples, periodMs);
+  return samples
+    .map((sample, i) => ({ time: new Date(sample.time), value: values[i] }))
+    .filter((_, i) => isWindowComplete(samples, i, periodMs));
+};
+
+// Función para calcular las bandas de Bollinger: media ± k desviaciones estándar
+export const getBollingerBands = (samples: Sample[], windowMs: number, deviations: number): BollingerPoint[] => {
+  const result: BollingerPoint[] = [];
+  forEachWindow(samples, windowMs, (start, end) => {
+    if (!isWindowComplete(samples, end, windowMs)) return;
+    const prices = samples.slice(start, end + 1).map(s => s.price);
+    const middle = prices.reduce((a, b) => a + b) / prices.length;
+    const std = getStandardDeviation(prices);
+    result.push({
+      time: new Date(samples[end].time),
+      middle,
+      upper: middle + deviations * std,
+      lower: middle - deviations * std
+    });
+  });
+  return result;
+};
+
+// Función para calcular el RSI con la suma de subidas y bajadas dentro de la ventana
+// Sin movimientos en la ventana el RSI queda en 50.
+export const getRsi = (samples: Sample[], windowMs: number): IndicatorPoint[] => {
+  const result: IndicatorPoint[] = [];
+  forEachWindow(samples, windowMs, (start, end) => {
+    if (!isWindowComplete(samples, end, windowMs)) return;
+    let gains = 0;
+    let losses = 0;
+    for (let i = start + 1; i <= end; i++) {
+      const change = samples[i].price - samples[i - 1].price;
+      if (change > 0) gains += change;
+      else losses -= change;
+    }
+    const value = gains + losses === 0 ? 50 : 100 * gains / (gains + losses);
+    result.push({ time: new Date(samples[end].time), value });
+  });
+  return result;
+};
+
+// Función para calcular el MACD: EMA rápida - EMA lenta, su señal y el histograma
+export const getMacd = (samples: Sample[], fastMs: number, slowMs: number, signalMs: number): MacdPoint[] => {
+  if (samples.length === 0) return [];
+  const fast = getEmaValues(samples, fastMs);
+  const slow = getEmaValues(samples, slowMs);
+  const macdSamples = samples.map((sample, i) => ({ time: sample.time, price: fast[i] - slow[i] }));
+  const signal = getEmaValues(macdSamples, signalMs);
+
+  return macdSamples
+    .map((sample, i) => ({
+      time: new Date(sample.time),
+      macd: sample.price,
+      signal: signal[i],
+      histogram: sample.price - signal[i]
+    }))
+    .filter((_, i) => isWindowComplete(samples, i, slowMs));
+};
@@ -0,0 +1,119 @@
+// Almacenamiento del historial en los archivos semanales JSON de public/data
+// Solo debe usarse desde rutas de la API, instrumentation o scripts de Node.
+
+import fs from 'fs';
+import path from 'path';
+import { DATA_DIR, appendToWeekFiles, listPriceFiles, mergeRecords, readWeekFile } from '@/lib/dataStore';
+import type { PriceStore } from '@/lib/priceStore';
+import type { RawData, WeekFileSummary } from '@/lib/types';
+import { parseWeekFileName, selectFilesForSpan } from '@/lib/weekFiles';
+
+interface CachedSummary {
+  mtimeMs: number;
+  size: number;
+  summary: WeekFileSummary;
+}
+
+// Resúmenes por archivo con la fecha y el tamaño del archivo con el que se calcularon, para no
+// leer todas las semanas en cada carga. Guardado en globalThis para conservarlo con recargas en caliente.
+const globalForSummaries = globalThis as unknown as { weekSummaries?: Map<string, CachedSummary> };
+const summaries = globalForSummaries.weekSummaries ??= new Map();
+
+// Función para resumir el contenido de un archivo semanal
+// Solo se vuelve a leer el archivo si ha cambiado desde el último resumen.
+const summarizeFile = async (filename: string): Promise<WeekFileSummary> => {
+  const { mtimeMs, size } = await fs.promises.stat(path.join(DATA_DIR, filename));
+  const cached = summaries.get(filename);
+  if (cached && cached.mtimeMs === mtimeMs && cached.size === size) return cached.summary;
+
+  const info = parseWeekFileName(filename)!;
+  const data = await readWeekFile(filename);
+
+  let records = 0;
+  let first = Infinity;
+  let last = -Infinity;
+  for (const prices of Object.values(data.items)) {
+    records += prices.length;
+    for (const record of prices) {
+      const time = new Date(record.timestamp).getTime();
+      if (isNaN(time)) continue;
+      if (time < first) first = time;
+      if (time > last) last = time;
+    }
+  }
+
+  const summary: WeekFileSummary = {
+    filename,
+    format: info.format,
+    start: info.start.toISOString(),
+    end: info.end.toISOString(),
+    records,
+    items: Object.keys(data.items).length,
+    firstTimestamp: records > 0 && isFinite(first) ? new Date(first).toISOString() : null,
+    lastTimestamp: records > 0 && isFinite(last) ? new Date(last).toISOString() : null
+  };
+  summaries.set(filename, { mtimeMs, size, summary });
+  return summary;
+};
+
+// Función para crear el almacenamiento basado en archivos JSON
+export function createJsonPriceStore(): PriceStore {
+  return {
+    backend: 'json',
+
+    listWeeks: listPriceFiles,
+
+    async summarizeWeeks() {
+      const files = await listPriceFiles();
+      // Olvidar los archivos que ya no existen
+      for (const filename of summaries.keys()) {
+        if (!files.includes(filename)) summaries.delete(filename);
+      }
+      return Promise.all(files.map(summarizeFile));
+    },
+
+    readWeek: readWeekFile,
+
+    async query(items, from, to) {
+      let files = await listPriceFiles();
+      if (from || to) {
+        files = selectFilesForSpan(files, from ?? new Date(0), to ?? new Date(8.64e15));
+      }
+
+      // Los archivos legados pueden solaparse, así que se combinan sin duplicar timestamps
+      const merged: RawData = { items: {} };
+      const filesData = await Promise.all(files.map(readWeekFile));
+      for (const fileData of filesData) {
+        const selected: RawData = { items: {} };
+        for (const [item, records] of Object.entries(fileData.items)) {
+          if (items && !items.includes(item)) continue;
+          selected.items[item] = records;
+        }
+        mergeRecords(merged, selected);
+      }
+
+      const fromTime = from?.getTime() ?? -Infinity;
+      const toTime = to?.getTime() ?? Infinity;
+      const result: RawData = { items: {} };
+      for (const [item, records] of Object.entries(merged.items)) {
+        const inRange = records.filter(record => {
+          const time = new Date(record.timestamp).getTime();
+          return time >= fromTime && time <= toTime;
+        });
+        if (inRange.length > 0) result.items[item] = inRange;
+      }
+      return result;
+    },
+
+    async listItems() {
+      const filesData = await Promise.all((await listPriceFiles()).map(readWeekFile));
+      const items = new Set<string>();
+      for (const fileData of filesData) {
+        Object.keys(fileData.items).forEach(item => items.add(item));
+      }
+      return [...items].sort();
+    },
+
+    append: appendToWeekFiles
+  };
+}
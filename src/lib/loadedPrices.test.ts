@@ -0,0 +1,48 @@
+import { describe, expect, it } from 'vitest';
+import { getPointKey } from '@/lib/anomalies';
+import { appendLoadedPrices, createLoadedPrices, getAnalysisData, rezoneLoadedPrices } from '@/lib/loadedPrices';
+import type { FlatDataItem } from '@/lib/types';
+
+// Función para crear un registro en UTC
+const record = (item: string, iso: string, price: number): FlatDataItem => {
+  const timestamp = new Date(iso);
+  return { item, timestamp, price, hour: timestamp.getUTCHours(), day: iso.slice(0, 10) };
+};
+
+describe('loadedPrices', () => {
+  it('añade solo los registros nuevos y recuerda de qué versión parten', () => {
+    const prices = createLoadedPrices([
+      record('fish', '2025-06-02T10:00:00.000Z', 5),
+      record('steak', '2025-06-02T09:00:00.000Z', 1)
+    ]);
+    const next = appendLoadedPrices(prices, [
+      record('steak', '2025-06-02T09:00:00.000Z', 1),
+      record('steak', '2025-06-03T11:00:00.000Z', 2)
+    ]);
+
+    expect(next.base).toBe(prices.revision);
+    expect(next.added.map(d => d.price)).toEqual([2]);
+    expect(next.all.map(d => d.price)).toEqual([1, 5, 2]);
+    expect(next.items.get('steak')!.map(d => d.price)).toEqual([1, 2]);
+    expect(next.items.get('fish')).toBe(prices.items.get('fish'));
+    expect(next.days).toEqual(['2025-06-02', '2025-06-03']);
+    expect(appendLoadedPrices(next, [record('fish', '2025-06-02T10:00:00.000Z', 5)])).toBe(next);
+  });
+
+  it('intercala en orden los registros anteriores a los cargados', () => {
+    const prices = createLoadedPrices([record('steak', '2025-06-02T09:00:00.000Z', 1), record('steak', '2025-06-02T12:00:00.000Z', 3)]);
+    const next = appendLoadedPrices(prices, [record('fish', '2025-06-02T10:00:00.000Z', 2)]);
+    expect(next.all.map(d => d.price)).toEqual([1, 2, 3]);
+  });
+
+  it('quita las muestras excluidas y recalcula los días en otra zona', () => {
+    const prices = createLoadedPrices([record('steak', '2025-06-02T22:30:00.000Z', 1), record('steak', '2025-06-02T23:30:00.000Z', 2)]);
+    expect(getAnalysisData(prices, [getPointKey('steak', Date.parse('2025-06-02T22:30:00.000Z'))]).map(d => d.price)).toEqual([2]);
+    expect(getAnalysisData(prices, [])).toBe(prices.all);
+
+    const madrid = rezoneLoadedPrices(prices, 'Europe/Madrid');
+    expect(madrid.base).toBe(prices.revision);
+    expect(madrid.added).toEqual([]);
+    expect(madrid.days).toEqual(['2025-06-03']);
+  });
+});
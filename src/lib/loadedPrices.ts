@@ -0,0 +1,126 @@
+// Precios cargados en el dashboard, guardados por item en orden de tiempo
+// Los precios en vivo se añaden a la serie de su item sin recorrer ni reordenar el resto de datos;
+// la lista de todos los registros ordenada por tiempo se mantiene para las vistas que la recorren.
+// Cada versión recuerda de cuál parte y qué registros se le añadieron, para enviar al worker de
+// agregaciones solo esos registros.
+
+import { parsePointKey } from '@/lib/anomalies';
+import { getZonedDay, getZonedHour } from '@/lib/timezone';
+import type { FlatDataItem } from '@/lib/types';
+
+export interface LoadedPrices {
+  revision: number;
+  base: number | null;               // Revisión a la que se añadieron `added`; null si los datos son nuevos
+  added: FlatDataItem[];             // Registros añadidos respecto a `base`, ordenados por tiempo
+  items: Map<string, FlatDataItem[]>;
+  all: FlatDataItem[];               // Todos los registros ordenados por tiempo
+  days: string[];                    // Días (YYYY-MM-DD) con datos, ordenados
+}
+
+let nextRevision = 1;
+
+const byTime = (a: FlatDataItem, b: FlatDataItem) => a.timestamp.getTime() - b.timestamp.getTime();
+
+// Función para obtener la primera posición con timestamp >= time (búsqueda binaria)
+const lowerBound = (records: FlatDataItem[], time: number): number => {
+  let low = 0;
+  let high = records.length;
+  while (low < high) {
+    const mid = (low + high) >>> 1;
+    if (records[mid].timestamp.getTime() < time) low = mid + 1;
+    else high = mid;
+  }
+  return low;
+};
+
+// Función para crear los datos cargados a partir de registros planos en cualquier orden
+export const createLoadedPrices = (data: FlatDataItem[]): LoadedPrices => {
+  const all = [...data].sort(byTime);
+  const items = new Map<string, FlatDataItem[]>();
+  for (const d of all) {
+    if (!items.has(d.item)) items.set(d.item, []);
+    items.get(d.item)!.push(d);
+  }
+  return {
+    revision: nextRevision++,
+    base: null,
+    added: [],
+    items,
+    all,
+    days: [...new Set(all.map(d => d.day))].sort()
+  };
+};
+
+// Función para añadir registros sin duplicar item + timestamp
+// Solo se copian las series de los items que reciben registros; si todos los nuevos son
+// posteriores a los cargados (precios en vivo) la lista completa se amplía sin reordenarla.
+export const appendLoadedPrices = (prices: LoadedPrices, incoming: FlatDataItem[]): LoadedPrices => {
+  const items = new Map(prices.items);
+  const copied = new Set<string>();
+  const added: FlatDataItem[] = [];
+  let days = prices.days;
+
+  for (const d of [...incoming].sort(byTime)) {
+    let series = items.get(d.item) ?? [];
+    const time = d.timestamp.getTime();
+    const position = lowerBound(series, time);
+    if (position < series.length && series[position].timestamp.getTime() === time) continue;
+
+    if (!copied.has(d.item)) {
+      series = [...series];
+      items.set(d.item, series);
+      copied.add(d.item);
+    }
+    series.splice(position, 0, d);
+    added.push(d);
+
+    const dayPosition = days.findIndex(day => day >= d.day);
+    if (days[dayPosition] !== d.day) {
+      days = [...days];
+      days.splice(dayPosition === -1 ? days.length : dayPosition, 0, d.day);
+    }
+  }
+  if (added.length === 0) return prices;
+
+  const last = prices.all[prices.all.length - 1];
+  let all: FlatDataItem[];
+  if (!last || added[0].timestamp.getTime() >= last.timestamp.getTime()) {
+    all = prices.all.concat(added);
+  } else {
+    // Mezcla de las dos listas ordenadas
+    all = [];
+    let i = 0;
+    let j = 0;
+    while (i < prices.all.length || j < added.length) {
+      if (j >= added.length || (i < prices.all.length && byTime(prices.all[i], added[j]) <= 0)) all.push(prices.all[i++]);
+      else all.push(added[j++]);
+    }
+  }
+
+  return { revision: nextRevision++, base: prices.revision, added, items, all, days };
+};
+
+// Función para recalcular la hora y el día de los registros en otra zona horaria
+// Los precios no cambian, así que para el worker equivale a no añadir nada.
+export const rezoneLoadedPrices = (prices: LoadedPrices, timeZone: string): LoadedPrices => {
+  const all = prices.all.map(d => ({
+    ...d,
+    hour: getZonedHour(d.timestamp.getTime(), timeZone),
+    day: getZonedDay(d.timestamp.getTime(), timeZone)
+  }));
+  return { ...createLoadedPrices(all), base: prices.revision };
+};
+
+// Función para obtener los registros sin las muestras excluidas de las estadísticas
+// Las muestras se localizan por búsqueda binaria en la serie de su item.
+export const getAnalysisData = (prices: LoadedPrices, excluded: string[]): FlatDataItem[] => {
+  const removed = new Set<FlatDataItem>();
+  for (const key of excluded) {
+    const { item, time } = parsePointKey(key);
+    const series = prices.items.get(item);
+    if (!series) continue;
+    const position = lowerBound(series, time);
+    if (position < series.length && series[position].timestamp.getTime() === time) removed.add(series[position]);
+  }
+  return removed.size === 0 ? prices.all : prices.all.filter(d => !removed.has(d));
+};
@@ -0,0 +1,183 @@
+// Caché del historial de precios en IndexedDB
+// Guarda las semanas descargadas y los precios recibidos en vivo para abrir el dashboard al
+// instante y seguir consultándolo sin conexión. En el servidor (sin indexedDB) no guarda nada.
+
+import type { PriceRecord, RawData, WeekFileSummary } from '@/lib/types';
+import { getWeekFileName } from '@/lib/weekFiles';
+
+const DB_NAME = 'price-dashboard';
+const DB_VERSION = 1;
+const WEEKS_STORE = 'weeks'; // Una entrada por archivo semanal
+const META_STORE = 'meta';   // Estado de la última sincronización
+const META_KEY = 'state';
+
+export interface CachedWeek {
+  filename: string;
+  data: RawData;
+  cachedAt: string; // ISO
+}
+
+export interface CacheMeta {
+  files: WeekFileSummary[];              // Archivos del servidor en la última sincronización
+  currentPrices: Record<string, number>;
+  syncedAt: string | null;               // Último dato recibido del servidor (ISO)
+}
+
+const EMPTY_META: CacheMeta = { files: [], currentPrices: {}, syncedAt: null };
+
+let databasePromise: Promise<IDBDatabase | null> | null = null;
+
+// Función para abrir la base de datos; devuelve null si IndexedDB no está disponible
+const openDatabase = (): Promise<IDBDatabase | null> => {
+  if (typeof indexedDB === 'undefined') return Promise.resolve(null);
+  databasePromise ??= new Promise(resolve => {
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+    request.onupgradeneeded = () => {
+      const db = request.result;
+      if (!db.objectStoreNames.contains(WEEKS_STORE)) db.createObjectStore(WEEKS_STORE, { keyPath: 'filename' });
+      if (!db.objectStoreNames.contains(META_STORE)) db.createObjectStore(META_STORE);
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => {
+      console.error('Error al abrir la caché local:', request.error);
+      resolve(null);
+    };
+  });
+  return databasePromise;
+};
+
+const requestToPromise = <T>(request: IDBRequest<T>): Promise<T> => new Promise((resolve, reject) => {
+  request.onsuccess = () => resolve(request.result);
+  request.onerror = () => reject(request.error);
+});
+
+const transactionDone = (transaction: IDBTransaction): Promise<void> => new Promise((resolve, reject) => {
+  transaction.oncomplete = () => resolve();
+  transaction.onerror = () => reject(transaction.error);
+  transaction.onabort = () => reject(transaction.error);
+});
+
+// Función para contar los registros de unos datos
+export const countRecords = (data: RawData): number => {
+  return Object.values(data.items).reduce((total, records) => total + records.length, 0);
+};
+
+// Función para obtener el timestamp (ms) del registro más reciente; null si no hay registros
+export const getLastTime = (data: RawData): number | null => {
+  let last: number | null = null;
+  for (const records of Object.values(data.items)) {
+    for (const record of records) {
+      const time = new Date(record.timestamp).getTime();
+      if (last === null || time > last) last = time;
+    }
+  }
+  return last;
+};
+
+// Función para añadir registros sin duplicar item + timestamp, ordenados por tiempo
+export const mergeRawData = (target: RawData, incoming: RawData): RawData => {
+  const merged: RawData = { items: { ...target.items } };
+  for (const [item, records] of Object.entries(incoming.items)) {
+    const current = merged.items[item] ?? [];
+    const seen = new Set(current.map(record => new Date(record.timestamp).getTime()));
+    const added = records.filter(record => !seen.has(new Date(record.timestamp).getTime()));
+    if (added.length === 0) continue;
+    merged.items[item] = [...current, ...added].sort((a, b) => new Date(a.timestamp).getTime() - new Date(b.timestamp).getTime());
+  }
+  return merged;
+};
+
+// Función para leer las semanas guardadas de las indicadas (las que no están se omiten)
+export async function readCachedWeeks(filenames: string[]): Promise<CachedWeek[]> {
+  try {
+    const db = await openDatabase();
+    if (!db) return [];
+    const store = db.transaction(WEEKS_STORE, 'readonly').objectStore(WEEKS_STORE);
+    const weeks = await Promise.all(filenames.map(filename => requestToPromise<CachedWeek | undefined>(store.get(filename))));
+    return weeks.filter((week): week is CachedWeek => week !== undefined);
+  } catch (error) {
+    console.error('Error al leer semanas de la caché local:', error);
+    return [];
+  }
+}
+
+// Función para guardar semanas completas, sustituyendo las que ya hubiera
+export async function writeCachedWeeks(weeks: { filename: string; data: RawData }[]): Promise<void> {
+  if (weeks.length === 0) return;
+  try {
+    const db = await openDatabase();
+    if (!db) return;
+    const transaction = db.transaction(WEEKS_STORE, 'readwrite');
+    const store = transaction.objectStore(WEEKS_STORE);
+    const cachedAt = new Date().toISOString();
+    weeks.forEach(({ filename, data }) => store.put({ filename, data, cachedAt } satisfies CachedWeek));
+    await transactionDone(transaction);
+  } catch (error) {
+    console.error('Error al guardar semanas en la caché local:', error);
+  }
+}
+
+// Función para añadir precios recibidos en vivo a las semanas guardadas
+// Solo se completan semanas que ya están en caché: una semana a medias se tomaría por completa.
+export async function cacheLiveRecords(data: RawData): Promise<void> {
+  const byWeek = new Map<string, RawData>();
+  for (const [item, records] of Object.entries(data.items)) {
+    for (const record of records) {
+      const filename = getWeekFileName(new Date(record.timestamp));
+      const week = byWeek.get(filename) ?? { items: {} };
+      (week.items[item] ??= [] as PriceRecord[]).push(record);
+      byWeek.set(filename, week);
+    }
+  }
+  if (byWeek.size === 0) return;
+
+  try {
+    const db = await openDatabase();
+    if (!db) return;
+    const transaction = db.transaction(WEEKS_STORE, 'readwrite');
+    const store = transaction.objectStore(WEEKS_STORE);
+    for (const [filename, incoming] of byWeek) {
+      const request = store.get(filename);
+      request.onsuccess = () => {
+        const week = request.result as CachedWeek | undefined;
+        if (!week) return;
+        store.put({ ...week, data: mergeRawData(week.data, incoming), cachedAt: new Date().toISOString() } satisfies CachedWeek);
+      };
+    }
+    await transactionDone(transaction);
+  } catch (error) {
+    console.error('Error al guardar precios en vivo en la caché local:', error);
+  }
+}
+
+// Función para leer el estado de la última sincronización
+export async function readCacheMeta(): Promise<CacheMeta> {
+  try {
+    const db = await openDatabase();
+    if (!db) return EMPTY_META;
+    const meta = await requestToPromise<CacheMeta | undefined>(
+      db.transaction(META_STORE, 'readonly').objectStore(META_STORE).get(META_KEY)
+    );
+    return meta ?? EMPTY_META;
+  } catch (error) {
+    console.error('Error al leer el estado de la caché local:', error);
+    return EMPTY_META;
+  }
+}
+
+// Función para modificar el estado de la última sincronización
+export async function updateCacheMeta(update: (meta: CacheMeta) => CacheMeta): Promise<void> {
+  try {
+    const db = await openDatabase();
+    if (!db) return;
+    const transaction = db.transaction(META_STORE, 'readwrite');
+    const store = transaction.objectStore(META_STORE);
+    const request = store.get(META_KEY);
+    request.onsuccess = () => {
+      store.put(update((request.result as CacheMeta | undefined) ?? EMPTY_META), META_KEY);
+    };
+    await transactionDone(transaction);
+  } catch (error) {
+    console.error('Error al guardar el estado de la caché local:', error);
+  }
+}
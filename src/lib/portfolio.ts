@@ -0,0 +1,244 @@
+// Seguimiento de la cartera: compras y ventas valoradas a precios de mercado
+// El coste se calcula con el método del coste medio: una venta reduce la posición al coste medio
+// vigente y la diferencia con el precio de venta es P&L realizado.
+
+import { createId } from '@/lib/alerts';
+import { alignItems } from '@/lib/resample';
+import { readStorage, writeStorage } from '@/lib/storage';
+import type { FlatDataItem } from '@/lib/types';
+
+export type TransactionType = 'buy' | 'sell';
+
+export interface PortfolioTransaction {
+  id: string;
+  item: string;
+  type: TransactionType;
+  quantity: number;
+  price: number; // Precio unitario de compra o venta
+  time: string;  // ISO
+}
+
+export interface PositionSummary {
+  item: string;
+  quantity: number;
+  averageCost: number;
+  costBasis: number;              // Coste de las unidades que siguen en cartera
+  currentPrice: number | null;    // null si no hay precio de mercado para el item
+  marketValue: number | null;
+  unrealizedPnl: number | null;
+  realizedPnl: number;
+}
+
+export interface PortfolioTotals {
+  costBasis: number;
+  marketValue: number;    // Solo posiciones con precio de mercado
+  unrealizedPnl: number;
+  realizedPnl: number;
+  unpricedItems: string[]; // Items en cartera sin precio de mercado
+}
+
+export interface PortfolioValuePoint {
+  time: Date;
+  marketValue: number;
+  costBasis: number;
+  realizedPnl: number;
+}
+
+export interface PortfolioExport {
+  version: 1;
+  exportedAt: string;
+  transactions: PortfolioTransaction[];
+}
+
+export const TRANSACTION_TYPE_LABELS: Record<TransactionType, string> = {
+  buy: 'Compra',
+  sell: 'Venta'
+};
+
+const TRANSACTIONS_STORAGE_KEY = 'price-portfolio:transactions';
+
+// Intervalo de la curva de valor histórico
+const VALUE_CURVE_INTERVAL_MS = 60 * 60 * 1000;
+
+// Margen para comparar cantidades con decimales
+const QUANTITY_EPSILON = 1e-9;
+
+interface Position {
+  quantity: number;
+  costBasis: number;
+  realizedPnl: number;
+}
+
+// Función para ordenar las transacciones por fecha sin modificar la lista original
+const sortByTime = (transactions: PortfolioTransaction[]): PortfolioTransaction[] => {
+  return [...transactions].sort((a, b) => new Date(a.time).getTime() - new Date(b.time).getTime());
+};
+
+// Función para aplicar una transacción a una posición con el método del coste medio
+// Devuelve false si es una venta de más unidades de las que hay en cartera.
+const applyTransaction = (position: Position, transaction: PortfolioTransaction): boolean => {
+  if (transaction.type === 'buy') {
+    position.quantity += transaction.quantity;
+    position.costBasis += transaction.quantity * transaction.price;
+    return true;
+  }
+
+  if (transaction.quantity > position.quantity + QUANTITY_EPSILON) return false;
+  const averageCost = position.quantity > 0 ? position.costBasis / position.quantity : 0;
+  position.realizedPnl += transaction.quantity * (transaction.price - averageCost);
+  position.quantity -= transaction.quantity;
+  position.costBasis -= transaction.quantity * averageCost;
+  if (position.quantity <= QUANTITY_EPSILON) {
+    position.quantity = 0;
+    position.costBasis = 0;
+  }
+  return true;
+};
+
+// Función para comprobar que un valor recibido es una transacción válida
+export const isValidTransaction = (value: unknown): value is PortfolioTransaction => {
+  if (!value || typeof value !== 'object') return false;
+  const transaction = value as Record<string, unknown>;
+  return typeof transaction.id === 'string' && transaction.id !== ''
+    && typeof transaction.item === 'string' && transaction.item !== ''
+    && (transaction.type === 'buy' || transaction.type === 'sell')
+    && typeof transaction.quantity === 'number' && Number.isFinite(transaction.quantity) && transaction.quantity > 0
+    && typeof transaction.price === 'number' && Number.isFinite(transaction.price) && transaction.price >= 0
+    && typeof transaction.time === 'string' && !isNaN(new Date(transaction.time).getTime());
+};
+
+// Función para encontrar la primera venta que deja una posición en negativo
+// Devuelve null si todas las ventas están cubiertas por compras anteriores.
+export const findOversell = (transactions: PortfolioTransaction[]): PortfolioTransaction | null => {
+  const positions = new Map<string, Position>();
+  for (const transaction of sortByTime(transactions)) {
+    const position = positions.get(transaction.item) ?? { quantity: 0, costBasis: 0, realizedPnl: 0 };
+    positions.set(transaction.item, position);
+    if (!applyTransaction(position, transaction)) return transaction;
+  }
+  return null;
+};
+
+// Función para calcular las posiciones actuales valoradas con los precios de mercado
+export const computePositions = (transactions: PortfolioTransaction[], currentPrices: Record<string, number>): PositionSummary[] => {
+  const positions = new Map<string, Position>();
+  for (const transaction of sortByTime(transactions)) {
+    const position = positions.get(transaction.item) ?? { quantity: 0, costBasis: 0, realizedPnl: 0 };
+    positions.set(transaction.item, position);
+    applyTransaction(position, transaction);
+  }
+
+  return [...positions.entries()]
+    .sort(([a], [b]) => a.localeCompare(b))
+    .map(([item, { quantity, costBasis, realizedPnl }]) => {
+      const currentPrice = currentPrices[item] ?? null;
+      const marketValue = currentPrice !== null ? quantity * currentPrice : null;
+      return {
+        item,
+        quantity,
+        averageCost: quantity > 0 ? costBasis / quantity : 0,
+        costBasis,
+        currentPrice,
+        marketValue,
+        unrealizedPnl: marketValue !== null ? marketValue - costBasis : null,
+        realizedPnl
+      };
+    });
+};
+
+// Función para sumar las posiciones de la cartera
+export const getPortfolioTotals = (positions: PositionSummary[]): PortfolioTotals => {
+  const totals: PortfolioTotals = { costBasis: 0, marketValue: 0, unrealizedPnl: 0, realizedPnl: 0, unpricedItems: [] };
+  for (const position of positions) {
+    totals.realizedPnl += position.realizedPnl;
+    if (position.quantity === 0) continue;
+    totals.costBasis += position.costBasis;
+    if (position.marketValue === null) {
+      totals.unpricedItems.push(position.item);
+      continue;
+    }
+    totals.marketValue += position.marketValue;
+    totals.unrealizedPnl += position.unrealizedPnl!;
+  }
+  return totals;
+};
+
+// Función para calcular el valor histórico de la cartera sobre los datos cargados
+// Cada hora se valoran las unidades en cartera con el último precio conocido de cada item.
+export const getPortfolioValueCurve = (transactions: PortfolioTransaction[], data: FlatDataItem[]): PortfolioValuePoint[] => {
+  const items = [...new Set(transactions.map(t => t.item))];
+  if (items.length === 0 || data.length === 0) return [];
+
+  const { times, series } = alignItems(data, items, { intervalMs: VALUE_CURVE_INTERVAL_MS, fill: 'ffill' });
+  const sorted = sortByTime(transactions);
+  const positions = new Map<string, Position>(items.map(item => [item, { quantity: 0, costBasis: 0, realizedPnl: 0 }]));
+
+  const curve: PortfolioValuePoint[] = [];
+  let next = 0;
+  times.forEach((time, index) => {
+    // Transacciones hechas hasta el final de este intervalo
+    const bucketEnd = time + VALUE_CURVE_INTERVAL_MS;
+    while (next < sorted.length && new Date(sorted[next].time).getTime() < bucketEnd) {
+      applyTransaction(positions.get(sorted[next].item)!, sorted[next]);
+      next++;
+    }
+
+    const point: PortfolioValuePoint = { time: new Date(time), marketValue: 0, costBasis: 0, realizedPnl: 0 };
+    for (const item of items) {
+      const { quantity, costBasis, realizedPnl } = positions.get(item)!;
+      const price = series[item][index];
+      // Sin precio todavía se valora al coste para no mostrar una caída ficticia
+      point.marketValue += price !== null ? quantity * price : costBasis;
+      point.costBasis += costBasis;
+      point.realizedPnl += realizedPnl;
+    }
+    curve.push(point);
+  });
+  return curve;
+};
+
+// Función para crear una transacción nueva
+export const createTransaction = (fields: Omit<PortfolioTransaction, 'id'>): PortfolioTransaction => ({
+  id: createId(),
+  ...fields
+});
+
+// Función para exportar la cartera como JSON
+export const exportPortfolio = (transactions: PortfolioTransaction[]): string => {
+  const payload: PortfolioExport = {
+    version: 1,
+    exportedAt: new Date().toISOString(),
+    transactions: sortByTime(transactions)
+  };
+  return JSON.stringify(payload, null, 2);
+};
+
+// Función para leer una cartera exportada (o una lista de transacciones)
+// Lanza un error con el motivo si el contenido no es válido.
+export const parsePortfolio = (content: string): PortfolioTransaction[] => {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(content);
+  } catch (error) {
+    throw new Error(`JSON inválido: ${error instanceof Error ? error.message : 'error desconocido'}`);
+  }
+
+  const transactions = Array.isArray(parsed) ? parsed : (parsed as PortfolioExport | null)?.transactions;
+  if (!Array.isArray(transactions)) {
+    throw new Error('Se esperaba un objeto { transactions: [...] } o una lista de transacciones');
+  }
+
+  const invalidIndex = transactions.findIndex(transaction => !isValidTransaction(transaction));
+  if (invalidIndex !== -1) {
+    throw new Error(`Transacción inválida en la posición ${invalidIndex + 1}`);
+  }
+
+  // Conservar solo los campos conocidos y normalizar las fechas
+  return transactions.map(({ id, item, type, quantity, price, time }: PortfolioTransaction) => ({
+    id, item, type, quantity, price, time: new Date(time).toISOString()
+  }));
+};
+
+export const loadTransactions = (): PortfolioTransaction[] => readStorage<PortfolioTransaction[]>(TRANSACTIONS_STORAGE_KEY, []);
+
+export const saveTransactions = (transactions: PortfolioTransaction[]): void => writeStorage(TRANSACTIONS_STORAGE_KEY, transactions);
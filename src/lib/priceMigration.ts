@@ -0,0 +1,27 @@
+// Migración de los archivos semanales JSON a otro almacenamiento (normalmente SQLite)
+// Solo debe usarse desde rutas de la API, instrumentation o scripts de Node.
+
+import { listPriceFiles, readWeekFile } from '@/lib/dataStore';
+import type { PriceStore } from '@/lib/priceStore';
+
+export interface MigrationResult {
+  files: number;
+  records: number; // Registros leídos de los archivos
+  added: number;   // Registros nuevos en el destino (los ya existentes se omiten)
+}
+
+// Función para copiar todos los prices_*.json de public/data al almacenamiento indicado
+// Se puede repetir sin duplicar registros: el destino ignora item + timestamp ya guardados.
+export async function migrateJsonToStore(target: PriceStore): Promise<MigrationResult> {
+  const result: MigrationResult = { files: 0, records: 0, added: 0 };
+  if (target.backend === 'json') return result;
+
+  for (const filename of await listPriceFiles()) {
+    const data = await readWeekFile(filename);
+    result.files++;
+    result.records += Object.values(data.items).reduce((total, records) => total + records.length, 0);
+    const added = await target.append(data);
+    result.added += Object.values(added).reduce((total, count) => total + count, 0);
+  }
+  return result;
+}
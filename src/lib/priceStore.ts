@@ -0,0 +1,61 @@
+// Capa de almacenamiento del historial de precios
+// Las rutas de la API, el recolector y el importador usan esta interfaz; la implementación
+// se elige con STORAGE_CONFIG.backend (SQLite por defecto, archivos JSON semanales como alternativa).
+// Solo debe usarse desde rutas de la API, instrumentation o scripts de Node.
+
+import { STORAGE_CONFIG } from '@/config/storage.config';
+import type { RawData, WeekFileSummary } from '@/lib/types';
+
+export interface PriceStore {
+  readonly backend: 'json' | 'sqlite';
+  // Semanas con datos como nombres de archivo semanal, más reciente primero
+  listWeeks(): Promise<string[]>;
+  // Periodo, registros e items de cada semana, más reciente primero
+  summarizeWeeks(): Promise<WeekFileSummary[]>;
+  // Registros de una semana; datos vacíos si no hay ninguno
+  readWeek(filename: string): Promise<RawData>;
+  // Registros de los items pedidos (null = todos) entre from y to (inclusivos), ordenados por timestamp
+  query(items: string[] | null, from: Date | null, to: Date | null): Promise<RawData>;
+  // Items con algún registro, ordenados
+  listItems(): Promise<string[]>;
+  // Añade registros sin duplicar item + timestamp; devuelve los añadidos por archivo semanal
+  append(data: RawData): Promise<Record<string, number>>;
+}
+
+// Guardado en globalThis para reutilizar la conexión con recargas en caliente
+const globalForPriceStore = globalThis as unknown as { priceStore?: Promise<PriceStore> };
+
+// Función para abrir el almacenamiento configurado
+// Si SQLite no se puede abrir (por ejemplo, sin el módulo nativo) se usan los archivos JSON.
+const openPriceStore = async (): Promise<PriceStore> => {
+  const { createJsonPriceStore } = await import('@/lib/jsonPriceStore');
+  if (STORAGE_CONFIG.backend === 'json') return createJsonPriceStore();
+
+  try {
+    const { createSqlitePriceStore } = await import('@/lib/sqlitePriceStore');
+    const store = createSqlitePriceStore(STORAGE_CONFIG.sqlitePath);
+    if (STORAGE_CONFIG.migrateOnEmpty && (await store.listItems()).length === 0) {
+      const { migrateJsonToStore } = await import('@/lib/priceMigration');
+      const result = await migrateJsonToStore(store);
+      if (result.files > 0) {
+        console.log(`Migrados ${result.added} registros de ${result.files} archivos JSON a SQLite`);
+      }
+    }
+    return store;
+  } catch (error) {
+    console.error('Error al abrir SQLite, se usan los archivos JSON:', error);
+    return createJsonPriceStore();
+  }
+};
+
+// Función para obtener el almacenamiento del historial de precios
+export function getPriceStore(): Promise<PriceStore> {
+  if (!globalForPriceStore.priceStore) {
+    globalForPriceStore.priceStore = openPriceStore();
+    // Un fallo al abrir no debe quedar en caché
+    globalForPriceStore.priceStore.catch(() => {
+      globalForPriceStore.priceStore = undefined;
+    });
+  }
+  return globalForPriceStore.priceStore;
+}
@@ -0,0 +1,47 @@
+// Difusión de precios nuevos a las conexiones de /api/stream dentro del mismo proceso
+// Solo debe usarse desde rutas de la API, instrumentation o scripts de Node.
+
+import type { RawData } from '@/lib/types';
+
+type PriceListener = (data: RawData) => void;
+
+// Guardado en globalThis para compartir los suscriptores con recargas en caliente
+const globalForStream = globalThis as unknown as {
+  priceListeners?: Set<PriceListener>;
+  lastPublished?: Map<string, number>; // Último timestamp publicado de cada item (ms)
+};
+
+const listeners = (globalForStream.priceListeners ??= new Set());
+const lastPublished = (globalForStream.lastPublished ??= new Map());
+
+// Función para suscribirse a los precios nuevos; devuelve la función para darse de baja
+export function subscribePrices(listener: PriceListener): () => void {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
+
+// Función para publicar una instantánea de precios
+// Solo se difunden los registros posteriores al último publicado de cada item.
+export function publishPrices(data: RawData): void {
+  const fresh: RawData = { items: {} };
+  for (const [item, records] of Object.entries(data.items)) {
+    const last = lastPublished.get(item) ?? -Infinity;
+    const newer = records
+      .filter(record => new Date(record.timestamp).getTime() > last)
+      .sort((a, b) => new Date(a.timestamp).getTime() - new Date(b.timestamp).getTime());
+    if (newer.length === 0) continue;
+    fresh.items[item] = newer;
+    lastPublished.set(item, new Date(newer[newer.length - 1].timestamp).getTime());
+  }
+
+  if (Object.keys(fresh.items).length === 0) return;
+  for (const listener of listeners) {
+    try {
+      listener(fresh);
+    } catch (error) {
+      console.error('Error al enviar precios a un suscriptor:', error);
+    }
+  }
+}
@@ -0,0 +1,240 @@
+// Remuestreo de series de precios sobre una rejilla temporal común
+// Las muestras llegan a horas irregulares (15:00:27, 15:04:40, 16:04:38...); aquí se agrupan
+// en intervalos fijos para que todos los análisis trabajen sobre datos comparables.
+
+import { getZonedBucketStart } from '@/lib/timezone';
+import type { FlatDataItem } from '@/lib/types';
+
+// 'ffill' arrastra el último valor, 'linear' interpola entre intervalos con datos, 'none' deja huecos
+export type FillStrategy = 'ffill' | 'linear' | 'none';
+
+// Valor representativo de cada intervalo; con 'ohlc' se usa el cierre
+export type Aggregation = 'last' | 'mean' | 'ohlc';
+
+export interface ResampleOptions {
+  intervalMs: number;
+  fill?: FillStrategy;        // Por defecto 'none'
+  aggregation?: Aggregation;  // Por defecto 'last'
+  start?: number;             // Inicio de la rejilla (ms); por defecto el primer intervalo con datos
+  end?: number;               // Fin de la rejilla (ms); por defecto el último intervalo con datos
+  gapThresholdMs?: number;    // Separación entre muestras a partir de la cual hay hueco; por defecto 2 intervalos
+  timeZone?: string;          // Zona IANA cuyo reloj siguen los intervalos; por defecto intervalos fijos desde 1970 UTC
+}
+
+export interface ResampledBucket {
+  time: Date;            // Inicio del intervalo
+  value: number | null;  // Según la agregación y el relleno; null si no hay valor
+  open: number | null;
+  high: number | null;
+  low: number | null;
+  close: number | null;
+  mean: number | null;
+  std: number | null;    // Desviación estándar de las muestras del intervalo
+  count: number;         // Muestras reales dentro del intervalo
+  filled: boolean;       // true si el valor procede del relleno y no de muestras
+}
+
+export interface Gap {
+  start: Date; // Última muestra antes del hueco
+  end: Date;   // Primera muestra después del hueco
+  durationMs: number;
+}
+
+export interface ResampledSeries {
+  buckets: ResampledBucket[];
+  gaps: Gap[];
+}
+
+// Series de varios items alineadas sobre los mismos intervalos
+export interface AlignedSeries {
+  times: number[];                           // Inicio de cada intervalo (ms)
+  series: Record<string, (number | null)[]>; // Valor de cada item en cada intervalo
+  gaps: Record<string, Gap[]>;
+}
+
+export interface Sample {
+  time: number; // ms
+  price: number;
+}
+
+// Paso con el que se busca el intervalo siguiente en una zona horaria (los cambios de hora son de 15 minutos o más)
+const ZONED_STEP_MS = 15 * 60 * 1000;
+
+// Función para obtener el inicio del intervalo que contiene un instante
+// Con zona horaria los intervalos siguen su reloj (ver getZonedBucketStart), así que un día
+// empieza a medianoche local y puede durar 23 o 25 horas.
+export const getBucketStart = (time: number, intervalMs: number, timeZone?: string): number => {
+  if (timeZone) return getZonedBucketStart(time, intervalMs, timeZone);
+  return Math.floor(time / intervalMs) * intervalMs;
+};
+
+// Función para obtener el inicio del intervalo siguiente a uno dado
+const getNextBucketStart = (start: number, intervalMs: number, timeZone?: string): number => {
+  if (!timeZone) return start + intervalMs;
+  let time = start + intervalMs;
+  while (getBucketStart(time, intervalMs, timeZone) <= start) time += ZONED_STEP_MS;
+  return getBucketStart(time, intervalMs, timeZone);
+};
+
+// Función para detectar huecos entre muestras consecutivas ordenadas
+export const detectGaps = (times: number[], thresholdMs: number): Gap[] => {
+  const gaps: Gap[] = [];
+  for (let i = 1; i < times.length; i++) {
+    const durationMs = times[i] - times[i - 1];
+    if (durationMs > thresholdMs) {
+      gaps.push({ start: new Date(times[i - 1]), end: new Date(times[i]), durationMs });
+    }
+  }
+  return gaps;
+};
+
+// Función para crear un intervalo vacío
+const emptyBucket = (time: number): ResampledBucket => ({
+  time: new Date(time),
+  value: null,
+  open: null,
+  high: null,
+  low: null,
+  close: null,
+  mean: null,
+  std: null,
+  count: 0,
+  filled: false
+});
+
+// Función para agrupar las muestras por intervalo
+// Se asume que las muestras vienen ordenadas por tiempo.
+const groupSamples = (samples: Sample[], intervalMs: number, timeZone?: string): Map<number, ResampledBucket> => {
+  const accumulators = new Map<number, { open: number; high: number; low: number; close: number; mean: number; m2: number; count: number }>();
+  for (const { time, price } of samples) {
+    const key = getBucketStart(time, intervalMs, timeZone);
+    let acc = accumulators.get(key);
+    if (!acc) {
+      acc = { open: price, high: price, low: price, close: price, mean: 0, m2: 0, count: 0 };
+      accumulators.set(key, acc);
+    }
+    // Media y varianza incrementales (Welford)
+    acc.count += 1;
+    const delta = price - acc.mean;
+    acc.mean += delta / acc.count;
+    acc.m2 += delta * (price - acc.mean);
+    acc.high = Math.max(acc.high, price);
+    acc.low = Math.min(acc.low, price);
+    acc.close = price;
+  }
+
+  const buckets = new Map<number, ResampledBucket>();
+  for (const [key, { m2, ...acc }] of accumulators) {
+    buckets.set(key, { ...emptyBucket(key), ...acc, std: Math.sqrt(m2 / acc.count) });
+  }
+  return buckets;
+};
+
+// Función para obtener el valor de un intervalo con datos según la agregación
+const aggregate = (bucket: ResampledBucket, aggregation: Aggregation): number | null => {
+  return aggregation === 'mean' ? bucket.mean : bucket.close;
+};
+
+// Función para rellenar los intervalos vacíos según la estrategia
+// 'ffill' y 'linear' no rellenan antes del primer valor; 'linear' tampoco después del último.
+const fillBuckets = (buckets: ResampledBucket[], fill: FillStrategy): void => {
+  if (fill === 'none') return;
+
+  let previous = -1;
+  for (let i = 0; i < buckets.length; i++) {
+    if (buckets[i].count === 0) continue;
+
+    if (previous >= 0 && i - previous > 1) {
+      const from = buckets[previous].value!;
+      const to = buckets[i].value!;
+      for (let j = previous + 1; j < i; j++) {
+        const value = fill === 'linear' ? from + (to - from) * (j - previous) / (i - previous) : from;
+        setFilledValue(buckets[j], value);
+      }
+    }
+    previous = i;
+  }
+
+  if (fill === 'ffill' && previous >= 0) {
+    for (let j = previous + 1; j < buckets.length; j++) {
+      setFilledValue(buckets[j], buckets[previous].value!);
+    }
+  }
+};
+
+// Función para marcar un intervalo como relleno con un valor
+const setFilledValue = (bucket: ResampledBucket, value: number): void => {
+  bucket.value = value;
+  bucket.open = bucket.high = bucket.low = bucket.close = value;
+  bucket.filled = true;
+};
+
+// Función para remuestrear una serie ordenada sobre intervalos fijos
+export const resampleSeries = (samples: Sample[], options: ResampleOptions): ResampledSeries => {
+  const { intervalMs, fill = 'none', aggregation = 'last', gapThresholdMs = intervalMs * 2, timeZone } = options;
+  if (intervalMs <= 0) {
+    throw new Error(`Intervalo de remuestreo inválido: ${intervalMs}`);
+  }
+
+  const grouped = groupSamples(samples, intervalMs, timeZone);
+  const gaps = detectGaps(samples.map(s => s.time), gapThresholdMs);
+  if (grouped.size === 0 && (options.start === undefined || options.end === undefined)) {
+    return { buckets: [], gaps };
+  }
+
+  const keys = [...grouped.keys()];
+  const start = getBucketStart(options.start ?? keys[0], intervalMs, timeZone);
+  const end = getBucketStart(options.end ?? keys[keys.length - 1], intervalMs, timeZone);
+
+  const buckets: ResampledBucket[] = [];
+  for (let time = start; time <= end; time = getNextBucketStart(time, intervalMs, timeZone)) {
+    const bucket = grouped.get(time);
+    buckets.push(bucket ? { ...bucket, value: aggregate(bucket, aggregation) } : emptyBucket(time));
+  }
+  fillBuckets(buckets, fill);
+
+  return { buckets, gaps };
+};
+
+// Función para obtener las muestras de un item a partir de los datos planos
+// Se asume que los datos vienen ordenados por timestamp.
+export const getItemSamples = (data: FlatDataItem[], item: string): Sample[] => {
+  const samples: Sample[] = [];
+  for (const d of data) {
+    if (d.item === item) samples.push({ time: d.timestamp.getTime(), price: d.price });
+  }
+  return samples;
+};
+
+// Función para alinear varios items sobre la misma rejilla de intervalos
+export const alignItems = (data: FlatDataItem[], items: string[], options: ResampleOptions): AlignedSeries => {
+  const samplesByItem = new Map<string, Sample[]>(items.map(item => [item, []]));
+  let first = Infinity;
+  let last = -Infinity;
+  for (const d of data) {
+    const samples = samplesByItem.get(d.item);
+    if (!samples) continue;
+    const time = d.timestamp.getTime();
+    samples.push({ time, price: d.price });
+    if (time < first) first = time;
+    if (time > last) last = time;
+  }
+
+  const result: AlignedSeries = { times: [], series: {}, gaps: {} };
+  if (first > last) {
+    items.forEach(item => {
+      result.series[item] = [];
+      result.gaps[item] = [];
+    });
+    return result;
+  }
+
+  const gridOptions = { ...options, start: options.start ?? first, end: options.end ?? last };
+  for (const item of items) {
+    const { buckets, gaps } = resampleSeries(samplesByItem.get(item)!, gridOptions);
+    if (result.times.length === 0) result.times = buckets.map(b => b.time.getTime());
+    result.series[item] = buckets.map(b => b.value);
+    result.gaps[item] = gaps;
+  }
+  return result;
+};
@@ -0,0 +1,118 @@
+// Estacionalidad por hora del día y por día de la semana (en la zona horaria de los datos)
+// Cada precio se expresa como desviación porcentual respecto a la media de su día,
+// de modo que items baratos y caros son comparables en la misma escala.
+
+import { isHourInRange, type HourRange } from '@/lib/hourRange';
+import { getWeekdayIndex } from '@/lib/timezone';
+import type { FlatDataItem } from '@/lib/types';
+
+export interface SeasonalityGrid {
+  items: string[];
+  buckets: number[];          // Horas (0-23) o días de la semana (0 = lunes)
+  mean: (number | null)[][];  // Desviación media en %, por item y bucket
+  count: number[][];          // Muestras por celda
+}
+
+export interface SeasonalityRecommendation {
+  item: string;
+  buyHour: number;       // Hora con la desviación media más baja
+  buyDeviation: number;
+  sellHour: number;      // Hora con la desviación media más alta
+  sellDeviation: number;
+  spread: number;        // Diferencia entre ambas, en puntos porcentuales
+  minCount: number;      // Muestras de la celda menos poblada de las dos
+}
+
+export const WEEKDAY_LABELS = ['Lunes', 'Martes', 'Miércoles', 'Jueves', 'Viernes', 'Sábado', 'Domingo'];
+
+// Mínimo de muestras de una celda para tenerla en cuenta en las recomendaciones
+export const MIN_CELL_COUNT = 3;
+
+// Función para obtener la desviación porcentual de cada precio respecto a la media de su día
+export const getDailyDeviations = (data: FlatDataItem[]): { item: string; timestamp: Date; day: string; hour: number; deviation: number }[] => {
+  const totals = new Map<string, { total: number; count: number }>();
+  for (const d of data) {
+    const key = `${d.item}|${d.day}`;
+    const entry = totals.get(key) ?? { total: 0, count: 0 };
+    entry.total += d.price;
+    entry.count += 1;
+    totals.set(key, entry);
+  }
+
+  const result = [];
+  for (const d of data) {
+    const { total, count } = totals.get(`${d.item}|${d.day}`)!;
+    const mean = total / count;
+    if (mean === 0) continue;
+    result.push({ item: d.item, timestamp: d.timestamp, day: d.day, hour: d.hour, deviation: (d.price / mean - 1) * 100 });
+  }
+  return result;
+};
+
+// Función para agrupar las desviaciones en una rejilla item × bucket
+const buildGrid = (
+  deviations: ReturnType<typeof getDailyDeviations>,
+  buckets: number[],
+  getBucket: (d: ReturnType<typeof getDailyDeviations>[number]) => number
+): SeasonalityGrid => {
+  const items = [...new Set(deviations.map(d => d.item))].sort();
+  const itemIndex = new Map(items.map((item, i) => [item, i]));
+  const bucketIndex = new Map(buckets.map((bucket, i) => [bucket, i]));
+  const totals = items.map(() => buckets.map(() => 0));
+  const count = items.map(() => buckets.map(() => 0));
+
+  for (const d of deviations) {
+    const column = bucketIndex.get(getBucket(d));
+    if (column === undefined) continue;
+    const row = itemIndex.get(d.item)!;
+    totals[row][column] += d.deviation;
+    count[row][column] += 1;
+  }
+
+  return {
+    items,
+    buckets,
+    mean: totals.map((row, i) => row.map((total, j) => count[i][j] > 0 ? total / count[i][j] : null)),
+    count
+  };
+};
+
+// Función para calcular la estacionalidad por hora del día dentro de un rango de horas
+export const getHourlySeasonality = (data: FlatDataItem[], hours: number[]): SeasonalityGrid => {
+  return buildGrid(getDailyDeviations(data), hours, d => d.hour);
+};
+
+// Función para calcular la estacionalidad por día de la semana
+// Si se indica un rango de horas solo se usan las muestras de esas horas.
+export const getWeekdaySeasonality = (data: FlatDataItem[], hourRange?: HourRange): SeasonalityGrid => {
+  const deviations = getDailyDeviations(data).filter(d => !hourRange || isHourInRange(d.hour, hourRange));
+  return buildGrid(deviations, [0, 1, 2, 3, 4, 5, 6], d => getWeekdayIndex(d.day));
+};
+
+// Función para recomendar las mejores horas de compra y venta de cada item
+// Solo se consideran celdas con al menos MIN_CELL_COUNT muestras.
+export const getBestHours = (grid: SeasonalityGrid): SeasonalityRecommendation[] => {
+  const recommendations: SeasonalityRecommendation[] = [];
+  grid.items.forEach((item, i) => {
+    let buy = -1;
+    let sell = -1;
+    grid.buckets.forEach((_, j) => {
+      const mean = grid.mean[i][j];
+      if (mean === null || grid.count[i][j] < MIN_CELL_COUNT) return;
+      if (buy === -1 || mean < grid.mean[i][buy]!) buy = j;
+      if (sell === -1 || mean > grid.mean[i][sell]!) sell = j;
+    });
+    if (buy === -1 || buy === sell) return;
+
+    recommendations.push({
+      item,
+      buyHour: grid.buckets[buy],
+      buyDeviation: grid.mean[i][buy]!,
+      sellHour: grid.buckets[sell],
+      sellDeviation: grid.mean[i][sell]!,
+      spread: grid.mean[i][sell]! - grid.mean[i][buy]!,
+      minCount: Math.min(grid.count[i][buy], grid.count[i][sell])
+    });
+  });
+  return recommendations.sort((a, b) => b.spread - a.spread);
+};
@@ -0,0 +1,163 @@
+// Almacenamiento del historial en una base de datos SQLite (tabla prices(item, ts, price))
+// Solo debe usarse desde rutas de la API, instrumentation o scripts de Node.
+
+import fs from 'fs';
+import path from 'path';
+import Database from 'better-sqlite3';
+import type { PriceStore } from '@/lib/priceStore';
+import type { RawData } from '@/lib/types';
+import { getWeekFileName, parseWeekFileName } from '@/lib/weekFiles';
+
+interface PriceRow {
+  item: string;
+  ts: number; // ms desde epoch (UTC)
+  price: number;
+}
+
+// Inicio (ms) de la semana ISO (lunes 00:00 UTC) de un timestamp; el 1970-01-01 fue jueves
+const WEEK_START_SQL = '(ts / 86400000 - (ts / 86400000 + 3) % 7) * 86400000';
+
+// La clave primaria (item, ts) evita duplicados y sirve a las consultas por item y periodo;
+// el índice por ts sirve a las consultas de periodo de todos los items.
+// item_weeks resume cada item por semana y se mantiene al insertar, de modo que listar las
+// semanas no recorre toda la tabla de precios.
+const SCHEMA = `
+  CREATE TABLE IF NOT EXISTS prices (
+    item TEXT NOT NULL,
+    ts INTEGER NOT NULL,
+    price REAL NOT NULL,
+    PRIMARY KEY (item, ts)
+  ) WITHOUT ROWID;
+  CREATE INDEX IF NOT EXISTS prices_ts ON prices (ts);
+  CREATE TABLE IF NOT EXISTS item_weeks (
+    week INTEGER NOT NULL,
+    item TEXT NOT NULL,
+    records INTEGER NOT NULL,
+    first INTEGER NOT NULL,
+    last INTEGER NOT NULL,
+    PRIMARY KEY (week, item)
+  ) WITHOUT ROWID;
+`;
+
+// Función para convertir filas ordenadas en RawData
+const toRawData = (rows: PriceRow[]): RawData => {
+  const data: RawData = { items: {} };
+  for (const { item, ts, price } of rows) {
+    (data.items[item] ??= []).push({ timestamp: new Date(ts).toISOString(), price });
+  }
+  return data;
+};
+
+// Función para crear el almacenamiento SQLite en `filePath` (se crea si no existe)
+export function createSqlitePriceStore(filePath: string): PriceStore {
+  fs.mkdirSync(path.dirname(filePath), { recursive: true });
+  const db = new Database(filePath);
+  db.pragma('journal_mode = WAL');
+  db.exec(SCHEMA);
+
+  // Bases creadas antes de item_weeks: el resumen se calcula una vez a partir de los precios
+  const hasSummary = db.prepare('SELECT 1 FROM item_weeks LIMIT 1').get() !== undefined;
+  if (!hasSummary && db.prepare('SELECT 1 FROM prices LIMIT 1').get() !== undefined) {
+    db.exec(`
+      INSERT INTO item_weeks (week, item, records, first, last)
+      SELECT ${WEEK_START_SQL} AS week, item, COUNT(*), MIN(ts), MAX(ts) FROM prices GROUP BY week, item
+    `);
+  }
+
+  const insert = db.prepare('INSERT OR IGNORE INTO prices (item, ts, price) VALUES (?, ?, ?)');
+  const updateSummary = db.prepare(`
+    INSERT INTO item_weeks (week, item, records, first, last) VALUES (?, ?, 1, ?, ?)
+    ON CONFLICT (week, item) DO UPDATE SET
+      records = records + 1, first = MIN(first, excluded.first), last = MAX(last, excluded.last)
+  `);
+  const selectRange = db.prepare('SELECT item, ts, price FROM prices WHERE ts >= ? AND ts < ? ORDER BY ts, item');
+
+  // Inserta todos los registros en una sola transacción
+  const insertMany = db.transaction((data: RawData): Record<string, number> => {
+    const summary: Record<string, number> = {};
+    for (const [item, records] of Object.entries(data.items)) {
+      for (const record of records) {
+        const date = new Date(record.timestamp);
+        const price = Number(record.price);
+        if (isNaN(date.getTime()) || !Number.isFinite(price)) {
+          console.warn(`Registro inválido para ${item}: ${record.timestamp}`);
+          continue;
+        }
+        const filename = getWeekFileName(date);
+        const time = date.getTime();
+        const { changes } = insert.run(item, time, price);
+        if (changes > 0) {
+          updateSummary.run(parseWeekFileName(filename)!.start.getTime(), item, time, time);
+        }
+        summary[filename] = (summary[filename] ?? 0) + changes;
+      }
+    }
+    return summary;
+  });
+
+  return {
+    backend: 'sqlite',
+
+    async listWeeks() {
+      const rows = db.prepare('SELECT DISTINCT week FROM item_weeks ORDER BY week DESC').all() as { week: number }[];
+      return rows.map(({ week }) => getWeekFileName(new Date(week)));
+    },
+
+    async summarizeWeeks() {
+      const rows = db.prepare(`
+        SELECT week, SUM(records) AS records, COUNT(*) AS items, MIN(first) AS first, MAX(last) AS last
+        FROM item_weeks GROUP BY week ORDER BY week DESC
+      `).all() as { week: number; records: number; items: number; first: number; last: number }[];
+
+      return rows.map(row => {
+        const info = parseWeekFileName(getWeekFileName(new Date(row.week)))!;
+        return {
+          filename: info.filename,
+          format: info.format,
+          start: info.start.toISOString(),
+          end: info.end.toISOString(),
+          records: row.records,
+          items: row.items,
+          firstTimestamp: new Date(row.first).toISOString(),
+          lastTimestamp: new Date(row.last).toISOString()
+        };
+      });
+    },
+
+    async readWeek(filename) {
+      const info = parseWeekFileName(filename);
+      if (!info) return { items: {} };
+      return toRawData(selectRange.all(info.start.getTime(), info.end.getTime()) as PriceRow[]);
+    },
+
+    async query(items, from, to) {
+      if (items && items.length === 0) return { items: {} };
+      const conditions: string[] = [];
+      const params: (string | number)[] = [];
+      if (items) {
+        conditions.push(`item IN (${items.map(() => '?').join(', ')})`);
+        params.push(...items);
+      }
+      if (from) {
+        conditions.push('ts >= ?');
+        params.push(from.getTime());
+      }
+      if (to) {
+        conditions.push('ts <= ?');
+        params.push(to.getTime());
+      }
+      const where = conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : '';
+      const rows = db.prepare(`SELECT item, ts, price FROM prices ${where} ORDER BY ts, item`).all(...params) as PriceRow[];
+      return toRawData(rows);
+    },
+
+    async listItems() {
+      const rows = db.prepare('SELECT DISTINCT item FROM prices ORDER BY item').all() as { item: string }[];
+      return rows.map(row => row.item);
+    },
+
+    async append(data) {
+      return insertMany(data);
+    }
+  };
+}
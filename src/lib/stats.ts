@@ -0,0 +1,27 @@
+// Funciones estadísticas compartidas por los gráficos y las alertas
+
+// Función para calcular la desviación estándar (nuestra medida de volatilidad)
+export const getStandardDeviation = (array: number[]): number => {
+  if (!array || array.length === 0) return 0;
+  try {
+    const n = array.length;
+    const mean = array.reduce((a: number, b: number) => a + b) / n;
+    return Math.sqrt(array.map(x => Math.pow(x - mean, 2)).reduce((a: number, b: number) => a + b) / n);
+  } catch (error) {
+    console.error('Error al calcular la desviación estándar:', error);
+    return 0;
+  }
+};
+
+// Función para calcular la mediana
+export const getMedian = (array: number[]): number => {
+  if (!array || array.length === 0) return 0;
+  const sorted = [...array].sort((a, b) => a - b);
+  const middle = Math.floor(sorted.length / 2);
+  return sorted.length % 2 === 0 ? (sorted[middle - 1] + sorted[middle]) / 2 : sorted[middle];
+};
+
+// Función para calcular la desviación absoluta mediana (MAD), robusta frente a valores atípicos
+export const getMedianAbsoluteDeviation = (array: number[], median: number = getMedian(array)): number => {
+  return getMedian(array.map(x => Math.abs(x - median)));
+};
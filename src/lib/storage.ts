@@ -0,0 +1,24 @@
+// Lectura y escritura segura de valores JSON en localStorage
+// En el servidor (sin window) se devuelve el valor por defecto y no se guarda nada.
+
+// Función para leer un valor JSON de localStorage de forma segura
+export const readStorage = <T>(key: string, fallback: T): T => {
+  if (typeof window === 'undefined') return fallback;
+  try {
+    const value = window.localStorage.getItem(key);
+    return value ? JSON.parse(value) as T : fallback;
+  } catch (error) {
+    console.error(`Error al leer ${key} de localStorage:`, error);
+    return fallback;
+  }
+};
+
+// Función para guardar un valor JSON en localStorage
+export const writeStorage = (key: string, value: unknown): void => {
+  if (typeof window === 'undefined') return;
+  try {
+    window.localStorage.setItem(key, JSON.stringify(value));
+  } catch (error) {
+    console.error(`Error al guardar ${key} en localStorage:`, error);
+  }
+};
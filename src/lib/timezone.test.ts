@@ -0,0 +1,45 @@
+import { describe, expect, it } from 'vitest';
+import { getZonedBucketStart } from '@/lib/timezone';
+
+const HOUR_MS = 60 * 60 * 1000;
+const MADRID = 'Europe/Madrid';
+
+const at = (iso: string) => Date.parse(iso);
+
+describe('getZonedBucketStart', () => {
+  it('separa las dos horas que se repiten al retrasar el reloj (Madrid, 2025-10-26)', () => {
+    // 02:00-03:00 CEST y 02:00-03:00 CET
+    expect(getZonedBucketStart(at('2025-10-26T00:00:00Z'), HOUR_MS, MADRID)).toBe(at('2025-10-26T00:00:00Z'));
+    expect(getZonedBucketStart(at('2025-10-26T00:30:00Z'), HOUR_MS, MADRID)).toBe(at('2025-10-26T00:00:00Z'));
+    expect(getZonedBucketStart(at('2025-10-26T01:00:00Z'), HOUR_MS, MADRID)).toBe(at('2025-10-26T01:00:00Z'));
+    expect(getZonedBucketStart(at('2025-10-26T01:30:00Z'), HOUR_MS, MADRID)).toBe(at('2025-10-26T01:00:00Z'));
+  });
+
+  it('mantiene en un solo intervalo de 4h las cinco horas de 00:00 a 04:00 al retrasar el reloj', () => {
+    const start = at('2025-10-25T22:00:00Z'); // 00:00 CEST
+    for (const iso of ['2025-10-25T22:00:00Z', '2025-10-26T00:30:00Z', '2025-10-26T01:30:00Z', '2025-10-26T02:59:00Z']) {
+      expect(getZonedBucketStart(at(iso), 4 * HOUR_MS, MADRID)).toBe(start);
+    }
+    expect(getZonedBucketStart(at('2025-10-26T03:00:00Z'), 4 * HOUR_MS, MADRID)).toBe(at('2025-10-26T03:00:00Z'));
+  });
+
+  it('salta la hora que no existe al adelantar el reloj (Madrid, 2025-03-30)', () => {
+    // 01:00-02:00 CET y, tras el salto, 03:00-04:00 CEST
+    expect(getZonedBucketStart(at('2025-03-30T00:30:00Z'), HOUR_MS, MADRID)).toBe(at('2025-03-30T00:00:00Z'));
+    expect(getZonedBucketStart(at('2025-03-30T01:00:00Z'), HOUR_MS, MADRID)).toBe(at('2025-03-30T01:00:00Z'));
+    expect(getZonedBucketStart(at('2025-03-30T01:45:00Z'), HOUR_MS, MADRID)).toBe(at('2025-03-30T01:00:00Z'));
+  });
+
+  it('mantiene en un solo intervalo de 4h las tres horas de 00:00 a 04:00 al adelantar el reloj', () => {
+    const start = at('2025-03-29T23:00:00Z'); // 00:00 CET
+    for (const iso of ['2025-03-29T23:00:00Z', '2025-03-30T00:59:00Z', '2025-03-30T01:00:00Z', '2025-03-30T01:59:00Z']) {
+      expect(getZonedBucketStart(at(iso), 4 * HOUR_MS, MADRID)).toBe(start);
+    }
+    expect(getZonedBucketStart(at('2025-03-30T02:00:00Z'), 4 * HOUR_MS, MADRID)).toBe(at('2025-03-30T02:00:00Z'));
+  });
+
+  it('empieza los días a medianoche local aunque duren 23 o 25 horas', () => {
+    expect(getZonedBucketStart(at('2025-10-26T12:00:00Z'), 24 * HOUR_MS, MADRID)).toBe(at('2025-10-25T22:00:00Z'));
+    expect(getZonedBucketStart(at('2025-03-30T12:00:00Z'), 24 * HOUR_MS, MADRID)).toBe(at('2025-03-29T23:00:00Z'));
+  });
+});
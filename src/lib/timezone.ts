@@ -0,0 +1,200 @@
+// Zona horaria en la que se agrupan los precios por día y hora y se muestran las fechas
+// Los desfases se obtienen de Intl, así que los cambios de horario (DST) de cada zona se
+// respetan: hay días de 23 y de 25 horas y horas que no existen o se repiten.
+
+import { readStorage, writeStorage } from '@/lib/storage';
+
+// 'browser' sigue la zona del navegador; también se acepta 'UTC' o cualquier zona IANA
+export type TimeZoneSetting = string;
+
+export const BROWSER_TIME_ZONE = 'browser';
+
+const TIME_ZONE_STORAGE_KEY = 'price-timezone:setting';
+
+const HOUR_MS = 60 * 60 * 1000;
+const DAY_MS = 24 * HOUR_MS;
+
+// Los cambios de desfase de las zonas actuales ocurren en instantes múltiplos de 15 minutos,
+// así que el desfase calculado al inicio de cada cuarto de hora vale para todo él.
+const OFFSET_STEP_MS = 15 * 60 * 1000;
+
+const formatters = new Map<string, Intl.DateTimeFormat>();
+const offsetCache = new Map<string, Map<number, number>>();
+const dayCache = new Map<number, string>();
+
+// Función para obtener (y reutilizar) el formateador de una zona
+const getFormatter = (timeZone: string): Intl.DateTimeFormat => {
+  let formatter = formatters.get(timeZone);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat('en-US', {
+      timeZone,
+      hourCycle: 'h23',
+      year: 'numeric',
+      month: 'numeric',
+      day: 'numeric',
+      hour: 'numeric',
+      minute: 'numeric',
+      second: 'numeric'
+    });
+    formatters.set(timeZone, formatter);
+  }
+  return formatter;
+};
+
+// Función para comprobar si una zona IANA es válida
+export const isValidTimeZone = (timeZone: string): boolean => {
+  try {
+    getFormatter(timeZone);
+    return true;
+  } catch {
+    return false;
+  }
+};
+
+// Función para obtener la zona del navegador; UTC si no se puede determinar
+export const getBrowserTimeZone = (): string => {
+  try {
+    return Intl.DateTimeFormat().resolvedOptions().timeZone || 'UTC';
+  } catch {
+    return 'UTC';
+  }
+};
+
+// Función para pasar el ajuste guardado a una zona IANA concreta
+export const resolveTimeZone = (setting: TimeZoneSetting): string => {
+  if (setting === BROWSER_TIME_ZONE) return getBrowserTimeZone();
+  return isValidTimeZone(setting) ? setting : 'UTC';
+};
+
+// Función para obtener las zonas que se pueden elegir, en orden alfabético
+export const getTimeZoneOptions = (): string[] => {
+  const zones = typeof Intl.supportedValuesOf === 'function' ? Intl.supportedValuesOf('timeZone') : [];
+  return [...new Set([...zones, getBrowserTimeZone()])].filter(zone => zone !== 'UTC').sort();
+};
+
+export const loadTimeZoneSetting = (): TimeZoneSetting => {
+  const setting = readStorage<TimeZoneSetting>(TIME_ZONE_STORAGE_KEY, BROWSER_TIME_ZONE);
+  return setting === BROWSER_TIME_ZONE || isValidTimeZone(setting) ? setting : BROWSER_TIME_ZONE;
+};
+
+export const saveTimeZoneSetting = (setting: TimeZoneSetting): void => writeStorage(TIME_ZONE_STORAGE_KEY, setting);
+
+// Función para calcular el desfase (ms) de una zona respecto a UTC en un instante
+const computeOffset = (time: number, timeZone: string): number => {
+  const parts: Record<string, number> = {};
+  for (const { type, value } of getFormatter(timeZone).formatToParts(new Date(time))) {
+    if (type !== 'literal') parts[type] = Number(value);
+  }
+  const wallClock = Date.UTC(parts.year, parts.month - 1, parts.day, parts.hour, parts.minute, parts.second);
+  return wallClock - Math.floor(time / 1000) * 1000;
+};
+
+// Función para obtener el desfase (ms) de una zona respecto a UTC en un instante
+export const getTimeZoneOffset = (time: number, timeZone: string): number => {
+  if (timeZone === 'UTC') return 0;
+  let cache = offsetCache.get(timeZone);
+  if (!cache) {
+    cache = new Map();
+    offsetCache.set(timeZone, cache);
+  }
+  const step = Math.floor(time / OFFSET_STEP_MS);
+  let offset = cache.get(step);
+  if (offset === undefined) {
+    offset = computeOffset(step * OFFSET_STEP_MS, timeZone);
+    cache.set(step, offset);
+  }
+  return offset;
+};
+
+// Función para obtener la hora de reloj de la zona como si fuera un instante UTC
+const toWallClock = (time: number, timeZone: string): number => time + getTimeZoneOffset(time, timeZone);
+
+// Función para obtener el día (YYYY-MM-DD) de un instante en la zona indicada
+export const getZonedDay = (time: number, timeZone: string): string => {
+  const dayNumber = Math.floor(toWallClock(time, timeZone) / DAY_MS);
+  let day = dayCache.get(dayNumber);
+  if (day === undefined) {
+    day = new Date(dayNumber * DAY_MS).toISOString().slice(0, 10);
+    dayCache.set(dayNumber, day);
+  }
+  return day;
+};
+
+// Función para obtener la hora (0-23) de un instante en la zona indicada
+export const getZonedHour = (time: number, timeZone: string): number => {
+  const wallClock = toWallClock(time, timeZone);
+  return Math.floor((wallClock - Math.floor(wallClock / DAY_MS) * DAY_MS) / HOUR_MS);
+};
+
+// Función para obtener el día de la semana (0 = lunes) de un día YYYY-MM-DD
+export const getWeekdayIndex = (day: string): number => (new Date(`${day}T00:00:00.000Z`).getUTCDay() + 6) % 7;
+
+// Función para obtener el día siguiente a uno dado (YYYY-MM-DD)
+const getNextDay = (day: string): string => {
+  const date = new Date(`${day}T00:00:00.000Z`);
+  return isNaN(date.getTime()) ? day : new Date(date.getTime() + DAY_MS).toISOString().slice(0, 10);
+};
+
+// Función para pasar una hora de reloj de la zona (expresada como instante UTC) al instante real
+// Se ajusta el desfase dos veces por si la hora está justo al otro lado de un cambio de hora.
+const fromWallClock = (wallClock: number, timeZone: string): number => {
+  const time = wallClock - getTimeZoneOffset(wallClock, timeZone);
+  return wallClock - getTimeZoneOffset(time, timeZone);
+};
+
+// Función para obtener el primer instante (ms) de un día YYYY-MM-DD en la zona indicada
+// Si la medianoche no existe por un cambio de hora, el día empieza al terminar el salto.
+// Con un día no válido (por ejemplo '' antes de cargar datos) devuelve NaN.
+export const getZonedDayStart = (day: string, timeZone: string): number => {
+  const midnight = new Date(`${day}T00:00:00.000Z`).getTime();
+  if (isNaN(midnight)) return NaN;
+  let time = fromWallClock(midnight, timeZone);
+  while (getZonedDay(time, timeZone) > day) time -= OFFSET_STEP_MS;
+  while (getZonedDay(time, timeZone) < day) time += OFFSET_STEP_MS;
+  while (getZonedDay(time - OFFSET_STEP_MS, timeZone) === day) time -= OFFSET_STEP_MS;
+  return time;
+};
+
+// Función para obtener el periodo [from, to) en ms de los días indicados (YYYY-MM-DD, inclusivos)
+export const getZonedDayBounds = (startDay: string, endDay: string = startDay, timeZone: string): { from: number; to: number } => ({
+  from: getZonedDayStart(startDay, timeZone),
+  to: getZonedDayStart(getNextDay(endDay), timeZone)
+});
+
+// Función para obtener el inicio del intervalo de un instante en la zona indicada
+// Los intervalos de un día o más empiezan a medianoche; los menores siguen el reloj de la
+// zona, así que una vela de 4h va de 00:00 a 04:00 locales aunque ese día cambie la hora.
+// El inicio se calcula con el desfase de la propia muestra, de modo que la hora que se repite
+// al retrasar el reloj forma dos intervalos distintos. Si la hora cambia dentro del intervalo,
+// este empieza cuando el reloj marcaba su inicio con el desfase anterior al cambio, o en el
+// propio cambio si antes de él el reloj estaba fuera del intervalo.
+export const getZonedBucketStart = (time: number, intervalMs: number, timeZone: string): number => {
+  if (intervalMs >= DAY_MS) return getZonedDayStart(getZonedDay(time, timeZone), timeZone);
+  const offset = getTimeZoneOffset(time, timeZone);
+  const wallClock = time + offset;
+  const bucketWallClock = Math.floor(wallClock / intervalMs) * intervalMs;
+  const start = time - (wallClock - bucketWallClock);
+  const startOffset = getTimeZoneOffset(start, timeZone);
+  if (startOffset === offset) return start;
+
+  // Instante del cambio de hora: el primer cuarto de hora con el desfase de la muestra
+  let low = Math.floor(start / OFFSET_STEP_MS);
+  let high = Math.floor(time / OFFSET_STEP_MS);
+  while (high - low > 1) {
+    const mid = Math.floor((low + high) / 2);
+    if (getTimeZoneOffset(mid * OFFSET_STEP_MS, timeZone) === offset) high = mid;
+    else low = mid;
+  }
+  const transition = high * OFFSET_STEP_MS;
+  const previousStart = bucketWallClock - startOffset;
+  return previousStart < transition && transition <= previousStart + intervalMs ? previousStart : transition;
+};
+
+// Función para dar formato a un instante como 'YYYY-MM-DD HH:MM:SS' en la zona indicada
+// Plotly dibuja estas cadenas tal cual, mientras que las fechas y números los pasa a la zona del navegador.
+export const formatZonedDateTime = (time: number, timeZone: string): string => {
+  return new Date(toWallClock(time, timeZone)).toISOString().slice(0, 19).replace('T', ' ');
+};
+
+// Función para obtener el texto con el que se indica la zona en ejes y etiquetas
+export const getTimeZoneLabel = (timeZone: string): string => timeZone.replace(/_/g, ' ');
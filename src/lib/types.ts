@@ -0,0 +1,33 @@
+// Tipos compartidos entre el cliente y las rutas de la API
+
+export interface PriceRecord {
+  timestamp: string;
+  price: number;
+}
+
+export interface RawData {
+  items: {
+    [key: string]: PriceRecord[];
+  };
+}
+
+// Registro plano usado por los gráficos del dashboard
+export interface FlatDataItem {
+  item: string;
+  timestamp: Date;
+  price: number;
+  hour: number; // 0-23 en la zona horaria del dashboard
+  day: string;  // YYYY-MM-DD en la zona horaria del dashboard
+}
+
+// Resumen de un archivo semanal tal como lo devuelve /api/files?details=1
+export interface WeekFileSummary {
+  filename: string;
+  format: 'iso-week' | 'date-range' | 'single-day';
+  start: string; // ISO, inclusivo
+  end: string;   // ISO, exclusivo
+  records: number;
+  items: number;
+  firstTimestamp: string | null;
+  lastTimestamp: string | null;
+}
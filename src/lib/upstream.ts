@@ -0,0 +1,142 @@
+// Cliente de servidor para la API de precios de WarEra (tRPC)
+// Solo debe usarse desde rutas de la API o scripts de Node, nunca desde el navegador.
+
+import { API_CONFIG } from '@/config/api.config';
+import type { RawData } from '@/lib/types';
+
+// Error con información de la respuesta de la API de origen
+export class UpstreamError extends Error {
+  status: number | null;
+  attempts: number;
+
+  constructor(message: string, status: number | null, attempts: number) {
+    super(message);
+    this.name = 'UpstreamError';
+    this.status = status;
+    this.attempts = attempts;
+  }
+}
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+// Solo se reintenta ante errores de red, 429 o errores 5xx
+const isRetryableStatus = (status: number): boolean => {
+  return status === 429 || status >= 500;
+};
+
+// Función para extraer un precio numérico de un valor de la respuesta
+const extractPrice = (value: unknown): number | null => {
+  if (typeof value === 'number') {
+    return Number.isFinite(value) ? value : null;
+  }
+  if (typeof value === 'string' && value.trim() !== '') {
+    const parsed = Number(value);
+    return Number.isFinite(parsed) ? parsed : null;
+  }
+  if (value && typeof value === 'object') {
+    const record = value as Record<string, unknown>;
+    for (const key of ['price', 'averagePrice', 'avgPrice', 'value']) {
+      const price = extractPrice(record[key]);
+      if (price !== null) return price;
+    }
+  }
+  return null;
+};
+
+// Función para decodificar el sobre de respuesta de tRPC al formato RawData
+// Acepta respuestas simples ({ result: { data } }), por lotes ([{ result: ... }])
+// y serializadas con superjson ({ result: { data: { json } } }).
+export function decodeTrpcResponse(body: unknown, timestamp: string = new Date().toISOString()): RawData {
+  let envelope = Array.isArray(body) ? body[0] : body;
+  if (!envelope || typeof envelope !== 'object') {
+    throw new Error('Respuesta de la API vacía o con formato desconocido');
+  }
+
+  const envelopeRecord = envelope as Record<string, unknown>;
+  if (envelopeRecord.error) {
+    const trpcError = envelopeRecord.error as { message?: string; json?: { message?: string } };
+    throw new Error(`Error tRPC: ${trpcError.json?.message ?? trpcError.message ?? 'desconocido'}`);
+  }
+
+  const result = envelopeRecord.result as { data?: unknown } | undefined;
+  if (!result || result.data === undefined) {
+    throw new Error('La respuesta de la API no contiene result.data');
+  }
+
+  envelope = result.data;
+  if (envelope && typeof envelope === 'object' && 'json' in envelope) {
+    envelope = (envelope as { json: unknown }).json;
+  }
+  if (!envelope || typeof envelope !== 'object') {
+    throw new Error('result.data no contiene un mapa de precios');
+  }
+
+  const data: RawData = { items: {} };
+  // El mapa puede llegar como objeto { item: precio } o como lista [{ itemCode, price }]
+  const entries: [string, unknown][] = Array.isArray(envelope)
+    ? envelope
+        .filter(entry => entry && typeof entry === 'object')
+        .map(entry => {
+          const record = entry as Record<string, unknown>;
+          const name = record.itemCode ?? record.item ?? record.code ?? record.name;
+          return [String(name), record] as [string, unknown];
+        })
+    : Object.entries(envelope as Record<string, unknown>);
+
+  for (const [item, value] of entries) {
+    const price = extractPrice(value);
+    if (!item || item === 'undefined' || price === null) {
+      console.warn(`Precio inválido recibido para ${item}`);
+      continue;
+    }
+    data.items[item] = [{ timestamp, price }];
+  }
+
+  if (Object.keys(data.items).length === 0) {
+    throw new Error('La respuesta de la API no contiene precios válidos');
+  }
+
+  return data;
+}
+
+// Función para obtener los precios actuales de la API de origen con reintentos
+// La espera entre intentos crece de forma exponencial a partir de retryDelay.
+export async function fetchUpstreamPrices(): Promise<RawData> {
+  let lastError: Error | null = null;
+  let lastStatus: number | null = null;
+  let attempts = 0;
+
+  for (let attempt = 1; attempt <= API_CONFIG.maxRetries; attempt++) {
+    attempts = attempt;
+    try {
+      const response = await fetch(API_CONFIG.baseUrl, {
+        headers: API_CONFIG.headers,
+        cache: 'no-store',
+        signal: AbortSignal.timeout(API_CONFIG.requestTimeout),
+      });
+
+      if (!response.ok) {
+        lastStatus = response.status;
+        lastError = new Error(`Error HTTP: ${response.status}`);
+        if (!isRetryableStatus(response.status)) break;
+      } else {
+        return decodeTrpcResponse(await response.json());
+      }
+    } catch (error) {
+      lastStatus = null;
+      lastError = error instanceof Error ? error : new Error(String(error));
+    }
+
+    if (attempt < API_CONFIG.maxRetries) {
+      const delay = API_CONFIG.retryDelay * Math.pow(2, attempt - 1);
+      console.warn(`Intento ${attempt} fallido contra la API de precios, reintentando en ${delay}ms:`, lastError?.message);
+      await sleep(delay);
+    }
+  }
+
+  throw new UpstreamError(
+    lastError?.message ?? 'Error desconocido al consultar la API de precios',
+    lastStatus,
+    attempts
+  );
+}
@@ -0,0 +1,15 @@
+import { describe, expect, it } from 'vitest';
+import { DEFAULT_VIEW_STATE, parseViewState, serializeViewState } from '@/lib/urlState';
+
+describe('zona horaria en la URL', () => {
+  it('escribe la zona y la recupera al leer el enlace', () => {
+    const search = serializeViewState({ ...DEFAULT_VIEW_STATE, day: '2025-10-26', timeZone: 'Europe/Madrid' });
+    expect(search).toContain('day=2025-10-26');
+    expect(search).toContain('tz=Europe%2FMadrid');
+    expect(parseViewState(`?${search}`)).toMatchObject({ day: '2025-10-26', timeZone: 'Europe/Madrid' });
+  });
+
+  it('descarta zonas no válidas', () => {
+    expect(parseViewState('?tz=Marte%2FOlympus').timeZone).toBeUndefined();
+  });
+});
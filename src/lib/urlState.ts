@@ -0,0 +1,168 @@
+// Estado de la vista del dashboard serializado en la query string
+// Los valores inválidos se descartan al leer la URL y los valores por defecto no se escriben.
+
+import { isValidHour, type HourRange } from '@/lib/hourRange';
+import { isValidTimeZone } from '@/lib/timezone';
+import { isPriceFileName } from '@/lib/weekFiles';
+
+export const DATE_RANGE_MODES = ['single', 'range', 'all'] as const;
+export const Y_AXIS_MODES = ['linear', 'log', 'dual', 'normalized', 'candles'] as const;
+export const TREND_ANALYSIS_TYPES = ['daily', 'hourly'] as const;
+
+export type DateRangeMode = typeof DATE_RANGE_MODES[number];
+export type YAxisMode = typeof Y_AXIS_MODES[number];
+export type TrendAnalysisType = typeof TREND_ANALYSIS_TYPES[number];
+
+export interface DashboardViewState {
+  item: string;
+  item2: string;
+  dateRange: DateRangeMode;
+  day: string;          // YYYY-MM-DD, con dateRange 'single'
+  start: string;        // YYYY-MM-DD, con dateRange 'range'
+  end: string;
+  yAxis: YAxisMode;
+  candle: string;       // Intervalo de vela
+  trendItems: string[];
+  trendType: TrendAnalysisType;
+  hours: HourRange;
+  weeks: string[];      // Archivos semanales cargados
+  timeZone: string;     // Zona IANA de los días y horas; '' = la elegida en este navegador
+}
+
+export const DEFAULT_VIEW_STATE: DashboardViewState = {
+  item: 'cocain',
+  item2: '',
+  dateRange: 'single',
+  day: '',
+  start: '',
+  end: '',
+  yAxis: 'linear',
+  candle: '1h',
+  trendItems: [],
+  trendType: 'daily',
+  hours: [0, 23],
+  weeks: [],
+  timeZone: ''
+};
+
+const DAY_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+// Función para leer una lista separada por comas
+const parseList = (value: string | null): string[] => {
+  return value ? value.split(',').map(part => part.trim()).filter(Boolean) : [];
+};
+
+// Función para leer un valor que debe pertenecer a una lista cerrada
+const parseEnum = <T extends string>(value: string | null, allowed: readonly T[]): T | undefined => {
+  return value !== null && (allowed as readonly string[]).includes(value) ? value as T : undefined;
+};
+
+// Función para leer un día YYYY-MM-DD válido
+const parseDay = (value: string | null): string | undefined => {
+  if (!value || !DAY_PATTERN.test(value)) return undefined;
+  const date = new Date(`${value}T00:00:00Z`);
+  return !isNaN(date.getTime()) && date.toISOString().slice(0, 10) === value ? value : undefined;
+};
+
+// Función para leer el estado de la vista desde la query string
+// Solo valida el formato; que los items y días existan se comprueba al aplicarlo sobre los datos.
+export function parseViewState(search: string): Partial<DashboardViewState> {
+  const params = new URLSearchParams(search);
+  const state: Partial<DashboardViewState> = {};
+
+  const item = params.get('item');
+  if (item) state.item = item;
+  const item2 = params.get('item2');
+  if (item2) state.item2 = item2;
+
+  state.dateRange = parseEnum(params.get('range'), DATE_RANGE_MODES);
+  state.day = parseDay(params.get('day'));
+  state.start = parseDay(params.get('from'));
+  state.end = parseDay(params.get('to'));
+  if (state.start && state.end && state.start > state.end) {
+    state.start = state.end = undefined;
+  }
+
+  state.yAxis = parseEnum(params.get('y'), Y_AXIS_MODES);
+  state.candle = params.get('candle') ?? undefined;
+  if (params.has('trend')) state.trendItems = parseList(params.get('trend'));
+  state.trendType = parseEnum(params.get('trendType'), TREND_ANALYSIS_TYPES);
+
+  const hoursMatch = params.get('hours')?.match(/^(\d{1,2})-(\d{1,2})$/);
+  if (hoursMatch && isValidHour(Number(hoursMatch[1])) && isValidHour(Number(hoursMatch[2]))) {
+    state.hours = [Number(hoursMatch[1]), Number(hoursMatch[2])];
+  }
+
+  const weeks = parseList(params.get('weeks')).filter(isPriceFileName);
+  if (weeks.length > 0) state.weeks = weeks;
+
+  const timeZone = params.get('tz');
+  if (timeZone && isValidTimeZone(timeZone)) state.timeZone = timeZone;
+
+  // Quitar las claves sin valor válido para que no pisen los valores actuales
+  for (const key of Object.keys(state) as (keyof DashboardViewState)[]) {
+    if (state[key] === undefined) delete state[key];
+  }
+  return state;
+}
+
+// Función para escribir el estado de la vista en la query string
+// Los días solo se escriben cuando el modo de fechas los usa. La zona horaria se escribe
+// siempre que se conozca: los días y horas del enlace solo significan lo mismo en ella.
+export function serializeViewState(state: DashboardViewState): string {
+  const params = new URLSearchParams();
+  const defaults = DEFAULT_VIEW_STATE;
+
+  if (state.weeks.length > 0) params.set('weeks', state.weeks.join(','));
+  if (state.item !== defaults.item) params.set('item', state.item);
+  if (state.item2) params.set('item2', state.item2);
+  if (state.dateRange !== defaults.dateRange) params.set('range', state.dateRange);
+  if (state.dateRange === 'single' && state.day) params.set('day', state.day);
+  if (state.dateRange === 'range' && state.start) params.set('from', state.start);
+  if (state.dateRange === 'range' && state.end) params.set('to', state.end);
+  if (state.yAxis !== defaults.yAxis) params.set('y', state.yAxis);
+  if (state.yAxis === 'candles' && state.candle !== defaults.candle) params.set('candle', state.candle);
+  if (state.trendItems.length > 0) params.set('trend', state.trendItems.join(','));
+  if (state.trendType !== defaults.trendType) params.set('trendType', state.trendType);
+  if (state.hours[0] !== defaults.hours[0] || state.hours[1] !== defaults.hours[1]) {
+    params.set('hours', `${state.hours[0]}-${state.hours[1]}`);
+  }
+  if (state.timeZone) params.set('tz', state.timeZone);
+
+  // Las comas no necesitan escaparse y así los enlaces son legibles
+  return params.toString().replace(/%2C/g, ',');
+}
+
+export interface ViewStateOptions {
+  items: string[];            // Items presentes en los datos cargados
+  days: string[];             // Días presentes, ordenados
+  candleIntervals: string[];
+}
+
+// Función para completar el estado leído de la URL con valores por defecto
+// Los items, días e intervalos que no existen en los datos cargados se sustituyen por el valor por defecto.
+export function resolveViewState(view: Partial<DashboardViewState>, options: ViewStateOptions): DashboardViewState {
+  const items = new Set(options.items);
+  const days = new Set(options.days);
+  const firstDay = options.days[0] ?? '';
+  const lastDay = options.days[options.days.length - 1] ?? '';
+
+  const start = view.start && days.has(view.start) ? view.start : firstDay;
+  const end = view.end && days.has(view.end) && view.end >= start ? view.end : lastDay;
+
+  return {
+    item: view.item && items.has(view.item) ? view.item : DEFAULT_VIEW_STATE.item,
+    item2: view.item2 && items.has(view.item2) ? view.item2 : DEFAULT_VIEW_STATE.item2,
+    dateRange: view.dateRange ?? DEFAULT_VIEW_STATE.dateRange,
+    day: view.day && days.has(view.day) ? view.day : firstDay,
+    start,
+    end,
+    yAxis: view.yAxis ?? DEFAULT_VIEW_STATE.yAxis,
+    candle: view.candle && options.candleIntervals.includes(view.candle) ? view.candle : DEFAULT_VIEW_STATE.candle,
+    trendItems: [...new Set(view.trendItems ?? [])].filter(item => items.has(item)),
+    trendType: view.trendType ?? DEFAULT_VIEW_STATE.trendType,
+    hours: view.hours ?? DEFAULT_VIEW_STATE.hours,
+    weeks: view.weeks ?? DEFAULT_VIEW_STATE.weeks,
+    timeZone: view.timeZone ?? DEFAULT_VIEW_STATE.timeZone
+  };
+}
@@ -0,0 +1,216 @@
+// Notificaciones salientes por webhook cuando una regla de alerta se dispara
+// Solo debe usarse desde rutas de la API, instrumentation o scripts de Node.
+
+import crypto from 'crypto';
+import path from 'path';
+import { WEBHOOK_CONFIG } from '@/config/webhooks.config';
+import { evaluateRules, type AlertEvent, type AlertRule } from '@/lib/alerts';
+import { readJsonFile, SERVER_DATA_DIR, writeJsonAtomic } from '@/lib/dataStore';
+import { queryHistory } from '@/lib/history';
+import type { FlatDataItem, RawData } from '@/lib/types';
+
+export interface WebhookPayload {
+  event: 'price.alert';
+  id: string;
+  item: string;
+  price: number;
+  previousPrice: number | null;
+  rule: Pick<AlertRule, 'id' | 'item' | 'type' | 'threshold' | 'windowMinutes' | 'enabled'>;
+  message: string;
+  timestamp: string; // Timestamp de la muestra que disparó la regla
+}
+
+export interface DeliveryResult {
+  url: string;
+  ok: boolean;
+  status: number | null;
+  attempts: number;
+  error?: string;
+}
+
+const RULES_FILE = path.join(SERVER_DATA_DIR, 'alert-rules.json');
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+// Historial reciente en memoria usado para evaluar las reglas del servidor
+const globalForWebhooks = globalThis as unknown as { recentPrices?: FlatDataItem[] };
+
+// Cola para serializar las lecturas y escrituras de las reglas dentro del mismo proceso
+let rulesQueue: Promise<unknown> = Promise.resolve();
+
+// Función para ejecutar una tarea sobre las reglas cuando terminen las anteriores
+const enqueueRulesTask = <T>(task: () => Promise<T>): Promise<T> => {
+  const result = rulesQueue.then(task);
+  // Un fallo no debe bloquear las tareas siguientes
+  rulesQueue = result.catch(() => undefined);
+  return result;
+};
+
+// Función para leer las reglas que deben notificarse por webhook
+export async function readServerRules(): Promise<AlertRule[]> {
+  return readJsonFile<AlertRule[]>(RULES_FILE, []);
+}
+
+// Función para guardar las reglas que deben notificarse por webhook
+const writeServerRules = async (rules: AlertRule[]): Promise<void> => {
+  await writeJsonAtomic(RULES_FILE, rules);
+};
+
+// Función para reemplazar las reglas del servidor conservando su último disparo conocido
+// Pasa por la misma cola que la evaluación, así una evaluación en curso no recupera reglas
+// borradas ni pisa las editadas.
+export function replaceServerRules(rules: AlertRule[]): Promise<AlertRule[]> {
+  return enqueueRulesTask(async () => {
+    const current = await readServerRules();
+    const updated = rules.map(rule => ({
+      ...rule,
+      webhook: true,
+      lastTriggeredAt: current.find(r => r.id === rule.id)?.lastTriggeredAt
+    }));
+    await writeServerRules(updated);
+    return updated;
+  });
+}
+
+// Función para firmar un cuerpo con HMAC-SHA256
+// La firma cubre `${timestamp}.${body}` para evitar reenvíos de mensajes antiguos.
+export function signPayload(body: string, timestamp: string, secret: string): string {
+  return crypto.createHmac('sha256', secret).update(`${timestamp}.${body}`).digest('hex');
+}
+
+// Función para enviar un payload a una URL con reintentos y firma
+export async function deliverWebhook(url: string, payload: WebhookPayload): Promise<DeliveryResult> {
+  const body = JSON.stringify(payload);
+  let lastError = '';
+  let lastStatus: number | null = null;
+
+  for (let attempt = 1; attempt <= WEBHOOK_CONFIG.maxRetries; attempt++) {
+    const timestamp = Math.floor(Date.now() / 1000).toString();
+    const headers: Record<string, string> = {
+      'Content-Type': 'application/json',
+      'User-Agent': 'vercel-price-visualizer-webhooks',
+      'X-Webhook-Id': payload.id,
+      'X-Webhook-Timestamp': timestamp,
+      'X-Webhook-Attempt': String(attempt),
+    };
+    if (WEBHOOK_CONFIG.secret) {
+      headers['X-Webhook-Signature'] = `sha256=${signPayload(body, timestamp, WEBHOOK_CONFIG.secret)}`;
+    }
+
+    try {
+      const response = await fetch(url, {
+        method: 'POST',
+        headers,
+        body,
+        signal: AbortSignal.timeout(WEBHOOK_CONFIG.requestTimeout),
+      });
+      lastStatus = response.status;
+      if (response.ok) {
+        return { url, ok: true, status: response.status, attempts: attempt };
+      }
+      lastError = `Error HTTP: ${response.status}`;
+      // Los errores 4xx (salvo 429) no se reintentan
+      if (response.status !== 429 && response.status < 500) {
+        return { url, ok: false, status: response.status, attempts: attempt, error: lastError };
+      }
+    } catch (error) {
+      lastStatus = null;
+      lastError = error instanceof Error ? error.message : String(error);
+    }
+
+    if (attempt < WEBHOOK_CONFIG.maxRetries) {
+      await sleep(WEBHOOK_CONFIG.retryDelay * Math.pow(2, attempt - 1));
+    }
+  }
+
+  return { url, ok: false, status: lastStatus, attempts: WEBHOOK_CONFIG.maxRetries, error: lastError };
+}
+
+// Función para enviar los eventos disparados a todas las URLs configuradas
+export async function dispatchAlertEvents(events: AlertEvent[], rules: AlertRule[]): Promise<DeliveryResult[]> {
+  if (events.length === 0 || WEBHOOK_CONFIG.urls.length === 0) return [];
+
+  const deliveries = events.flatMap(event => {
+    const rule = rules.find(r => r.id === event.ruleId);
+    if (!rule) return [];
+    const ruleDefinition = {
+      id: rule.id,
+      item: rule.item,
+      type: rule.type,
+      threshold: rule.threshold,
+      windowMinutes: rule.windowMinutes,
+      enabled: rule.enabled
+    };
+    const payload: WebhookPayload = {
+      event: 'price.alert',
+      id: event.id,
+      item: event.item,
+      price: event.price,
+      previousPrice: event.previousPrice,
+      rule: ruleDefinition,
+      message: event.message,
+      timestamp: event.sampleTimestamp
+    };
+    return WEBHOOK_CONFIG.urls.map(url => deliverWebhook(url, payload));
+  });
+
+  const results = await Promise.all(deliveries);
+  for (const result of results.filter(r => !r.ok)) {
+    console.error(`Error al entregar webhook a ${result.url} tras ${result.attempts} intentos:`, result.error);
+  }
+  return results;
+}
+
+// Función para convertir RawData en registros planos
+const toFlatData = (data: RawData): FlatDataItem[] => {
+  const flatData: FlatDataItem[] = [];
+  for (const [item, records] of Object.entries(data.items)) {
+    for (const record of records) {
+      const date = new Date(record.timestamp);
+      if (isNaN(date.getTime())) continue;
+      flatData.push({
+        item,
+        timestamp: date,
+        price: Number(record.price),
+        hour: date.getUTCHours(),
+        day: date.toISOString().split('T')[0]
+      });
+    }
+  }
+  return flatData;
+};
+
+// Función para añadir precios nuevos al historial reciente en memoria
+const appendRecentPrices = async (data: RawData): Promise<FlatDataItem[]> => {
+  const cutoff = Date.now() - WEBHOOK_CONFIG.historyWindow;
+
+  if (!globalForWebhooks.recentPrices) {
+    // Primera evaluación: partir del historial guardado en los archivos semanales
+    const history = await queryHistory({ items: null, from: new Date(cutoff), to: null, resolution: 'raw' });
+    globalForWebhooks.recentPrices = toFlatData(history);
+  }
+
+  const seen = new Set(globalForWebhooks.recentPrices.map(d => `${d.item}|${d.timestamp.getTime()}`));
+  const incoming = toFlatData(data).filter(d => !seen.has(`${d.item}|${d.timestamp.getTime()}`));
+
+  globalForWebhooks.recentPrices = [...globalForWebhooks.recentPrices, ...incoming]
+    .filter(d => d.timestamp.getTime() >= cutoff)
+    .sort((a, b) => a.timestamp.getTime() - b.timestamp.getTime());
+  return globalForWebhooks.recentPrices;
+};
+
+// Función para evaluar las reglas del servidor con precios recién obtenidos
+// y notificar por webhook las que se disparen.
+// El envío queda fuera de la cola para que los reintentos no retrasen los cambios de reglas.
+export async function processFreshPrices(data: RawData): Promise<DeliveryResult[]> {
+  const { events, rules } = await enqueueRulesTask(async () => {
+    const rules = await readServerRules();
+    if (rules.length === 0) return { events: [], rules };
+
+    const recent = await appendRecentPrices(data);
+    const evaluation = evaluateRules(rules, recent);
+    if (evaluation.events.length > 0) await writeServerRules(evaluation.rules);
+    return evaluation;
+  });
+  return dispatchAlertEvents(events, rules);
+}
@@ -0,0 +1,112 @@
+// Esquema de nombres de los archivos semanales de precios
+// Compartido por el cargador del cliente, la ruta /api/files y el recolector.
+//
+// Formato actual:  prices_YYYY-WW.json (año y semana ISO, p. ej. prices_2025-23.json)
+// Formatos legados: prices_YYYY-MM-DD_to_YYYY-MM-DD.json y prices_YYYY-MM-DD.json
+
+import type { WeekFileSummary } from '@/lib/types';
+
+export type WeekFileFormat = WeekFileSummary['format'];
+
+export interface WeekFileInfo {
+  filename: string;
+  format: WeekFileFormat;
+  start: Date; // Inicio del periodo (UTC, inclusivo)
+  end: Date;   // Fin del periodo (UTC, exclusivo)
+}
+
+export interface IsoWeek {
+  year: number;
+  week: number;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const ISO_WEEK_PATTERN = /^prices_(\d{4})-(\d{2})\.json$/;
+const DATE_RANGE_PATTERN = /^prices_(\d{4}-\d{2}-\d{2})_to_(\d{4}-\d{2}-\d{2})\.json$/;
+const SINGLE_DAY_PATTERN = /^prices_(\d{4}-\d{2}-\d{2})\.json$/;
+
+// Función para convertir 'YYYY-MM-DD' en una fecha UTC válida
+const parseDay = (value: string): Date | null => {
+  const date = new Date(`${value}T00:00:00Z`);
+  return isNaN(date.getTime()) || date.toISOString().slice(0, 10) !== value ? null : date;
+};
+
+// Función para obtener el año y la semana ISO de una fecha (en UTC)
+export function getIsoWeek(date: Date): IsoWeek {
+  // El jueves de la semana ISO determina el año al que pertenece
+  const thursday = new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate()));
+  const dayOfWeek = thursday.getUTCDay() || 7;
+  thursday.setUTCDate(thursday.getUTCDate() + 4 - dayOfWeek);
+  const yearStart = Date.UTC(thursday.getUTCFullYear(), 0, 1);
+  return {
+    year: thursday.getUTCFullYear(),
+    week: Math.ceil(((thursday.getTime() - yearStart) / DAY_MS + 1) / 7)
+  };
+}
+
+// Función para obtener el lunes (00:00 UTC) de una semana ISO
+export function getIsoWeekStart(year: number, week: number): Date {
+  // El 4 de enero siempre pertenece a la semana 1
+  const jan4 = new Date(Date.UTC(year, 0, 4));
+  const mondayOfWeek1 = jan4.getTime() - ((jan4.getUTCDay() || 7) - 1) * DAY_MS;
+  return new Date(mondayOfWeek1 + (week - 1) * 7 * DAY_MS);
+}
+
+// Función para obtener el nombre del archivo semanal de una fecha
+export function getWeekFileName(date: Date): string {
+  const { year, week } = getIsoWeek(date);
+  return `prices_${year}-${String(week).padStart(2, '0')}.json`;
+}
+
+// Función para interpretar el nombre de un archivo de precios (actual o legado)
+export function parseWeekFileName(filename: string): WeekFileInfo | null {
+  let match = filename.match(ISO_WEEK_PATTERN);
+  if (match) {
+    const year = Number(match[1]);
+    const week = Number(match[2]);
+    // Solo se aceptan semanas que existen en ese año
+    if (week < 1 || week > 53 || getIsoWeek(getIsoWeekStart(year, week)).week !== week) return null;
+    const start = getIsoWeekStart(year, week);
+    return { filename, format: 'iso-week', start, end: new Date(start.getTime() + 7 * DAY_MS) };
+  }
+
+  match = filename.match(DATE_RANGE_PATTERN);
+  if (match) {
+    const start = parseDay(match[1]);
+    const lastDay = parseDay(match[2]);
+    if (!start || !lastDay || lastDay < start) return null;
+    return { filename, format: 'date-range', start, end: new Date(lastDay.getTime() + DAY_MS) };
+  }
+
+  match = filename.match(SINGLE_DAY_PATTERN);
+  if (match) {
+    const start = parseDay(match[1]);
+    if (!start) return null;
+    return { filename, format: 'single-day', start, end: new Date(start.getTime() + DAY_MS) };
+  }
+
+  return null;
+}
+
+// Función para saber si un nombre corresponde a un archivo de precios
+export function isPriceFileName(filename: string): boolean {
+  return parseWeekFileName(filename) !== null;
+}
+
+// Función para ordenar archivos de precios por fecha de inicio, más reciente primero
+export function sortWeekFiles(filenames: string[]): string[] {
+  return filenames
+    .map(parseWeekFileName)
+    .filter((info): info is WeekFileInfo => info !== null)
+    .sort((a, b) => b.start.getTime() - a.start.getTime() || a.filename.localeCompare(b.filename))
+    .map(info => info.filename);
+}
+
+// Función para seleccionar los archivos que se solapan con un periodo [from, to]
+export function selectFilesForSpan(filenames: string[], from: Date, to: Date): string[] {
+  return filenames.filter(filename => {
+    const info = parseWeekFileName(filename);
+    return info !== null && info.start <= to && info.end > from;
+  });
+}